@@ -12,6 +12,7 @@ const MAX_INSTANCES_PER_COMPONENT = 150; // Increased for comprehensive usage an
 const MEMORY_SAFE_MODE = true; // Enable smart processing with prioritization
 const PRIORITY_COMPONENTS_LIMIT = 50; // Increased - focus on more important components
 const ULTRA_SAFE_LIMIT = 30; // Increased fallback - prioritize diverse UI components over icons
+const MAX_VARIANT_SNAPSHOTS = 12; // Node trees per component set - variants mostly repeat one structure
 
 // Helper function to convert RGB to HSL
 function rgbToHsl(r: number, g: number, b: number) {
@@ -42,6 +43,20 @@ function rgbToHsl(r: number, g: number, b: number) {
 
 // Import markdown generator
 import { generateUnifiedMarkdown } from './generators/unified-markdown';
+import { DesignTokensGenerator } from './generators/design-tokens';
+import { TokensStudioGenerator, variableNameToTokenPath } from './generators/tokens-studio';
+import { StyleDictionaryGenerator } from './generators/style-dictionary';
+import { toGradientStops, getGradientType, formatCSSGradient } from './utils/naming';
+import { classifyVariable } from './utils/variable-resolver';
+import { readLayoutTree } from './utils/layout';
+import { snapshotNodeTree } from './utils/node-tree';
+import { readComponentProperties, buildComponentNameIndex } from './utils/component-properties';
+import { createTokenUsageCollector, collectTokenUsage, getTokenUsage, buildTokenComponentIndex } from './utils/token-usage';
+import { buildAuditTokenIndex, createHardcodedValueAudit, auditComponent, auditInstance, auditSelection, getHardcodedValueReport, AuditTokenIndex } from './utils/hardcoded-values';
+import { BINDING_THRESHOLDS, selectTokenBindings, applyTokenBindings } from './utils/token-binding';
+import { readContrastColors, buildContrastMatrix, checkTextContrast, summarizeTextContrast } from './utils/contrast';
+import { readColorSamples, findNearDuplicateColors } from './utils/color-clusters';
+import { ColorSample, ColorCluster } from './types';
 
 // Global type declaration for memory management
 declare const global: any;
@@ -68,10 +83,13 @@ class EnhancedVariableAliasResolver {
   private variableMap: Map<string, CustomVariable> = new Map();
   private primitiveValues: Map<string, any> = new Map();
   private resolvedCache: Map<string, any> = new Map();
+  private modeNames: Map<string, string> = new Map();
   private debugMode: boolean = true;
+  private preserveAliases: boolean = false;
 
-  constructor(debugMode: boolean = true) {
+  constructor(debugMode: boolean = true, preserveAliases: boolean = false) {
     this.debugMode = debugMode;
+    this.preserveAliases = preserveAliases;
   }
 
   /**
@@ -126,6 +144,7 @@ class EnhancedVariableAliasResolver {
     this.variableMap.clear();
     this.primitiveValues.clear();
     this.resolvedCache.clear();
+    this.buildModeNames(data);
 
     // Strategy 1: Check for variables at root level
     if (data.variables) {
@@ -348,7 +367,7 @@ class EnhancedVariableAliasResolver {
       if (this.isAlias(value)) {
         // Resolve alias
         this.log(`🔍 DEBUGGING: Resolving alias at ${currentPath}`);
-        resolved[key] = this.resolveAlias(value, currentPath);
+        resolved[key] = this.resolveAliasValue(value, currentPath);
       } else if (key === 'modes' && typeof value === 'object') {
         // Special handling for modes
         this.log(`🔍 DEBUGGING: Processing modes at ${currentPath}`);
@@ -389,7 +408,7 @@ class EnhancedVariableAliasResolver {
     
     for (const [modeId, value] of Object.entries(modes)) {
       if (this.isAlias(value)) {
-        resolved[this.getModeName(modeId)] = this.resolveAlias(value, `${path}.${modeId}`);
+        resolved[this.getModeName(modeId)] = this.resolveAliasValue(value, `${path}.${modeId}`, this.getModeName(modeId));
       } else if (this.isPrimitiveValue(value)) {
         resolved[this.getModeName(modeId)] = this.extractPrimitiveValue(value);
       } else {
@@ -401,27 +420,104 @@ class EnhancedVariableAliasResolver {
   }
 
   /**
-   * Get readable mode name
+   * Get readable mode name from the collection modes found in the data
    */
   private getModeName(modeId: string): string {
-    // Map mode IDs to readable names
-    const modeMap: Record<string, string> = {
-      '40000015:1': 'light',
-      '40000015:2': 'dark',
-      '111:3': 'default',
-      '594:0': 'default',
-      '89:0': 'default',
-      '20:0': 'light',
-      '20:1': 'dark',
-      '3919:21': 'light',
-      '3919:22': 'dark', 
-      '4245:0': 'brand',
-      '3919:19': 'default',
-      '202:2': 'light',
-      '202:4': 'dark'
-    };
+    return this.modeNames.get(modeId) || modeId;
+  }
+
+  /**
+   * Collect real mode names from variable collections
+   * Handles both extracted collection info (modeNames) and raw Figma collections (modes array)
+   */
+  private buildModeNames(data: any): void {
+    this.modeNames.clear();
+    
+    let collections: any[] = [];
+    if (data.collections) {
+      collections = Object.keys(data.collections).map(id => data.collections[id]);
+    } else if (Array.isArray(data.variableCollections)) {
+      collections = data.variableCollections;
+    }
+    
+    for (const collection of collections) {
+      if (collection.modeNames) {
+        for (const modeId of Object.keys(collection.modeNames)) {
+          this.modeNames.set(modeId, collection.modeNames[modeId]);
+        }
+      } else if (Array.isArray(collection.modes)) {
+        for (const mode of collection.modes) {
+          this.modeNames.set(mode.modeId, mode.name);
+        }
+      }
+    }
     
-    return modeMap[modeId] || modeId;
+    this.log(`Found ${this.modeNames.size} named modes`);
+  }
+
+  /**
+   * Resolve an alias, keeping its reference path when aliases are preserved
+   */
+  private resolveAliasValue(alias: any, path: string, modeName?: string): any {
+    // Whole variable objects also pass isAlias(); only true VARIABLE_ALIAS values keep a reference
+    if (!this.preserveAliases || alias.type !== 'VARIABLE_ALIAS') {
+      return this.resolveAlias(alias, path);
+    }
+
+    const aliasId = alias.id || alias;
+    const target = this.findVariable(aliasId);
+    return {
+      reference: target ? this.getReferencePath(target) : aliasId,
+      value: this.pickModeValue(this.resolveAlias(alias, path), modeName)
+    };
+  }
+
+  /**
+   * Look up a variable by any of its ID formats
+   */
+  private findVariable(aliasId: string): CustomVariable | undefined {
+    const idFormats = [
+      aliasId,
+      aliasId.replace('VariableID:', ''),
+      aliasId.split(':').pop() || aliasId
+    ];
+
+    for (const id of idFormats) {
+      const variable = this.variableMap.get(id);
+      if (variable) return variable;
+    }
+    return undefined;
+  }
+
+  /**
+   * Dotted reference path for a variable, e.g. Brand/Primary/500 -> Brand.Primary.500
+   */
+  private getReferencePath(variable: CustomVariable): string {
+    return (variable.name || variable.id)
+      .split('/')
+      .map(part => part.trim())
+      .join('.');
+  }
+
+  /**
+   * Pick the final value for one mode out of a resolved alias target
+   */
+  private pickModeValue(resolved: any, modeName?: string): any {
+    if (this.isAliasReference(resolved)) return resolved.value;
+    if (!resolved || typeof resolved !== 'object' || this.isAlias(resolved) || this.isPrimitiveValue(resolved)) {
+      return resolved;
+    }
+
+    const modeKeys = Object.keys(resolved);
+    const value = modeName && modeName in resolved ? resolved[modeName] : resolved[modeKeys[0]];
+    return this.isAliasReference(value) ? value.value : value;
+  }
+
+  /**
+   * Check if a value is a preserved { reference, value } pair
+   */
+  private isAliasReference(value: any): boolean {
+    return !!value && typeof value === 'object' && typeof value.reference === 'string' && 'value' in value;
   }
 
   /**
@@ -492,7 +588,7 @@ class EnhancedVariableAliasResolver {
       
       if (this.isAlias(value)) {
         // Recursive resolution
-        resolved[modeName] = this.resolveAlias(value, `${variable.name}.${modeId}`);
+        resolved[modeName] = this.resolveAliasValue(value, `${variable.name}.${modeId}`, modeName);
       } else if (this.isPrimitiveValue(value)) {
         resolved[modeName] = this.extractPrimitiveValue(value);
       } else {
@@ -502,8 +598,8 @@ class EnhancedVariableAliasResolver {
     
     // If only one mode, return the value directly
     const modeKeys = Object.keys(resolved);
-    if (modeKeys.length === 1 && modeKeys[0] === 'default') {
-      return resolved.default;
+    if (modeKeys.length === 1) {
+      return resolved[modeKeys[0]];
     }
     
     return resolved;
@@ -586,7 +682,7 @@ function calculateComponentComplexity(componentAnalysis: any[]): number {
 }
 
 // Main Component Analysis Engine - Memory Optimized
-async function analyzeComponents() {
+async function analyzeComponents(auditTokens: AuditTokenIndex, colorSamples: ColorSample[]) {
   console.log('Starting main component analysis...');
   
   // Memory optimization: Process pages one at a time instead of loading all
@@ -656,6 +752,9 @@ async function analyzeComponents() {
   
   console.log('Found', mainComponents.length, 'main components');
   
+  // Instance-swap preferred values are component keys; index every component before prioritization trims the list
+  var componentNamesByKey = buildComponentNameIndex(mainComponents as Array<ComponentSetNode | ComponentNode>);
+  
   // Smart component prioritization for comprehensive UI coverage
   if (mainComponents.length > BATCH_SIZE) {
     console.warn('Large document detected (' + mainComponents.length + ' components). Using smart prioritization to select', BATCH_SIZE, 'most important components.');
@@ -688,6 +787,7 @@ async function analyzeComponents() {
   };
   var layoutPatterns = new Map();
   var variantUsage = new Map();
+  var hardcodedAudit = createHardcodedValueAudit(auditTokens);
   
   // Cache all instances once for efficiency
   console.log('Building instance index for faster lookup...');
@@ -756,10 +856,11 @@ async function analyzeComponents() {
         type: component.type,
         description: component.description || '',
         variants: [],
-        properties: []
+        properties: await readComponentProperties(component as ComponentSetNode | ComponentNode, componentNamesByKey)
       };
     
     // For component sets, analyze variants
+    var variantStructures: Record<string, any> = {};
     if (component.type === 'COMPONENT_SET') {
       var componentSet = component as ComponentSetNode;
       componentInfo.variants = componentSet.children
@@ -770,8 +871,40 @@ async function analyzeComponents() {
             properties: variant.variantProperties || {}
           };
         });
+      
+      var variantNodes = componentSet.children.filter(function(child) { return child.type === 'COMPONENT'; });
+      for (var v = 0; v < Math.min(variantNodes.length, MAX_VARIANT_SNAPSHOTS); v++) {
+        variantStructures[variantNodes[v].name] = await snapshotNodeTree(variantNodes[v]);
+        componentInfo.variants[v].structure = variantStructures[variantNodes[v].name];
+      }
+    } else {
+      componentInfo.structure = await snapshotNodeTree(component);
+      variantStructures['default'] = componentInfo.structure;
     }
     
+    // Token usage covers every variant: a token change has to find all of them
+    var tokenCollector = createTokenUsageCollector();
+    if (component.type === 'COMPONENT_SET') {
+      for (const variantNode of (component as ComponentSetNode).children) {
+        await collectTokenUsage(variantNode, variantNode.name, tokenCollector);
+      }
+    } else {
+      await collectTokenUsage(component as ComponentNode, 'default', tokenCollector);
+    }
+    componentInfo.tokenUsage = getTokenUsage(tokenCollector);
+    await auditComponent(component as ComponentSetNode | ComponentNode, hardcodedAudit);
+    
+    // Text contrast against the real layer stack, per variant
+    var contrastChecks = component.type === 'COMPONENT_SET'
+      ? (component as ComponentSetNode).children.reduce(function(checks: any[], variantNode) {
+          return checks.concat(checkTextContrast(variantNode, variantNode.name));
+        }, [])
+      : checkTextContrast(component, 'default');
+    componentInfo.accessibility = {
+      colorContrast: summarizeTextContrast(contrastChecks),
+      contrastChecks: contrastChecks
+    };
+    
     // Use cached instances instead of scanning entire document
     var instances: InstanceNode[] = instanceCache.get(component.id) || [];
     
@@ -789,7 +922,14 @@ async function analyzeComponents() {
     componentUsage.set(component.id, {
       name: component.name,
       count: instances.length,
-      pages: Array.from(usagePages)
+      pages: Array.from(usagePages),
+      layout: readLayoutTree(component.type === 'COMPONENT_SET'
+        ? (component as ComponentSetNode).defaultVariant || (component as ComponentSetNode).children[0]
+        : component),
+      variantStructures: variantStructures,
+      properties: componentInfo.properties,
+      tokenUsage: componentInfo.tokenUsage,
+      accessibility: componentInfo.accessibility
     });
     
     totalInstances += instances.length;
@@ -828,6 +968,20 @@ async function analyzeComponents() {
     }
   }
   
+  // Instances nested in components were audited with them; the rest sit directly on pages
+  console.log('Auditing hard-coded values on page instances...');
+  for (const cachedInstances of Array.from(instanceCache.values())) {
+    for (const instance of cachedInstances) {
+      var ancestor = instance.parent;
+      while (ancestor && ancestor.type !== 'PAGE' && ancestor.type !== 'COMPONENT' && ancestor.type !== 'COMPONENT_SET') {
+        ancestor = ancestor.parent;
+      }
+      if (ancestor && ancestor.type === 'PAGE') {
+        await auditInstance(instance, hardcodedAudit);
+      }
+    }
+  }
+  
   // Process and analyze all collected data with error handling
   console.log('Processing component usage...');
   console.log('componentUsage size:', componentUsage.size);
@@ -845,8 +999,11 @@ async function analyzeComponents() {
   console.log('variantUsage size:', variantUsage.size);
   var variantAnalysis = processVariantUsage(variantUsage);
   
+  console.log('Clustering near-duplicate colors...');
+  var colorClusters = findNearDuplicateColors(collectColorUsage(colorSamples, componentAnalysis, styleAnalysis.colors));
+  
   console.log('Generating recommendations...');
-  var recommendations = generateUniversalRecommendations(styleAnalysis, componentUsageArray, variantAnalysis);
+  var recommendations = generateUniversalRecommendations(styleAnalysis, componentUsageArray, variantAnalysis, colorClusters);
   
   return {
     components: componentAnalysis,
@@ -862,10 +1019,35 @@ async function analyzeComponents() {
     layoutPatterns: layoutAnalysis,
     variantUsage: variantAnalysis,
     recommendations: recommendations,
-    insights: generateUniversalInsights(componentAnalysis, componentUsageArray, styleAnalysis)
+    insights: generateUniversalInsights(componentAnalysis, componentUsageArray, styleAnalysis),
+    hardcodedValues: getHardcodedValueReport(hardcodedAudit),
+    colorClusters: colorClusters
   };
 }
 
+// Tokens count the components that consume them; raw fills count the layers painted with them
+function collectColorUsage(colorSamples: ColorSample[], componentAnalysis: any[], colorPatterns: any[]): ColorSample[] {
+  var componentCounts = new Map<string, number>();
+  buildTokenComponentIndex(componentAnalysis).forEach(function(reference) {
+    componentCounts.set(reference.source + ':' + reference.token, reference.components.length);
+  });
+  
+  var samples = colorSamples.map(function(sample) {
+    return Object.assign({}, sample, { usage: componentCounts.get(sample.source + ':' + sample.name) || 0 });
+  });
+  
+  // A fill matching a token exactly is that token applied (or a binding the audit reports), not a near-duplicate
+  var tokenHexes = new Set(samples.map(function(sample) { return sample.hex; }));
+  colorPatterns.forEach(function(pattern: any) {
+    var hex = pattern.color.toUpperCase();
+    if (!tokenHexes.has(hex)) {
+      samples.push({ name: hex, hex: hex, source: 'fill', usage: pattern.usage });
+    }
+  });
+  
+  return samples;
+}
+
 // Analyze individual component instance
 async function analyzeInstanceAsync(instance: InstanceNode) {
   var mainComponent = await instance.getMainComponentAsync();
@@ -916,16 +1098,24 @@ function extractUniversalStyles(node: SceneNode) {
           visible: fill.visible !== false
         };
       } else if (fill.type.includes('GRADIENT')) {
+        var gradientFill = fill as GradientPaint;
         return {
           type: fill.type,
           opacity: fill.opacity || 1,
           visible: fill.visible !== false,
-          gradientStops: fill.gradientStops?.map(function(stop) {
+          gradientStops: gradientFill.gradientStops.map(function(stop) {
             return {
               position: stop.position,
-              color: colorToHex(stop.color)
+              color: colorToHex(stop.color),
+              alpha: stop.color.a
             };
-          })
+          }),
+          gradientTransform: gradientFill.gradientTransform,
+          css: formatCSSGradient(
+            getGradientType(fill.type),
+            toGradientStops(gradientFill.gradientStops, fill.opacity !== undefined ? fill.opacity : 1),
+            gradientFill.gradientTransform
+          ).css
         };
       }
       return { type: fill.type, opacity: fill.opacity || 1 };
@@ -1006,7 +1196,13 @@ function extractLayoutProperties(frameNode: FrameNode) {
     paddingBottom: frameNode.paddingBottom || 0,
     itemSpacing: frameNode.itemSpacing || 0,
     counterAxisSpacing: frameNode.counterAxisSpacing || 0,
-    strokesIncludedInLayout: frameNode.strokesIncludedInLayout
+    strokesIncludedInLayout: frameNode.strokesIncludedInLayout,
+    layoutWrap: frameNode.layoutWrap,
+    layoutSizingHorizontal: frameNode.layoutSizingHorizontal,
+    layoutSizingVertical: frameNode.layoutSizingVertical,
+    layoutPositioning: frameNode.layoutPositioning,
+    minWidth: frameNode.minWidth,
+    maxWidth: frameNode.maxWidth
   };
 }
 
@@ -1146,7 +1342,12 @@ function processComponentUsage(componentUsage: Map<any, any>) {
         count: comp.count,
         pages: comp.pages || [],
         avgInstancesPerPage: comp.pages ? Math.round(comp.count / comp.pages.length) : 0,
-        pagesUsed: comp.pages ? comp.pages.length : 0
+        pagesUsed: comp.pages ? comp.pages.length : 0,
+        layout: comp.layout,
+        variantStructures: comp.variantStructures,
+        properties: comp.properties || [],
+        tokenUsage: comp.tokenUsage || [],
+        accessibility: comp.accessibility
       };
     });
 }
@@ -1237,7 +1438,7 @@ function processVariantUsage(variantUsage: Map<any, any>) {
 }
 
 // Generate universal recommendations
-function generateUniversalRecommendations(styleAnalysis: any, componentUsage: any[], variantAnalysis: any[]) {
+function generateUniversalRecommendations(styleAnalysis: any, componentUsage: any[], variantAnalysis: any[], colorClusters: ColorCluster[]) {
   var recommendations: any[] = [];
   
   // Color token recommendations
@@ -1254,6 +1455,19 @@ function generateUniversalRecommendations(styleAnalysis: any, componentUsage: an
     }
   });
   
+  // Near-duplicate colors that should collapse into one token
+  colorClusters.forEach(function(cluster) {
+    var duplicates = cluster.members.slice(1).map(function(member) { return member.name; });
+    recommendations.push({
+      type: 'color-consolidation',
+      priority: cluster.totalUsage >= 10 ? 'high' : 'medium',
+      value: cluster.canonical.hex,
+      usage: cluster.totalUsage,
+      suggestion: 'Merge ' + duplicates.join(', ') + ' into ' + cluster.canonical.name + ' (' + cluster.canonical.hex + ', max ΔE00 ' + cluster.maxDistance + ')',
+      confidence: Math.min(0.95, 0.95 - cluster.maxDistance * 0.1)
+    });
+  });
+  
   // Spacing token recommendations
   styleAnalysis.spacing.forEach(function(pattern: any) {
     if (pattern.usage >= 2) {
@@ -1493,6 +1707,125 @@ function cleanDataForSerialization(data: any): any {
   }));
 }
 
+// Write a Tokens Studio file back into variable collections: theme groups -> collections, themes -> modes
+async function importTokensStudio(json: string) {
+  var plannedCollections = new TokensStudioGenerator().parseTokensStudio(json);
+  var existingCollections = await figma.variables.getLocalVariableCollectionsAsync();
+  var existingVariables = await figma.variables.getLocalVariablesAsync();
+  
+  // Aliases are matched by token path, against both existing and newly created variables
+  var variablesByPath = new Map<string, Variable>();
+  for (var i = 0; i < existingVariables.length; i++) {
+    variablesByPath.set(variableNameToTokenPath(existingVariables[i].name), existingVariables[i]);
+  }
+  
+  var summary = { collections: plannedCollections.length, created: 0, updated: 0, skipped: 0, unresolvedAliases: 0 };
+  var pendingAliases: Array<{ variable: Variable; modeId: string; path: string }> = [];
+  
+  for (var c = 0; c < plannedCollections.length; c++) {
+    var planned = plannedCollections[c];
+    var collection = existingCollections.find(function(candidate) { return candidate.name === planned.name; });
+    var isNewCollection = !collection;
+    if (!collection) {
+      collection = figma.variables.createVariableCollection(planned.name);
+    }
+    
+    var modeIds: Record<string, string> = {};
+    for (var m = 0; m < planned.modes.length; m++) {
+      var modeName = planned.modes[m];
+      var mode = collection.modes.find(function(candidate) { return candidate.name === modeName; });
+      if (mode) {
+        modeIds[modeName] = mode.modeId;
+      } else if (m === 0 && isNewCollection) {
+        // New collections start with one unnamed mode; reuse it for the first theme
+        collection.renameMode(collection.modes[0].modeId, modeName);
+        modeIds[modeName] = collection.modes[0].modeId;
+      } else {
+        modeIds[modeName] = collection.addMode(modeName);
+      }
+    }
+    
+    for (var v = 0; v < planned.variables.length; v++) {
+      var plannedVariable = planned.variables[v];
+      var resolvedType = plannedVariable.type as VariableResolvedDataType;
+      var target = existingVariables.find(function(candidate) {
+        return candidate.name === plannedVariable.name && candidate.variableCollectionId === collection!.id;
+      });
+      
+      if (target && target.resolvedType !== resolvedType) {
+        console.warn('Skipping ' + plannedVariable.name + ': existing variable is ' + target.resolvedType + ', file has ' + resolvedType);
+        summary.skipped++;
+        continue;
+      }
+      if (target) {
+        summary.updated++;
+      } else {
+        target = figma.variables.createVariable(plannedVariable.name, collection, resolvedType);
+        summary.created++;
+      }
+      
+      target.description = plannedVariable.description || '';
+      if (plannedVariable.scopes && plannedVariable.scopes.length > 0) {
+        target.scopes = plannedVariable.scopes as VariableScope[];
+      }
+      variablesByPath.set(plannedVariable.id, target);
+      
+      for (var modeKey in plannedVariable.modes) {
+        var modeValue = plannedVariable.modes[modeKey];
+        if (modeValue.type === 'VARIABLE_ALIAS') {
+          pendingAliases.push({ variable: target, modeId: modeIds[modeKey], path: modeValue.id as string });
+        } else if (resolvedType === 'COLOR' && modeValue.rgb) {
+          target.setValueForMode(modeIds[modeKey], {
+            r: modeValue.rgb.r / 255,
+            g: modeValue.rgb.g / 255,
+            b: modeValue.rgb.b / 255,
+            a: modeValue.rgb.a !== undefined ? modeValue.rgb.a : 1
+          });
+        } else {
+          target.setValueForMode(modeIds[modeKey], modeValue.value);
+        }
+      }
+    }
+  }
+  
+  // Aliases are bound last so references to tokens defined later in the file still resolve
+  for (var a = 0; a < pendingAliases.length; a++) {
+    var aliasTarget = variablesByPath.get(pendingAliases[a].path);
+    if (aliasTarget) {
+      pendingAliases[a].variable.setValueForMode(pendingAliases[a].modeId, figma.variables.createVariableAlias(aliasTarget));
+    } else {
+      console.warn('Unresolved Tokens Studio reference {' + pendingAliases[a].path + '}');
+      summary.unresolvedAliases++;
+    }
+  }
+  
+  return summary;
+}
+
+// Audit the selection and list the raw values close enough to a token to rebind; nothing changes until applied
+async function previewTokenBindings(thresholdName: string) {
+  var selection = figma.currentPage.selection;
+  if (selection.length === 0) {
+    throw new Error('Select the layers to bind first');
+  }
+  
+  var results = await Promise.all([
+    figma.variables.getLocalVariablesAsync(),
+    figma.variables.getLocalVariableCollectionsAsync(),
+    figma.getLocalPaintStylesAsync(),
+    figma.getLocalTextStylesAsync()
+  ]);
+  var audit = createHardcodedValueAudit(buildAuditTokenIndex(results[0], results[1], results[2], results[3]));
+  await auditSelection(selection, audit);
+  
+  var threshold = BINDING_THRESHOLDS[thresholdName] || BINDING_THRESHOLDS.close;
+  return {
+    threshold: threshold.label,
+    found: audit.findings.length,
+    bindings: selectTokenBindings(audit.findings, threshold)
+  };
+}
+
 figma.showUI(__html__, {
   width: 900,
   height: 800,
@@ -1537,7 +1870,8 @@ figma.ui.onmessage = function(msg) {
         figma.getLocalPaintStylesAsync(),
         figma.getLocalTextStylesAsync(),
         figma.getLocalEffectStylesAsync(),
-        figma.getLocalGridStylesAsync()
+        figma.getLocalGridStylesAsync(),
+        collections
       ]);
     }).then(function(results) {
       var allVariables = results[0];
@@ -1545,6 +1879,7 @@ figma.ui.onmessage = function(msg) {
       var textStyles = results[2];
       var effectStyles = results[3];
       var gridStyles = results[4];
+      var collections = results[5];
       
       console.log('Found', allVariables.length, 'total variables');
       console.log('Found', paintStyles.length, 'paint styles');
@@ -1575,6 +1910,7 @@ figma.ui.onmessage = function(msg) {
           totalGridStyles: gridStyles.length,
           extractedBy: 'DeVibe System Plugin'
         },
+        collections: {},
         variables: {},
         styles: {
           paint: {},
@@ -1584,6 +1920,21 @@ figma.ui.onmessage = function(msg) {
         }
       };
       
+      // Record real mode names per collection (keyed by ID so the resolver can name modes)
+      for (var c = 0; c < collections.length; c++) {
+        var modeNames: any = {};
+        for (var n = 0; n < collections[c].modes.length; n++) {
+          modeNames[collections[c].modes[n].modeId] = collections[c].modes[n].name;
+        }
+        
+        semanticStructure.collections[collections[c].id] = {
+          name: collections[c].name,
+          defaultModeId: collections[c].defaultModeId,
+          defaultMode: modeNames[collections[c].defaultModeId] || collections[c].defaultModeId,
+          modeNames: modeNames
+        };
+      }
+      
       // Group variables by type - filter out null values
       var variablesByType: any = {};
       
@@ -1599,13 +1950,36 @@ figma.ui.onmessage = function(msg) {
         // Create semantic value object
         var semanticValue: any = {
           id: variable.id,
+          name: variable.name,
+          collectionId: variable.variableCollectionId,
           description: variable.description || '',
           scopes: variable.scopes,
           modes: {}
         };
         
-        // Process all modes for this variable
-        for (var modeId in (variable as any).valuesByMode) {
+        // Code syntax is the name engineers agreed on; generators prefer it over derived names
+        if (variable.codeSyntax && Object.keys(variable.codeSyntax).length > 0) {
+          semanticValue.codeSyntax = Object.assign({}, variable.codeSyntax);
+        }
+        
+        // FLOAT/STRING/BOOLEAN variables carry their scope-based classification so outputs can type them
+        if (type !== 'COLOR') {
+          var classification = classifyVariable(type, variable.scopes, variable.name);
+          semanticValue.category = classification.category;
+          if (classification.typographyProperty) semanticValue.typographyProperty = classification.typographyProperty;
+          if (classification.unit) semanticValue.unit = classification.unit;
+        }
+        
+        // Process all modes for this variable, default mode first so generators treat it as the base value
+        var variableCollection = semanticStructure.collections[variable.variableCollectionId];
+        var modeIds = Object.keys((variable as any).valuesByMode);
+        if (variableCollection && modeIds.indexOf(variableCollection.defaultModeId) > 0) {
+          modeIds.splice(modeIds.indexOf(variableCollection.defaultModeId), 1);
+          modeIds.unshift(variableCollection.defaultModeId);
+        }
+        
+        for (var mi = 0; mi < modeIds.length; mi++) {
+          var modeId = modeIds[mi];
           var value = (variable as any).valuesByMode[modeId];
           
           if (type === 'COLOR' && value && typeof value === 'object' && 'r' in value) {
@@ -1617,7 +1991,8 @@ figma.ui.onmessage = function(msg) {
               rgb: {
                 r: Math.round(color.r * 255),
                 g: Math.round(color.g * 255),
-                b: Math.round(color.b * 255)
+                b: Math.round(color.b * 255),
+                a: 'a' in color ? (color as RGBA).a : 1
               },
               hsl: rgbToHsl(color.r, color.g, color.b)
             };
@@ -1683,12 +2058,18 @@ figma.ui.onmessage = function(msg) {
                   rgb: {
                     r: Math.round(stop.color.r * 255),
                     g: Math.round(stop.color.g * 255),
-                    b: Math.round(stop.color.b * 255)
+                    b: Math.round(stop.color.b * 255),
+                    a: stop.color.a
                   }
                 }
               };
             });
             paintData.gradientTransform = paint.gradientTransform;
+            paintData.css = formatCSSGradient(
+              getGradientType(paint.type),
+              toGradientStops(paint.gradientStops, paint.opacity !== undefined ? paint.opacity : 1),
+              paint.gradientTransform
+            ).css;
           } else if (paint.type === 'IMAGE') {
             paintData.imageHash = paint.imageHash || null;
             paintData.scaleMode = paint.scaleMode || 'FILL';
@@ -1725,9 +2106,19 @@ figma.ui.onmessage = function(msg) {
           textCase: textStyle.textCase || 'ORIGINAL',
           textDecoration: textStyle.textDecoration || 'NONE',
           hangingPunctuation: textStyle.hangingPunctuation || false,
-          hangingList: textStyle.hangingList || false
+          hangingList: textStyle.hangingList || false,
+          boundVariables: {} as Record<string, string>
         };
         
+        // Field -> variable id, so token outputs can reference the variable instead of the literal
+        var textBindings = textStyle.boundVariables || {};
+        for (var textField in textBindings) {
+          var textAlias = (textBindings as any)[textField];
+          if (textAlias && textAlias.id) {
+            textValue.boundVariables[textField] = textAlias.id;
+          }
+        }
+        
         createNestedObject(semanticStructure.styles.text, textStyle.name, textValue);
       }
       
@@ -1758,7 +2149,7 @@ figma.ui.onmessage = function(msg) {
                 r: Math.round(shadowEffect.color.r * 255),
                 g: Math.round(shadowEffect.color.g * 255),
                 b: Math.round(shadowEffect.color.b * 255),
-                a: shadowEffect.color.a || 1
+                a: shadowEffect.color.a
               }
             };
           } else if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') {
@@ -1831,13 +2222,58 @@ figma.ui.onmessage = function(msg) {
         createNestedObject(semanticStructure.styles.grid, gridStyle.name, gridStyleValue);
       }
       
+      // Every text/icon color against every surface color, per mode
+      semanticStructure.contrastMatrix = buildContrastMatrix(
+        readContrastColors(allVariables.filter(Boolean) as Variable[], collections as VariableCollection[], paintStyles as PaintStyle[]),
+        msg.apca === true
+      );
+      
+      // Raw values found during component analysis are matched against these variables and styles
+      var auditTokens = buildAuditTokenIndex(
+        allVariables.filter(Boolean) as Variable[],
+        collections as VariableCollection[],
+        paintStyles as PaintStyle[],
+        textStyles as TextStyle[]
+      );
+      
+      var colorSamples = readColorSamples(
+        allVariables.filter(Boolean) as Variable[],
+        collections as VariableCollection[],
+        paintStyles as PaintStyle[]
+      );
+      
       // Now add component analysis
-      return analyzeComponents().then(function(componentAnalysis) {
+      return analyzeComponents(auditTokens, colorSamples).then(function(componentAnalysis) {
         // Combine design tokens with component analysis
         var completeData = Object.assign({}, semanticStructure, {
           componentAnalysis: componentAnalysis
         });
         
+        // Build W3C design tokens from the raw data so alias references are kept
+        var designTokens = '';
+        try {
+          designTokens = new DesignTokensGenerator().generateFromExtractedData(completeData);
+          console.log('Design tokens generated successfully, length:', designTokens.length);
+        } catch (error) {
+          console.error('Error generating design tokens:', error);
+        }
+        
+        var tokensStudio = '';
+        try {
+          tokensStudio = new TokensStudioGenerator().generateFromExtractedData(completeData);
+          console.log('Tokens Studio file generated successfully, length:', tokensStudio.length);
+        } catch (error) {
+          console.error('Error generating Tokens Studio file:', error);
+        }
+        
+        var styleDictionary: Record<string, string> = {};
+        try {
+          styleDictionary = new StyleDictionaryGenerator().generateFromExtractedData(completeData);
+          console.log('Style Dictionary source generated successfully, files:', Object.keys(styleDictionary).length);
+        } catch (error) {
+          console.error('Error generating Style Dictionary source:', error);
+        }
+        
         // CRITICAL: Resolve all variable aliases using enhanced resolver
         console.log('🔗 Starting enhanced variable alias resolution...');
         console.log('📍 CHECKPOINT 1: Reached resolver initialization');
@@ -1845,7 +2281,7 @@ figma.ui.onmessage = function(msg) {
         console.log('📍 CHECKPOINT 2: About to create EnhancedVariableAliasResolver');
         
         try {
-          var enhancedResolver = new EnhancedVariableAliasResolver(true); // Enable debug mode
+          var enhancedResolver = new EnhancedVariableAliasResolver(true, true); // Debug mode, keep alias references
           console.log('📍 CHECKPOINT 3: EnhancedVariableAliasResolver created successfully');
           console.log('📍 CHECKPOINT 4: About to call resolveVariables()');
           var resolvedData = enhancedResolver.resolveVariables(completeData);
@@ -1895,7 +2331,17 @@ figma.ui.onmessage = function(msg) {
           type: 'extraction-complete',
           data: cleanData,  // Send resolved data
           markdown: markdownContent || '# Fallback Markdown\n\nMarkdown generation failed.',
-          fileName: figma.root.name + '-design-system.md'
+          fileName: figma.root.name + '-design-system.md',
+          designTokens: designTokens,
+          designTokensFileName: figma.root.name + '.tokens.json',
+          tokensStudio: tokensStudio,
+          tokensStudioFileName: figma.root.name + '.tokens-studio.json',
+          styleDictionary: styleDictionary,
+          styleDictionaryFileName: figma.root.name + '.style-dictionary.zip',
+          hardcodedValues: JSON.stringify(componentAnalysis.hardcodedValues, null, 2),
+          hardcodedValuesFileName: figma.root.name + '.hardcoded-values.json',
+          contrastReport: JSON.stringify(completeData.contrastMatrix, null, 2),
+          contrastReportFileName: figma.root.name + '.contrast.json'
         };
         console.log('Sending message with keys:', Object.keys(messageData));
         figma.ui.postMessage(messageData);
@@ -1911,6 +2357,44 @@ figma.ui.onmessage = function(msg) {
     });
   }
   
+  if (msg.type === 'import-tokens-studio') {
+    importTokensStudio(msg.json).then(function(summary) {
+      figma.notify('Imported ' + (summary.created + summary.updated) + ' variables from Tokens Studio');
+      figma.ui.postMessage(Object.assign({ type: 'tokens-studio-import-complete' }, summary));
+    }).catch(function(error) {
+      console.error('Error importing Tokens Studio file:', error);
+      figma.ui.postMessage({
+        type: 'error',
+        message: 'Failed to import Tokens Studio file: ' + error.message
+      });
+    });
+  }
+  
+  if (msg.type === 'preview-token-bindings') {
+    previewTokenBindings(msg.threshold).then(function(preview) {
+      figma.ui.postMessage(Object.assign({ type: 'token-binding-preview' }, preview));
+    }).catch(function(error) {
+      console.error('Error previewing token bindings:', error);
+      figma.ui.postMessage({
+        type: 'error',
+        message: 'Failed to preview token bindings: ' + error.message
+      });
+    });
+  }
+  
+  if (msg.type === 'apply-token-bindings') {
+    applyTokenBindings(msg.bindings).then(function(result) {
+      figma.notify('Bound ' + result.applied + ' raw values to tokens' + (result.skipped.length ? ', ' + result.skipped.length + ' skipped' : ''));
+      figma.ui.postMessage(Object.assign({ type: 'token-binding-complete' }, result));
+    }).catch(function(error) {
+      console.error('Error applying token bindings:', error);
+      figma.ui.postMessage({
+        type: 'error',
+        message: 'Failed to apply token bindings: ' + error.message
+      });
+    });
+  }
+  
   if (msg.type === 'close') {
     figma.closePlugin();
   }
@@ -1,5 +1,5 @@
 // Main plugin code for DeVibe System - AI-Optimized Design System Extractor
-import { PluginMessage, PluginState, ExtractionConfig, AIOptimizedOutput } from './types';
+import { PluginMessage, PluginState, ExtractionConfig, AIOptimizedOutput, TailwindThemeSources, EffectToken, GradientToken, VariableToken } from './types';
 
 // Import extractors
 import { ComponentExtractor } from './extractors/components';
@@ -10,6 +10,8 @@ import { UtilityCSSGenerator } from './generators/utility-css';
 import { TailwindConfigGenerator } from './generators/tailwind-config';
 import { ComponentLibraryGenerator } from './generators/component-library';
 import { AIContextGenerator } from './generators/ai-context';
+import { DesignTokensGenerator } from './generators/design-tokens';
+import { StyleDictionaryGenerator } from './generators/style-dictionary';
 
 // Import formatters
 import { AIFriendlyNamingFormatter } from './formatters/ai-friendly-naming';
@@ -25,7 +27,7 @@ let currentState: PluginState = {
     includeSpacing: true,
     includeComponents: true,
     namingConvention: 'kebab-case',
-    outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'context-cards'],
+    outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'design-tokens', 'style-dictionary', 'context-cards'],
     aiToolTargets: ['all'],
     semanticNaming: true,
     includeUsageExamples: true,
@@ -105,8 +107,12 @@ async function handleTokenExtraction(config: ExtractionConfig) {
     // Combine all extracted tokens
     let extractedTokens: any[] = [];
     extractedTokens = extractedTokens.concat(extractionResult.colors.tokens);
+    extractedTokens = extractedTokens.concat(extractionResult.gradients);
     extractedTokens = extractedTokens.concat(extractionResult.typography);
     extractedTokens = extractedTokens.concat(extractionResult.spacing);
+    extractedTokens = extractedTokens.concat(extractionResult.variables);
+    extractedTokens = extractedTokens.concat(extractionResult.effects.shadows);
+    extractedTokens = extractedTokens.concat(extractionResult.effects.blurs);
     
     // Extract components if requested
     let analyzedComponents: any[] = [];
@@ -145,7 +151,8 @@ async function handleTokenExtraction(config: ExtractionConfig) {
       tokens: extractedTokens,
       components: analyzedComponents,
       resolutionStats: extractionResult.resolutionStats,
-      extractionSummary: extractionResult.summary
+      extractionSummary: extractionResult.summary,
+      namingConflicts: extractionResult.namingConflicts
     });
     
     figma.ui.postMessage({ 
@@ -218,6 +225,57 @@ async function getFigmaFileData(): Promise<any> {
   return data;
 }
 
+// Collects the radius, grid and prototype values the Tailwind theme is built from, next to the extracted tokens
+async function collectTailwindThemeSources(
+  variables: VariableToken[],
+  effects: EffectToken[],
+  gradients: GradientToken[]
+): Promise<TailwindThemeSources> {
+  const sources: TailwindThemeSources = {
+    variables,
+    observedRadii: [],
+    effects,
+    gradients,
+    gridStyles: [],
+    transitions: []
+  };
+  
+  const frameWidths: Record<string, number> = {};
+  const radii = new Set<number>();
+  const nodes = figma.root.findAll(node => node.type === 'FRAME' || node.type === 'COMPONENT' || node.type === 'INSTANCE' || node.type === 'RECTANGLE');
+  
+  for (const node of nodes) {
+    if ('cornerRadius' in node && typeof node.cornerRadius === 'number' && node.cornerRadius > 0) {
+      radii.add(node.cornerRadius);
+    }
+    
+    if ('gridStyleId' in node && node.gridStyleId) {
+      const current = frameWidths[node.gridStyleId];
+      frameWidths[node.gridStyleId] = current ? Math.min(current, node.width) : node.width;
+    }
+    
+    if ('reactions' in node) {
+      for (const reaction of node.reactions) {
+        const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+        for (const action of actions) {
+          if (action.type === 'NODE' && action.transition) {
+            sources.transitions!.push(action.transition);
+          }
+        }
+      }
+    }
+  }
+  
+  sources.observedRadii = Array.from(radii);
+  sources.gridStyles = figma.getLocalGridStyles().map(style => ({
+    name: style.name,
+    layoutGrids: style.layoutGrids,
+    frameWidth: frameWidths[style.id]
+  }));
+  
+  return sources;
+}
+
 async function handleOutputGeneration(formats: string[]) {
   currentState.isProcessing = true;
   currentState.currentStep = 'generate';
@@ -231,6 +289,9 @@ async function handleOutputGeneration(formats: string[]) {
     const colors = currentState.extractedTokens.filter(t => t.type === 'color');
     const typography = currentState.extractedTokens.filter(t => t.type === 'typography');
     const spacing = currentState.extractedTokens.filter(t => t.type === 'spacing');
+    const variables = currentState.extractedTokens.filter(t => t.type === 'variable');
+    const gradients = currentState.extractedTokens.filter(t => t.type === 'gradient');
+    const effects = currentState.extractedTokens.filter(t => t.type === 'shadow' || t.type === 'blur');
     const components = currentState.analyzedComponents;
     
     // Initialize generators
@@ -238,11 +299,13 @@ async function handleOutputGeneration(formats: string[]) {
     const tailwindConfigGenerator = new TailwindConfigGenerator(currentState.config);
     const componentLibraryGenerator = new ComponentLibraryGenerator(currentState.config);
     const aiContextGenerator = new AIContextGenerator(currentState.config);
+    const designTokensGenerator = new DesignTokensGenerator(currentState.config);
+    const styleDictionaryGenerator = new StyleDictionaryGenerator(currentState.config);
     
     // Generate outputs based on requested formats
     if (formats.includes('css-utilities')) {
       figma.ui.postMessage({ type: 'status', message: 'Generating utility CSS...' });
-      const cssContent = utilityCSSGenerator.generateUtilityCSS(colors as any, typography as any, spacing as any);
+      const cssContent = utilityCSSGenerator.generateUtilityCSS(colors as any, typography as any, spacing as any, effects as any, gradients as any, variables as any);
       
       outputs.push({
         format: 'css-utilities',
@@ -259,7 +322,9 @@ async function handleOutputGeneration(formats: string[]) {
     
     if (formats.includes('tailwind-config')) {
       figma.ui.postMessage({ type: 'status', message: 'Generating Tailwind config...' });
-      const tailwindConfig = tailwindConfigGenerator.generateTailwindConfig(colors as any, typography as any, spacing as any);
+      const themeSources = await collectTailwindThemeSources(variables as any, effects as any, gradients as any);
+      const tailwindConfig = tailwindConfigGenerator.generateTailwindConfig(colors as any, typography as any, spacing as any, themeSources);
+      const isTailwindV4 = currentState.config.tailwindVersion === 'v4';
       
       outputs.push({
         format: 'tailwind-config',
@@ -267,9 +332,11 @@ async function handleOutputGeneration(formats: string[]) {
         metadata: {
           generatedAt: new Date().toISOString(),
           aiToolCompatibility: currentState.config.aiToolTargets,
-          usageInstructions: 'Replace your tailwind.config.js with this configuration',
+          usageInstructions: isTailwindV4
+            ? 'Use this CSS as your main stylesheet - it imports Tailwind and defines the @theme'
+            : 'Replace your tailwind.config.js with this configuration',
           copyPasteReady: true,
-          dependencies: ['tailwindcss', '@tailwindcss/forms', '@tailwindcss/typography']
+          dependencies: isTailwindV4 ? ['tailwindcss@4'] : ['tailwindcss', '@tailwindcss/forms', '@tailwindcss/typography']
         }
       });
     }
@@ -291,9 +358,46 @@ async function handleOutputGeneration(formats: string[]) {
       });
     }
     
+    if (formats.includes('design-tokens')) {
+      figma.ui.postMessage({ type: 'status', message: 'Generating W3C design tokens...' });
+      const designTokens = designTokensGenerator.generateDesignTokens(colors as any, typography as any, spacing as any, effects as any, gradients as any, variables as any);
+      
+      outputs.push({
+        format: 'design-tokens',
+        content: designTokens,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          aiToolCompatibility: currentState.config.aiToolTargets,
+          usageInstructions: 'Save as tokens.json and feed it to any DTCG-compatible build pipeline (Style Dictionary, Terrazzo, Tokens Studio)',
+          copyPasteReady: true,
+          dependencies: []
+        }
+      });
+    }
+    
+    if (formats.includes('style-dictionary')) {
+      figma.ui.postMessage({ type: 'status', message: 'Generating Style Dictionary source files...' });
+      const designSystemResult = (currentState as any).designSystemResult;
+      const organizedColors = designSystemResult ? designSystemResult.colors : { primitives: {}, semantic: {} };
+      const sourceFiles = styleDictionaryGenerator.generateSourceFiles(organizedColors, typography as any, spacing as any, gradients as any);
+      
+      outputs.push({
+        format: 'style-dictionary',
+        content: Object.keys(sourceFiles).map(path => `// ${path}\n${sourceFiles[path]}`).join('\n\n'),
+        files: sourceFiles,
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          aiToolCompatibility: currentState.config.aiToolTargets,
+          usageInstructions: 'Download the files into a Style Dictionary project and run `style-dictionary build --config config.json`',
+          copyPasteReady: false,
+          dependencies: ['style-dictionary']
+        }
+      });
+    }
+    
     if (formats.includes('context-cards')) {
       figma.ui.postMessage({ type: 'status', message: 'Generating AI context...' });
-      const aiContext = aiContextGenerator.generateAIPromptContext(colors as any, typography as any, spacing as any, components);
+      const aiContext = aiContextGenerator.generateAIPromptContext(colors as any, typography as any, spacing as any, components, effects as any, gradients as any, variables as any);
       
       outputs.push({
         format: 'context-cards',
@@ -394,7 +498,7 @@ export const PLUGIN_METADATA = {
   version: '1.0.0',
   description: 'Extract design system tokens optimized for AI prototyping tools',
   supportedAITools: ['bolt', 'v0', 'loveable', 'cursor', 'figma-make'],
-  outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'context-cards'],
+  outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'design-tokens', 'style-dictionary', 'context-cards'],
   features: [
     'Semantic token naming',
     'AI-friendly documentation',
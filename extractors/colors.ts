@@ -1,6 +1,6 @@
-import { ColorToken, SemanticMapping, VariableResolutionResult } from '../types';
-import { generateSemanticName, rgbToHex, rgbToHsl, calculateContrastRatio } from '../utils/naming';
-import { EnhancedVariableAliasResolver } from '../utils/variable-resolver';
+import { ColorToken, ColorModeValue, GradientToken, SemanticMapping, VariableResolutionResult, AliasReference } from '../types';
+import { generateSemanticName, rgbToHex, rgbToHsl, calculateContrastRatio, toGradientStops, getGradientType, formatCSSGradient } from '../utils/naming';
+import { EnhancedVariableAliasResolver, isAliasReference } from '../utils/variable-resolver';
 
 export class ColorExtractor {
   private variableResolver: EnhancedVariableAliasResolver;
@@ -47,7 +47,8 @@ export class ColorExtractor {
   };
 
   constructor() {
-    this.variableResolver = new EnhancedVariableAliasResolver(true);
+    // Keep alias references so generators can emit var() links instead of duplicated hex values
+    this.variableResolver = new EnhancedVariableAliasResolver(true, true);
   }
 
   async extractColors(): Promise<ColorToken[]> {
@@ -157,6 +158,39 @@ export class ColorExtractor {
     };
   }
 
+  // Gradient paint styles become tokens of their own instead of collapsing to their first stop
+  async extractGradients(): Promise<GradientToken[]> {
+    const gradientTokens: GradientToken[] = [];
+
+    for (const style of figma.getLocalPaintStyles()) {
+      const paint = style.paints.find(candidate => candidate.visible !== false && candidate.type.indexOf('GRADIENT') === 0) as GradientPaint | undefined;
+      if (!paint) continue;
+
+      const gradientType = getGradientType(paint.type);
+      const stops = toGradientStops(paint.gradientStops, paint.opacity !== undefined ? paint.opacity : 1);
+      const gradient = formatCSSGradient(gradientType, stops, paint.gradientTransform);
+      const segments = style.name.toLowerCase()
+        .split('/')
+        .map(segment => segment.trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+        .filter(segment => segment.length > 0 && segment !== 'gradient' && segment !== 'gradients');
+      const semanticName = ['gradient'].concat(segments).join('-');
+
+      gradientTokens.push({
+        name: style.name,
+        value: gradient.css,
+        type: 'gradient',
+        gradientType,
+        stops,
+        angle: gradient.angle,
+        semanticName,
+        description: style.description || `${gradientType.charAt(0).toUpperCase() + gradientType.slice(1)} gradient with ${stops.length} stops`,
+        usage: [`background-image: var(--${semanticName})`]
+      });
+    }
+
+    return gradientTokens;
+  }
+
   private async processResolvedColors(colors: any, colorTokens: ColorToken[]): Promise<void> {
     for (const [category, colorGroup] of Object.entries(colors)) {
       if (typeof colorGroup === 'object' && colorGroup !== null) {
@@ -171,9 +205,9 @@ export class ColorExtractor {
   }
 
   private async processResolvedVariables(variables: any, colorTokens: ColorToken[]): Promise<void> {
-    for (const [, variable] of Object.entries(variables)) {
+    for (const [key, variable] of Object.entries(variables)) {
       if (typeof variable === 'object' && variable && 'type' in variable && variable.type === 'COLOR') {
-        const token = this.createColorTokenFromVariable(variable);
+        const token = this.createColorTokenFromVariable(variable, (variable as any).id || key);
         if (token) {
           colorTokens.push(token);
         }
@@ -184,8 +218,22 @@ export class ColorExtractor {
   private createColorTokenFromResolved(category: string, name: string, value: any): ColorToken | null {
     let hexValue: string | null = null;
     let rgbValue: { r: number; g: number; b: number } | null = null;
+    let reference: string | undefined;
     
-    if (typeof value === 'string' && value.startsWith('#')) {
+    const colorModes = this.extractColorModes(value);
+    const defaultMode = colorModes ? this.pickDefaultMode(colorModes, value.defaultMode) : undefined;
+    
+    const aliased = this.findAliasReference(value);
+    if (aliased) {
+      reference = aliased.reference;
+      value = aliased.value;
+    }
+    
+    if (colorModes && defaultMode) {
+      hexValue = colorModes[defaultMode].hex;
+      rgbValue = colorModes[defaultMode].rgb;
+      reference = colorModes[defaultMode].reference;
+    } else if (typeof value === 'string' && value.startsWith('#')) {
       hexValue = value;
       rgbValue = this.hexToRgb(value);
     } else if (typeof value === 'object') {
@@ -219,16 +267,25 @@ export class ColorExtractor {
       semanticRole,
       description: `Resolved color from ${category} category`,
       usage: this.generateUsageExamples(semanticRole, semanticName),
-      contrastRatio: calculateContrastRatio(hexValue, '#FFFFFF')
+      contrastRatio: calculateContrastRatio(hexValue, '#FFFFFF'),
+      reference,
+      modes: colorModes,
+      defaultMode
     };
   }
 
-  private createColorTokenFromVariable(variable: any): ColorToken | null {
+  private createColorTokenFromVariable(variable: any, variableId: string): ColorToken | null {
     const modes = variable.modes || {};
     let hexValue: string | null = null;
     let rgbValue: { r: number; g: number; b: number } | null = null;
+    let reference: string | undefined;
     
-    for (const [, value] of Object.entries(modes)) {
+    for (let [, value] of Object.entries(modes)) {
+      if (isAliasReference(value)) {
+        reference = value.reference;
+        value = value.value;
+      }
+      
       if (typeof value === 'string' && value.startsWith('#')) {
         hexValue = value;
         rgbValue = this.hexToRgb(value);
@@ -242,12 +299,14 @@ export class ColorExtractor {
     
     if (!hexValue || !rgbValue) return null;
     
+    const colorModes = this.extractColorModes(modes);
     const semanticName = this.generateSemanticColorName(variable.name);
     const semanticRole = this.determineSemanticRole(variable.name, hexValue);
     const hsl = rgbToHsl(rgbValue.r, rgbValue.g, rgbValue.b);
     
     return {
       name: variable.name,
+      variableId,
       value: hexValue,
       type: 'color',
       hex: hexValue,
@@ -257,10 +316,60 @@ export class ColorExtractor {
       semanticRole,
       description: variable.description || `Variable color: ${variable.name}`,
       usage: this.generateUsageExamples(semanticRole, semanticName),
-      contrastRatio: calculateContrastRatio(hexValue, '#FFFFFF')
+      contrastRatio: calculateContrastRatio(hexValue, '#FFFFFF'),
+      reference,
+      modes: colorModes,
+      defaultMode: colorModes ? this.pickDefaultMode(colorModes, modes.defaultMode) : undefined
     };
   }
 
+  // Collects every mode of a resolved mode map (e.g. { light, dark, 'high-contrast' }) so themes can be generated
+  private extractColorModes(modes: any): Record<string, ColorModeValue> | undefined {
+    if (!modes || typeof modes !== 'object' || 'hex' in modes || isAliasReference(modes)) return undefined;
+    
+    const colorModes: Record<string, ColorModeValue> = {};
+    for (const [modeName, modeValue] of Object.entries(modes)) {
+      const color = this.toColorModeValue(modeValue);
+      if (color) {
+        colorModes[modeName] = color;
+      }
+    }
+    
+    return Object.keys(colorModes).length > 1 ? colorModes : undefined;
+  }
+
+  private toColorModeValue(value: any): ColorModeValue | null {
+    let reference: string | undefined;
+    if (isAliasReference(value)) {
+      reference = value.reference;
+      value = value.value;
+    }
+    
+    if (typeof value === 'string' && value.startsWith('#')) {
+      const rgb = this.hexToRgb(value);
+      return rgb ? { hex: value, rgb, reference } : null;
+    }
+    if (value && typeof value === 'object' && typeof value.hex === 'string') {
+      const rgb = value.rgb || this.hexToRgb(value.hex);
+      return rgb ? { hex: value.hex, rgb: { r: rgb.r, g: rgb.g, b: rgb.b }, reference } : null;
+    }
+    return null;
+  }
+
+  // The resolver records the collection's default mode in the map; mode names alone say nothing about it
+  private pickDefaultMode(modes: Record<string, ColorModeValue>, declared?: string): string {
+    return declared && modes[declared] ? declared : Object.keys(modes)[0];
+  }
+
+  private findAliasReference(value: any): AliasReference | null {
+    if (isAliasReference(value)) return value;
+    if (value && typeof value === 'object') {
+      const modeValue = value.light || value.default;
+      if (isAliasReference(modeValue)) return modeValue;
+    }
+    return null;
+  }
+
   private hexToRgb(hex: string): { r: number; g: number; b: number } | null {
     const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
     return result ? {
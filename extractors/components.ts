@@ -1,6 +1,13 @@
-import { AnalyzedComponent, ComponentVariant, ComponentProp, AccessibilityInfo, ComponentUsageAnalysis } from '../types';
+import { AnalyzedComponent, ComponentVariant, ComponentProp, AccessibilityInfo, ComponentUsageAnalysis, TokenUsage, TextContrastCheck } from '../types';
+import { readLayoutTree } from '../utils/layout';
+import { snapshotNodeTree } from '../utils/node-tree';
+import { readComponentProperties, buildComponentNameIndex, toPropName } from '../utils/component-properties';
+import { createTokenUsageCollector, collectTokenUsage, getTokenUsage } from '../utils/token-usage';
+import { checkTextContrast, summarizeTextContrast } from '../utils/contrast';
 
 export class ComponentExtractor {
+  private componentNamesByKey: Map<string, string> | null = null;
+
   private componentTypePatterns: Record<string, RegExp[]> = {
     'button': [
       /btn|button/i,
@@ -229,10 +236,10 @@ export class ComponentExtractor {
 
   private async analyzeComponentSet(componentSet: ComponentSetNode): Promise<AnalyzedComponent> {
     const variants = await this.extractVariants(componentSet);
-    const props = this.analyzeComponentProps(componentSet);
+    const props = await this.analyzeComponentProps(componentSet);
     const componentType = this.determineComponentType(componentSet.name);
     const semanticDescription = this.generateSemanticDescription(componentSet, componentType);
-    const accessibility = await this.analyzeAccessibility(componentSet.children[0] as ComponentNode);
+    const accessibility = await this.analyzeAccessibility(componentSet.children[0] as ComponentNode, componentSet.children);
     const usage = this.generateUsageExamples(componentType, componentSet.name);
 
     return {
@@ -243,14 +250,17 @@ export class ComponentExtractor {
       usage,
       examples: this.generateCodeExamples(componentSet.name, componentType, variants, props),
       semanticDescription,
-      accessibility
+      accessibility,
+      // The default variant stands in for the set; variants usually differ in padding, not structure
+      layout: readLayoutTree(componentSet.defaultVariant || componentSet.children[0]),
+      tokenUsage: await this.analyzeTokenUsage(componentSet.children.filter(child => child.type === 'COMPONENT'), variants)
     };
   }
 
   private async analyzeSingleComponent(component: ComponentNode): Promise<AnalyzedComponent> {
     const componentType = this.determineComponentType(component.name);
     const semanticDescription = this.generateSemanticDescription(component, componentType);
-    const accessibility = await this.analyzeAccessibility(component);
+    const accessibility = await this.analyzeAccessibility(component, [component]);
     
     // Analyze component usage through instances
     const usageAnalysis = await this.analyzeComponentUsage(component);
@@ -261,10 +271,11 @@ export class ComponentExtractor {
       name: 'default',
       properties: {},
       description: 'Default variant of the component',
-      usage: 'Standard implementation of the component'
+      usage: 'Standard implementation of the component',
+      structure: await snapshotNodeTree(component)
     }];
     
-    const props = this.inferPropsFromComponent(component);
+    const props = await this.inferPropsFromComponent(component);
 
     return {
       name: component.name,
@@ -274,10 +285,21 @@ export class ComponentExtractor {
       usage,
       examples: this.generateCodeExamples(component.name, componentType, variants, props),
       semanticDescription,
-      accessibility
+      accessibility,
+      layout: readLayoutTree(component),
+      tokenUsage: await this.analyzeTokenUsage([component], variants)
     };
   }
 
+  // Variant nodes and analyzed variants are in the same order, so names pair up by index
+  private async analyzeTokenUsage(variantNodes: SceneNode[], variants: ComponentVariant[]): Promise<TokenUsage[]> {
+    const collector = createTokenUsageCollector();
+    for (let i = 0; i < variantNodes.length; i++) {
+      await collectTokenUsage(variantNodes[i], variants[i] ? variants[i].name : variantNodes[i].name, collector);
+    }
+    return getTokenUsage(collector);
+  }
+
   private async analyzeComponentUsage(component: ComponentNode): Promise<ComponentUsageAnalysis> {
     const instances = figma.root.findAll(node => 
       node.type === 'INSTANCE' && (node as InstanceNode).mainComponent?.id === component.id
@@ -350,13 +372,16 @@ export class ComponentExtractor {
     for (const child of componentSet.children) {
       if (child.type === 'COMPONENT') {
         const component = child as ComponentNode;
-        const variantProps = this.parseVariantProperties(component.name);
+        const variantProps = component.variantProperties
+          ? this.normalizeVariantProperties(component.variantProperties)
+          : this.parseVariantProperties(component.name);
         
         variants.push({
           name: this.generateVariantName(variantProps),
           properties: variantProps,
           description: this.generateVariantDescription(variantProps),
-          usage: this.generateVariantUsage(variantProps)
+          usage: this.generateVariantUsage(variantProps),
+          structure: await snapshotNodeTree(component)
         });
       }
     }
@@ -384,6 +409,15 @@ export class ComponentExtractor {
     return properties;
   }
 
+  // Same key and value casing as the props read from componentPropertyDefinitions
+  private normalizeVariantProperties(variantProperties: Record<string, string>): Record<string, any> {
+    const properties: Record<string, any> = {};
+    for (const [key, value] of Object.entries(variantProperties)) {
+      properties[toPropName(key)] = value.toLowerCase();
+    }
+    return properties;
+  }
+
   private generateVariantName(properties: Record<string, any>): string {
     const values = Object.values(properties).filter(v => v !== 'default');
     return values.length > 0 ? values.join('-') : 'default';
@@ -436,7 +470,13 @@ export class ComponentExtractor {
       : 'Standard usage variant';
   }
 
-  private analyzeComponentProps(componentSet: ComponentSetNode): ComponentProp[] {
+  private async analyzeComponentProps(componentSet: ComponentSetNode): Promise<ComponentProp[]> {
+    const definedProps = await readComponentProperties(componentSet, this.getComponentNameIndex());
+    if (definedProps.length > 0) {
+      return this.withCommonProps(definedProps);
+    }
+
+    // Older files without property definitions: fall back to parsing variant names
     let props: ComponentProp[] = [];
     const variantPropertyKeys = new Set<string>();
 
@@ -480,7 +520,12 @@ export class ComponentExtractor {
     return props;
   }
 
-  private inferPropsFromComponent(component: ComponentNode): ComponentProp[] {
+  private async inferPropsFromComponent(component: ComponentNode): Promise<ComponentProp[]> {
+    const definedProps = await readComponentProperties(component, this.getComponentNameIndex());
+    if (definedProps.length > 0) {
+      return this.withCommonProps(definedProps);
+    }
+
     let props: ComponentProp[] = [];
     
     // Analyze component structure to infer possible props
@@ -501,6 +546,19 @@ export class ComponentExtractor {
     return props;
   }
 
+  private withCommonProps(props: ComponentProp[]): ComponentProp[] {
+    return props.concat(this.getCommonProps().filter(common => !props.some(prop => prop.name === common.name)));
+  }
+
+  private getComponentNameIndex(): Map<string, string> {
+    if (!this.componentNamesByKey) {
+      const nodes = figma.root.findAll(node => node.type === 'COMPONENT_SET' ||
+        (node.type === 'COMPONENT' && (!node.parent || node.parent.type !== 'COMPONENT_SET'))) as Array<ComponentSetNode | ComponentNode>;
+      this.componentNamesByKey = buildComponentNameIndex(nodes);
+    }
+    return this.componentNamesByKey;
+  }
+
   private getCommonProps(): ComponentProp[] {
     return [
       {
@@ -722,20 +780,21 @@ export class ComponentExtractor {
     return examples;
   }
 
-  private async analyzeAccessibility(component: ComponentNode): Promise<AccessibilityInfo> {
+  // Contrast covers every variant: disabled and ghost states are where it usually fails
+  private async analyzeAccessibility(component: ComponentNode, variantNodes: readonly SceneNode[]): Promise<AccessibilityInfo> {
+    const contrastChecks = variantNodes.reduce((checks, variant) => {
+      return checks.concat(checkTextContrast(variant, variantNodes.length > 1 ? variant.name : 'default'));
+    }, [] as TextContrastCheck[]);
+
     const accessibility: AccessibilityInfo = {
       ariaLabels: [],
       keyboardNavigation: false,
-      colorContrast: 'fail',
-      focusManagement: false
+      colorContrast: summarizeTextContrast(contrastChecks),
+      focusManagement: false,
+      contrastChecks
     };
 
-    // Check for text content and color contrast
     const textNodes = component.findAll(node => node.type === 'TEXT') as TextNode[];
-    if (textNodes.length > 0) {
-      // Simplified contrast check - in real implementation, would check actual colors
-      accessibility.colorContrast = 'AA'; // Placeholder
-    }
 
     // Check for interactive elements
     const interactiveElements = component.findAll(node => 
@@ -1,8 +1,13 @@
-import { ColorToken, DesignToken, VariableResolutionResult, AnalyzedComponent } from '../types';
+import { ColorToken, DesignToken, VariableResolutionResult, AnalyzedComponent, GradientToken, ShadowToken, BlurToken, VariableToken, CodeSyntax, NamingConflict, NodeSnapshot, SpacingConformanceReport, TypeScaleReport } from '../types';
 import { EnhancedVariableAliasResolver } from '../utils/variable-resolver';
+import { codeSyntaxToName, detectTypeScale } from '../utils/naming';
+import { toLayoutRules, formatLayoutCSS, describeLayout, toClassSegment } from '../utils/layout';
+import { outlineNodeTree, formatNodeTrees } from '../utils/node-tree';
 import { ColorExtractor } from './colors';
 import { TypographyExtractor } from './typography';
 import { SpacingExtractor } from './spacing';
+import { EffectExtractor } from './effects';
+import { VariableExtractor } from './variables';
 import { ComponentExtractor } from './components';
 
 export interface DesignSystemExtractionResult {
@@ -11,9 +16,18 @@ export interface DesignSystemExtractionResult {
     semantic: Record<string, Record<string, any>>;
     tokens: ColorToken[];
   };
+  gradients: GradientToken[];
   typography: DesignToken[];
+  typeScale: TypeScaleReport;
   spacing: DesignToken[];
+  spacingConformance: SpacingConformanceReport;
+  variables: VariableToken[];
+  effects: {
+    shadows: ShadowToken[];
+    blurs: BlurToken[];
+  };
   components: AnalyzedComponent[];
+  namingConflicts: NamingConflict[];
   resolutionStats: any;
   markdown: string;
   summary: {
@@ -30,6 +44,8 @@ export class DesignSystemExtractor {
   private colorExtractor: ColorExtractor;
   private typographyExtractor: TypographyExtractor;
   private spacingExtractor: SpacingExtractor;
+  private effectExtractor: EffectExtractor;
+  private variableExtractor: VariableExtractor;
   private componentExtractor: ComponentExtractor;
 
   constructor() {
@@ -37,6 +53,8 @@ export class DesignSystemExtractor {
     this.colorExtractor = new ColorExtractor();
     this.typographyExtractor = new TypographyExtractor();
     this.spacingExtractor = new SpacingExtractor();
+    this.effectExtractor = new EffectExtractor();
+    this.variableExtractor = new VariableExtractor();
     this.componentExtractor = new ComponentExtractor();
   }
 
@@ -53,8 +71,13 @@ export class DesignSystemExtractor {
     `);
 
     const colorExtractionResult = await this.colorExtractor.extractColorsWithVariableResolution(figmaFileData);
+    const gradientTokens = await this.colorExtractor.extractGradients();
     const typographyTokens = await this.typographyExtractor.extractTypography();
+    const typeScale = this.typographyExtractor.analyzeTypeScale(typographyTokens);
     const spacingTokens = await this.spacingExtractor.extractSpacing();
+    const spacingConformance = this.spacingExtractor.generateConformanceReport(spacingTokens);
+    const effectTokens = await this.effectExtractor.extractEffects();
+    const variableTokens = await this.variableExtractor.extractVariables();
     
     // Enhanced component extraction
     console.log('Starting enhanced component extraction...');
@@ -62,26 +85,40 @@ export class DesignSystemExtractor {
     console.log(`Component extraction complete: Found ${componentTokens.length} components`);
 
     const organizedColors = this.organizeColors(colorExtractionResult.tokens, resolutionResult.resolved);
+    const namingConflicts = this.applyCodeSyntax((colorExtractionResult.tokens as DesignToken[]).concat(variableTokens));
     
     const result: DesignSystemExtractionResult = {
       colors: {
         ...organizedColors,
         tokens: colorExtractionResult.tokens
       },
+      gradients: gradientTokens,
       typography: typographyTokens,
+      typeScale,
       spacing: spacingTokens,
+      spacingConformance,
+      variables: variableTokens,
+      effects: effectTokens,
       components: componentTokens,
+      namingConflicts,
       resolutionStats: resolutionResult.resolutionStats,
       markdown: this.generateEnhancedMarkdown({
         colors: organizedColors,
         colorTokens: colorExtractionResult.tokens,
+        gradients: gradientTokens,
         typography: typographyTokens,
+        typeScale,
         spacing: spacingTokens,
+        spacingConformance,
+        variables: variableTokens,
+        effects: effectTokens,
         components: componentTokens,
+        namingConflicts,
         resolutionStats: resolutionResult.resolutionStats
       }),
       summary: {
-        totalTokens: colorExtractionResult.tokens.length + typographyTokens.length + spacingTokens.length,
+        totalTokens: colorExtractionResult.tokens.length + gradientTokens.length + typographyTokens.length + spacingTokens.length +
+          variableTokens.length + effectTokens.shadows.length + effectTokens.blurs.length,
         resolvedAliases: resolutionResult.resolutionStats.resolvedAliases,
         unresolvedAliases: resolutionResult.resolutionStats.unresolvedAliases,
         extractionTime: Date.now() - startTime,
@@ -93,6 +130,45 @@ export class DesignSystemExtractor {
     return result;
   }
 
+  /**
+   * Figma code syntax wins over the generated semantic name. Tokens are matched to the
+   * variable they were read from by id, since names repeat across collections and paint
+   * styles never carry code syntax; every WEB name that differs from the heuristic is reported.
+   */
+  private applyCodeSyntax(tokens: DesignToken[]): NamingConflict[] {
+    const conflicts: NamingConflict[] = [];
+    const syntaxById = new Map<string, CodeSyntax>();
+
+    try {
+      for (const variable of figma.variables.getLocalVariables()) {
+        if (Object.keys(variable.codeSyntax).length > 0) {
+          syntaxById.set(variable.id, Object.assign({}, variable.codeSyntax));
+        }
+      }
+    } catch (error) {
+      console.warn('Could not read variable code syntax:', error);
+      return conflicts;
+    }
+
+    for (const token of tokens) {
+      const codeSyntax = token.variableId ? syntaxById.get(token.variableId) : undefined;
+      if (!codeSyntax) continue;
+
+      token.codeSyntax = codeSyntax;
+      const codeSyntaxName = codeSyntaxToName(codeSyntax);
+      const heuristicName = token.semanticName || token.name;
+      if (!codeSyntaxName || codeSyntaxName === heuristicName) continue;
+
+      conflicts.push({ tokenName: token.name, codeSyntaxName, heuristicName });
+      token.semanticName = codeSyntaxName;
+      if (token.usage) {
+        token.usage = token.usage.map(example => example.split(heuristicName).join(codeSyntaxName));
+      }
+    }
+
+    return conflicts;
+  }
+
   private organizeColors(colorTokens: ColorToken[], resolvedData: any): { primitives: Record<string, Record<string, any>>; semantic: Record<string, Record<string, any>> } {
     const primitives: Record<string, Record<string, any>> = {};
     const semantic: Record<string, Record<string, any>> = {};
@@ -126,7 +202,8 @@ export class DesignSystemExtractor {
         hex: token.hex,
         rgb: token.rgb,
         hsl: token.hsl,
-        semanticRole: token.semanticRole
+        semanticRole: token.semanticRole,
+        reference: token.reference
       };
     }
 
@@ -150,9 +227,15 @@ export class DesignSystemExtractor {
   private generateEnhancedMarkdown(data: {
     colors: { primitives: Record<string, Record<string, any>>; semantic: Record<string, Record<string, any>> };
     colorTokens: ColorToken[];
+    gradients: GradientToken[];
     typography: DesignToken[];
+    typeScale: TypeScaleReport;
     spacing: DesignToken[];
+    spacingConformance: SpacingConformanceReport;
+    variables: VariableToken[];
+    effects: { shadows: ShadowToken[]; blurs: BlurToken[] };
     components: AnalyzedComponent[];
+    namingConflicts: NamingConflict[];
     resolutionStats: any;
   }): string {
     let markdown = `# Design System - Enhanced Extraction with Variable Resolution\n\n`;
@@ -166,9 +249,15 @@ export class DesignSystemExtractor {
     markdown += `- **Unresolved Aliases:** ${data.resolutionStats.unresolvedAliases}\n\n`;
 
     markdown += this.generateColorMarkdown(data.colors, data.colorTokens);
+    markdown += this.generateGradientMarkdown(data.gradients);
     markdown += this.generateTypographyMarkdown(data.typography);
+    markdown += this.generateTypeScaleMarkdown(data.typeScale);
     markdown += this.generateSpacingMarkdown(data.spacing);
+    markdown += this.generateSpacingConformanceMarkdown(data.spacingConformance);
+    markdown += this.generateVariableMarkdown(data.variables);
+    markdown += this.generateEffectMarkdown(data.effects.shadows, data.effects.blurs);
     markdown += this.generateComponentMarkdown(data.components);
+    markdown += this.generateNamingConflictMarkdown(data.namingConflicts);
     
     markdown += `## AI Tool Integration\n\n`;
     markdown += `This design system has been optimized for AI development tools:\n\n`;
@@ -237,6 +326,8 @@ export class DesignSystemExtractor {
     
     let md = `## Typography\n\n`;
     md += `Typography tokens extracted from your design system:\n\n`;
+    const scale = detectTypeScale(typography.map(token => (token as any).fontSize));
+    md += `**Type scale:** ${scale.base}px base, ${scale.ratio} ratio\n\n`;
     
     for (const token of typography) {
       md += `### ${token.semanticName || token.name}\n\n`;
@@ -247,6 +338,68 @@ export class DesignSystemExtractor {
       if (token.description) {
         md += `- **Usage**: ${token.description}\n`;
       }
+      const boundVariables = (token as any).boundVariables || {};
+      if (Object.keys(boundVariables).length > 0) {
+        md += `- **Bound Variables**: ${Object.entries(boundVariables).map(([field, variable]) => `${field} → \`${variable}\``).join(', ')}\n`;
+      }
+      for (const [mode, value] of Object.entries((token as any).modes || {}) as Array<[string, any]>) {
+        md += `- **${mode}**: ${value.fontSize}px / ${value.lineHeight}px, weight ${value.fontWeight}\n`;
+      }
+      md += `\n`;
+    }
+    
+    return md;
+  }
+
+  private generateTypeScaleMarkdown(report: TypeScaleReport): string {
+    if (!report.bestFit && report.unmatchedTotal === 0) return '';
+    
+    const maxRows = 50;
+    let md = `## Type Scale Health\n\n`;
+    
+    const fit = report.bestFit;
+    if (fit) {
+      md += `**Best fit:** ${fit.name} (${fit.ratio}) from a ${fit.base}px base, sizes on average ${fit.error} of a step away from the scale.\n\n`;
+      md += `| Scale | Ratio | Mean Offset (steps) |\n`;
+      md += `|-------|-------|---------------------|\n`;
+      for (const candidate of report.fits) {
+        md += `| ${candidate.name} | ${candidate.ratio} | ${candidate.error} |\n`;
+      }
+      md += `\n`;
+      
+      md += `### Residuals on the ${fit.name} Scale\n\n`;
+      md += `| Style | Size | Step | Expected | Residual |\n`;
+      md += `|-------|------|------|----------|----------|\n`;
+      for (const residual of fit.residuals) {
+        md += `| ${residual.style}${residual.outlier ? ' ⚠️' : ''} | ${residual.fontSize}px | ${residual.step} | ${residual.expected}px | ${residual.residual > 0 ? '+' : ''}${residual.residual}px |\n`;
+      }
+      md += `\n`;
+      
+      if (report.outliers.length > 0) {
+        md += `**Outliers** (more than a quarter step off): ${report.outliers.map(outlier => `${outlier.style} (${outlier.fontSize}px, expected ${outlier.expected}px)`).join(', ')}\n\n`;
+      }
+    }
+    
+    if (report.unusedStyles.length > 0) {
+      md += `### Unused Text Styles\n\n`;
+      md += `No text layer in this file uses these styles:\n\n`;
+      for (const style of report.unusedStyles) {
+        md += `- ${style}\n`;
+      }
+      md += `\n`;
+    }
+    
+    if (report.unmatchedTotal > 0) {
+      md += `### Text Matching No Style\n\n`;
+      md += `Unstyled text layers with a font, weight and size combination no text style has: ${report.unmatchedTotal}\n\n`;
+      md += `| Layer | Page | Component | Font | Size | Nearest Style |\n`;
+      md += `|-------|------|-----------|------|------|---------------|\n`;
+      for (const node of report.unmatchedNodes.slice(0, maxRows)) {
+        md += `| ${node.path} | ${node.page} | ${node.component || '-'} | ${node.fontFamily} ${node.fontStyle} | ${node.fontSize}px | ${node.nearestStyle || '-'} |\n`;
+      }
+      if (report.unmatchedTotal > maxRows) {
+        md += `\n${report.unmatchedTotal - maxRows} more not listed.\n`;
+      }
       md += `\n`;
     }
     
@@ -267,6 +420,138 @@ export class DesignSystemExtractor {
     return md;
   }
 
+  private generateSpacingConformanceMarkdown(report: SpacingConformanceReport): string {
+    if (report.total === 0) return '';
+    
+    const offGrid = report.measurements.filter(measurement => !measurement.onGrid);
+    const maxComponents = 20;
+    const maxRows = 50;
+    
+    let md = `## Spacing Grid Conformance\n\n`;
+    md += `Auto layout padding and gaps, and the margins of hand-placed layers, checked against the ${report.baseUnit}px grid. `;
+    md += `Half steps of the scale count as on grid.\n\n`;
+    md += `- **Scale:** ${report.scale.join(', ')}px\n`;
+    md += `- **On Grid:** ${report.onGrid} of ${report.total} values (${report.score}%)\n\n`;
+    
+    md += `### By Page\n\n`;
+    md += `| Page | Values | On Grid | Score |\n`;
+    md += `|------|--------|---------|-------|\n`;
+    for (const page of report.byPage) {
+      md += `| ${page.name} | ${page.total} | ${page.onGrid} | ${page.score}% |\n`;
+    }
+    md += `\n`;
+    
+    if (report.byComponent.length > 0) {
+      md += `### By Component\n\n`;
+      md += `| Component | Values | On Grid | Score |\n`;
+      md += `|-----------|--------|---------|-------|\n`;
+      for (const component of report.byComponent.slice(0, maxComponents)) {
+        md += `| ${component.name} | ${component.total} | ${component.onGrid} | ${component.score}% |\n`;
+      }
+      if (report.byComponent.length > maxComponents) {
+        md += `\n${report.byComponent.length - maxComponents} more components, all scoring at least ${report.byComponent[maxComponents - 1].score}%.\n`;
+      }
+      md += `\n`;
+    }
+    
+    if (offGrid.length > 0) {
+      md += `### Off-Grid Values\n\n`;
+      md += `| Layer | Page | Component | Property | Value | Snap To |\n`;
+      md += `|-------|------|-----------|----------|-------|---------|\n`;
+      for (const measurement of offGrid.slice(0, maxRows)) {
+        md += `| ${measurement.path} | ${measurement.page} | ${measurement.component || '-'} | ${measurement.property} | ${measurement.value}px | ${measurement.snapTo}px |\n`;
+      }
+      if (offGrid.length > maxRows) {
+        md += `\n${offGrid.length - maxRows} more off-grid values in the extraction result.\n`;
+      }
+      if (report.truncated) {
+        md += `\nOnly the first ${report.measurements.length} of ${report.total} values are listed; the scores cover all of them.\n`;
+      }
+      md += `\n`;
+    }
+    
+    return md;
+  }
+
+  private generateVariableMarkdown(variables: VariableToken[]): string {
+    if (variables.length === 0) return '';
+    
+    let md = `## Number, String & Boolean Variables\n\n`;
+    
+    const byCategory = variables.reduce((acc, token) => {
+      if (!acc[token.category]) acc[token.category] = [];
+      acc[token.category].push(token);
+      return acc;
+    }, {} as Record<string, VariableToken[]>);
+    
+    for (const [category, tokens] of Object.entries(byCategory)) {
+      md += `### ${category === 'flag' ? 'Feature Flags' : this.formatCategoryName(category)}\n\n`;
+      for (const token of tokens) {
+        const value = `${token.value}${token.unit || ''}`;
+        const property = token.typographyProperty ? ` (${token.typographyProperty})` : '';
+        const reference = token.reference ? ` → \`${token.reference}\`` : '';
+        md += `- **${token.name}**${property}: ${value}${reference}\n`;
+      }
+      md += `\n`;
+    }
+    
+    return md;
+  }
+
+  private generateNamingConflictMarkdown(conflicts: NamingConflict[]): string {
+    if (conflicts.length === 0) return '';
+    
+    let md = `## Code Syntax Naming Conflicts\n\n`;
+    md += `These variables have a WEB code syntax in Figma that differs from the generated name. The code syntax is used in every output.\n\n`;
+    md += `| Variable | Code Syntax | Generated Name |\n`;
+    md += `|----------|-------------|----------------|\n`;
+    for (const conflict of conflicts) {
+      md += `| ${conflict.tokenName} | \`${conflict.codeSyntaxName}\` | \`${conflict.heuristicName}\` |\n`;
+    }
+    md += `\n`;
+    
+    return md;
+  }
+
+  private generateGradientMarkdown(gradients: GradientToken[]): string {
+    if (gradients.length === 0) return '';
+    
+    let md = `## Gradients\n\n`;
+    
+    for (const token of gradients) {
+      md += `- **${token.name}** (${token.gradientType}): \`background-image: ${token.value};\`\n`;
+    }
+    md += `\n`;
+    
+    return md;
+  }
+
+  private generateEffectMarkdown(shadows: ShadowToken[], blurs: BlurToken[]): string {
+    if (shadows.length === 0 && blurs.length === 0) return '';
+    
+    let md = `## Shadows & Blurs\n\n`;
+    
+    for (const token of shadows) {
+      md += `### ${token.name}\n`;
+      md += `- **CSS**: \`box-shadow: ${token.value};\`\n`;
+      md += `- **Layers**: ${token.layers.length}\n`;
+      const blended = token.layers.filter(layer => layer.blendMode !== 'NORMAL');
+      if (blended.length > 0) {
+        md += `- **Blend Modes**: ${blended.map(layer => layer.blendMode).join(', ')} (not expressible in box-shadow)\n`;
+      }
+      md += `\n`;
+    }
+    
+    for (const token of blurs) {
+      md += `- **${token.name}** (${token.blurType} blur): ${token.value}px\n`;
+    }
+    if (blurs.length > 0) {
+      md += `\n`;
+    }
+    
+    return md;
+  }
+
   private generateComponentMarkdown(components: AnalyzedComponent[]): string {
     if (components.length === 0) return '';
     
@@ -309,6 +594,17 @@ export class DesignSystemExtractor {
           md += `\n`;
         }
         
+        // Layer structure
+        const structures = component.variants.filter(variant => variant.structure);
+        if (structures.length > 0) {
+          md += `**Structure:** ${outlineNodeTree(structures[0].structure!)}\n\n`;
+          const trees = structures.reduce((acc, variant) => {
+            acc[variant.name] = variant.structure!;
+            return acc;
+          }, {} as Record<string, NodeSnapshot>);
+          md += `\`\`\`json\n${formatNodeTrees(trees)}\n\`\`\`\n\n`;
+        }
+        
         // Usage examples
         if (component.usage.length > 0) {
           md += `**Usage Examples:**\n`;
@@ -328,6 +624,12 @@ export class DesignSystemExtractor {
           md += `\`\`\`\n\n`;
         }
         
+        // Auto layout
+        if (component.layout) {
+          md += `**Layout:** ${describeLayout(component.layout)}\n\n`;
+          md += `\`\`\`css\n${formatLayoutCSS(toLayoutRules(component.layout, toClassSegment(component.name)))}\n\`\`\`\n\n`;
+        }
+        
         // Props
         if (component.props.length > 0) {
           md += `**Props:**\n\n`;
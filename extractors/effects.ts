@@ -0,0 +1,87 @@
+import { ShadowToken, BlurToken, ShadowLayer } from '../types';
+import { toShadowLayers, formatBoxShadow } from '../utils/naming';
+
+export class EffectExtractor {
+  private elevationNames = ['elevation', 'shadow', 'depth', 'level', 'raised', 'overlay', 'modal', 'dropdown', 'card'];
+
+  async extractEffects(): Promise<{ shadows: ShadowToken[]; blurs: BlurToken[] }> {
+    const effectStyles = figma.getLocalEffectStyles();
+    const shadows: ShadowToken[] = [];
+    const blurs: BlurToken[] = [];
+
+    for (const style of effectStyles) {
+      const shadow = this.createShadowToken(style);
+      if (shadow) {
+        shadows.push(shadow);
+      }
+      blurs.push(...this.createBlurTokens(style));
+    }
+
+    return { shadows, blurs };
+  }
+
+  private createShadowToken(style: EffectStyle): ShadowToken | null {
+    const layers = toShadowLayers(style.effects);
+    if (layers.length === 0) return null;
+
+    const semanticName = this.generateSemanticEffectName(style.name, 'shadow');
+
+    return {
+      name: style.name,
+      value: formatBoxShadow(layers),
+      type: 'shadow',
+      layers,
+      semanticName,
+      category: this.isElevation(style.name) ? 'elevation' : 'shadow',
+      description: style.description || this.generateShadowDescription(layers),
+      usage: [`box-shadow: var(--${semanticName})`]
+    };
+  }
+
+  private createBlurTokens(style: EffectStyle): BlurToken[] {
+    return style.effects
+      .filter(effect => effect.visible !== false && (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR'))
+      .map(effect => {
+        const blurType = effect.type === 'BACKGROUND_BLUR' ? 'background' : 'layer';
+        const semanticName = this.generateSemanticEffectName(style.name, blurType === 'background' ? 'backdrop-blur' : 'blur');
+        const radius = (effect as BlurEffect).radius || 0;
+
+        return {
+          name: style.name,
+          value: radius,
+          type: 'blur' as const,
+          blurType,
+          semanticName,
+          description: style.description || `${blurType === 'background' ? 'Background' : 'Layer'} blur of ${radius}px`,
+          usage: [blurType === 'background' ? `backdrop-filter: blur(${radius}px)` : `filter: blur(${radius}px)`]
+        };
+      });
+  }
+
+  private generateSemanticEffectName(name: string, prefix: string): string {
+    const segments = name.toLowerCase()
+      .split('/')
+      .map(segment => segment.trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+      .filter(segment => segment.length > 0);
+
+    // 'Shadow/Elevation 2' -> 'shadow-elevation-2', not 'shadow-shadow-elevation-2'
+    if (segments.length > 1 && segments[0] === prefix) {
+      segments.shift();
+    }
+    return [prefix].concat(segments).join('-');
+  }
+
+  private isElevation(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    return this.elevationNames.some(keyword => lowerName.includes(keyword));
+  }
+
+  private generateShadowDescription(layers: ShadowLayer[]): string {
+    const insetCount = layers.filter(layer => layer.inset).length;
+    const kinds = insetCount === 0 ? 'drop shadow' : insetCount === layers.length ? 'inner shadow' : 'drop and inner shadow';
+    const largest = Math.max(...layers.map(layer => layer.blur));
+    return layers.length > 1
+      ? `Layered ${kinds} (${layers.length} layers, up to ${largest}px blur)`
+      : `Single ${kinds} with ${largest}px blur`;
+  }
+}
@@ -1,4 +1,8 @@
-import { SpacingToken } from '../types';
+import { SpacingToken, SpacingConformanceReport, SpacingConformanceScore, SpacingMeasurement, SpacingContext } from '../types';
+import { getNodePath, getContainingComponent } from '../utils/hardcoded-values';
+
+// Scores keep counting past this; only the listed measurements stop
+const MAX_SPACING_MEASUREMENTS = 5000;
 
 export class SpacingExtractor {
   private semanticSpacingMap: Record<string, string> = {
@@ -285,6 +289,137 @@ export class SpacingExtractor {
     };
   }
 
+  /**
+   * Measures auto layout padding and gaps, and the margins of freely positioned layers, against
+   * the grid detected from the extracted tokens. A value is on grid when it is a multiple of the
+   * base unit or a step of the suggested scale; anything else gets the nearest step to snap to.
+   * Instance internals belong to their main component and are not measured twice.
+   */
+  generateConformanceReport(tokens: SpacingToken[]): SpacingConformanceReport {
+    const baseUnit = this.detectBaseUnit(tokens.map(t => t.value as number));
+    const scale = this.generateSpacingScale(tokens).scale;
+    const measurements: SpacingMeasurement[] = [];
+    const pageScores = new Map<string, SpacingConformanceScore>();
+    const componentScores = new Map<string, SpacingConformanceScore>();
+    let total = 0;
+    let onGridTotal = 0;
+
+    for (const page of figma.root.children) {
+      const stack: SceneNode[] = page.children.slice();
+
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (!node.visible) continue;
+        if (node.type !== 'INSTANCE' && 'children' in node) {
+          stack.push(...node.children);
+        }
+
+        const component = getContainingComponent(node);
+        for (const [property, context, value] of this.readNodeSpacing(node)) {
+          const onGrid = this.isOnGrid(value, baseUnit, scale);
+          total++;
+          if (onGrid) onGridTotal++;
+          this.countConformance(pageScores, page.name, onGrid);
+          if (component) this.countConformance(componentScores, component.name, onGrid);
+
+          if (measurements.length < MAX_SPACING_MEASUREMENTS) {
+            measurements.push({
+              nodeId: node.id,
+              nodeName: node.name,
+              path: getNodePath(node),
+              page: page.name,
+              component: component ? component.name : undefined,
+              property,
+              context,
+              value,
+              onGrid,
+              snapTo: onGrid ? undefined : this.snapToScale(value, baseUnit, scale)
+            });
+          }
+        }
+      }
+    }
+
+    const byScore = (a: SpacingConformanceScore, b: SpacingConformanceScore) => a.score - b.score || b.total - a.total;
+    return {
+      baseUnit,
+      scale,
+      total,
+      onGrid: onGridTotal,
+      score: this.toScore(onGridTotal, total),
+      truncated: total > measurements.length,
+      byPage: Array.from(pageScores.values()).sort(byScore),
+      byComponent: Array.from(componentScores.values()).sort(byScore),
+      measurements
+    };
+  }
+
+  private readNodeSpacing(node: SceneNode): Array<[string, SpacingContext, number]> {
+    const values: Array<[string, SpacingContext, number]> = [];
+
+    if ('layoutMode' in node && node.layoutMode !== 'NONE') {
+      values.push(
+        ['paddingTop', 'padding', node.paddingTop],
+        ['paddingRight', 'padding', node.paddingRight],
+        ['paddingBottom', 'padding', node.paddingBottom],
+        ['paddingLeft', 'padding', node.paddingLeft]
+      );
+      if (node.layoutMode === 'GRID') {
+        values.push(['gridRowGap', 'gap', node.gridRowGap], ['gridColumnGap', 'gap', node.gridColumnGap]);
+      } else if (node.children.length > 1 && node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+        values.push(['itemSpacing', 'gap', node.itemSpacing]);
+      }
+      if (node.layoutMode !== 'GRID' && node.layoutWrap === 'WRAP' && node.counterAxisSpacing !== null) {
+        values.push(['counterAxisSpacing', 'gap', node.counterAxisSpacing]);
+      }
+    }
+
+    // Only layers the designer placed by hand have margins; auto layout positions the rest
+    const parent = node.parent;
+    const placedByHand = parent && (parent.type === 'FRAME' || parent.type === 'COMPONENT') &&
+      (parent.layoutMode === 'NONE' || ('layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE'));
+    if (placedByHand && (!('rotation' in node) || node.rotation === 0)) {
+      const frame = parent as FrameNode | ComponentNode;
+      const margins: Array<[string, number]> = [
+        ['marginTop', node.y],
+        ['marginRight', frame.width - node.x - node.width],
+        ['marginBottom', frame.height - node.y - node.height],
+        ['marginLeft', node.x]
+      ];
+      for (const [property, margin] of margins) {
+        // Same range the token extraction treats as spacing rather than placement
+        if (margin > 0 && margin < 200) values.push([property, 'margin', margin]);
+      }
+    }
+
+    return values
+      .filter(([, , value]) => typeof value === 'number' && value >= 0)
+      .map(([property, context, value]): [string, SpacingContext, number] => [property, context, Math.round(value * 100) / 100]);
+  }
+
+  private isOnGrid(value: number, baseUnit: number, scale: number[]): boolean {
+    const units = value / baseUnit;
+    return Math.abs(units - Math.round(units)) < 0.01 || scale.includes(value);
+  }
+
+  private snapToScale(value: number, baseUnit: number, scale: number[]): number {
+    const largest = scale[scale.length - 1];
+    if (value > largest) return Math.round(value / baseUnit) * baseUnit;
+    return scale.reduce((nearest, step) => Math.abs(step - value) < Math.abs(nearest - value) ? step : nearest, scale[0]);
+  }
+
+  private countConformance(scores: Map<string, SpacingConformanceScore>, name: string, onGrid: boolean): void {
+    const entry = scores.get(name) || { name, total: 0, onGrid: 0, score: 100 };
+    entry.total++;
+    if (onGrid) entry.onGrid++;
+    entry.score = this.toScore(entry.onGrid, entry.total);
+    scores.set(name, entry);
+  }
+
+  private toScore(onGrid: number, total: number): number {
+    return total === 0 ? 100 : Math.round(onGrid / total * 1000) / 10;
+  }
+
   private detectBaseUnit(values: number[]): number {
     // Check for common base units (4px, 8px)
     const potentialBases = [4, 8];
@@ -1,5 +1,19 @@
-import { TypographyToken } from '../types';
-import { generateSemanticName } from '../utils/naming';
+import { TypographyToken, TypographyModeValue, TypographyProperty, TypeScaleReport, ModularScaleFit, TypeScaleResidual, UnmatchedTextNode } from '../types';
+import { generateSemanticName, detectTypeScale, generateTypescaleRatio } from '../utils/naming';
+import { getNodePath, getContainingComponent } from '../utils/hardcoded-values';
+
+const MODULAR_RATIOS: Array<{ name: string; ratio: number }> = [
+  { name: 'Major Second', ratio: 1.125 },
+  { name: 'Minor Third', ratio: 1.2 },
+  { name: 'Major Third', ratio: 1.25 },
+  { name: 'Perfect Fourth', ratio: 1.333 },
+  { name: 'Perfect Fifth', ratio: 1.5 },
+  { name: 'Golden Ratio', ratio: 1.618 }
+];
+
+// A size more than a quarter step from its nearest step reads as off the scale
+const OUTLIER_OFFSET = 0.25;
+const MAX_UNMATCHED_TEXT_NODES = 500;
 
 export class TypographyExtractor {
   private semanticTypeMap: Record<string, string> = {
@@ -37,6 +51,8 @@ export class TypographyExtractor {
     'blockquote': 'quote'
   };
 
+  private maxAliasDepth = 10;
+
   async extractTypography(): Promise<TypographyToken[]> {
     const textStyles = figma.getLocalTextStyles();
     const typographyTokens: TypographyToken[] = [];
@@ -50,32 +66,120 @@ export class TypographyExtractor {
   }
 
   private createTypographyToken(style: TextStyle): TypographyToken {
+    const bindings = this.getBoundVariables(style);
+    const modeCollection = this.findModeCollection(bindings);
+    const values = this.resolveStyleValues(style, bindings, modeCollection ? modeCollection.defaultModeId : undefined);
+    
     const semanticName = this.generateSemanticTypographyName(style.name);
-    const semanticLevel = this.determineSemanticLevel(style.name, style.fontSize);
+    const semanticLevel = this.determineSemanticLevel(style.name, values.fontSize);
     
-    return {
+    const token: TypographyToken = {
       name: style.name,
-      value: this.generateTypographyValue(style),
+      value: this.generateTypographyValue(values),
       type: 'typography',
-      fontFamily: style.fontName.family,
-      fontSize: style.fontSize,
-      fontWeight: this.mapFontWeight(style.fontName.style),
-      lineHeight: this.calculateLineHeight(style),
-      letterSpacing: style.letterSpacing ? style.letterSpacing.value : 0,
+      fontFamily: values.fontFamily,
+      fontSize: values.fontSize,
+      fontWeight: values.fontWeight,
+      lineHeight: values.lineHeight,
+      letterSpacing: values.letterSpacing,
       textTransform: this.getTextTransform(style),
       semanticName,
       semanticLevel,
       description: style.description || this.generateTypographyDescription(semanticLevel, style),
       usage: this.generateTypographyUsage(semanticLevel, semanticName)
     };
+    
+    const boundProperties = Object.keys(bindings) as TypographyProperty[];
+    if (boundProperties.length > 0) {
+      token.boundVariables = {};
+      for (const property of boundProperties) {
+        token.boundVariables[property] = bindings[property]!.name.split('/').join('.');
+      }
+    }
+    
+    // A type ramp bound to a multi-mode collection (e.g. Mobile / Desktop) gets one value set per mode
+    if (modeCollection) {
+      token.modes = {};
+      for (const mode of modeCollection.modes) {
+        token.modes[mode.name] = this.resolveStyleValues(style, bindings, mode.modeId);
+      }
+      token.defaultMode = modeCollection.modes.find(mode => mode.modeId === modeCollection.defaultModeId)?.name;
+    }
+    
+    return token;
+  }
+
+  private generateTypographyValue(values: TypographyModeValue): string {
+    return `${values.fontSize}px/${values.lineHeight} "${values.fontFamily}", ${values.fontWeight}, ${values.letterSpacing}px`;
+  }
+
+  private getBoundVariables(style: TextStyle): Partial<Record<TypographyProperty, Variable>> {
+    const bindings: Partial<Record<TypographyProperty, Variable>> = {};
+    const boundVariables = style.boundVariables || {};
+    
+    for (const field of Object.keys(boundVariables) as Array<keyof typeof boundVariables>) {
+      const alias = boundVariables[field];
+      const variable = alias ? figma.variables.getVariableById(alias.id) : null;
+      if (variable && field !== 'paragraphIndent') {
+        bindings[field] = variable;
+      }
+    }
+    
+    return bindings;
+  }
+
+  private findModeCollection(bindings: Partial<Record<TypographyProperty, Variable>>): VariableCollection | null {
+    for (const variable of Object.values(bindings)) {
+      const collection = variable ? figma.variables.getVariableCollectionById(variable.variableCollectionId) : null;
+      if (collection && collection.modes.length > 1) {
+        return collection;
+      }
+    }
+    return null;
+  }
+
+  // Bound fields win over the literal style values, which only reflect the mode Figma last rendered
+  private resolveStyleValues(style: TextStyle, bindings: Partial<Record<TypographyProperty, Variable>>, modeId?: string): TypographyModeValue {
+    const read = (property: TypographyProperty) => {
+      const variable = bindings[property];
+      return variable ? this.resolveVariableValue(variable, modeId, 0) : null;
+    };
+    
+    const fontSize = read('fontSize');
+    const fontFamily = read('fontFamily');
+    const fontWeight = read('fontWeight');
+    const fontStyle = read('fontStyle');
+    const lineHeight = read('lineHeight');
+    const letterSpacing = read('letterSpacing');
+    const size = typeof fontSize === 'number' ? fontSize : style.fontSize;
+    
+    return {
+      fontFamily: typeof fontFamily === 'string' ? fontFamily : style.fontName.family,
+      fontSize: size,
+      fontWeight: typeof fontWeight === 'number'
+        ? fontWeight
+        : this.mapFontWeight(typeof fontStyle === 'string' ? fontStyle : style.fontName.style),
+      lineHeight: typeof lineHeight === 'number' ? lineHeight : this.calculateLineHeight(style, size),
+      letterSpacing: typeof letterSpacing === 'number' ? letterSpacing : (style.letterSpacing ? style.letterSpacing.value : 0)
+    };
   }
 
-  private generateTypographyValue(style: TextStyle): string {
-    const fontWeight = this.mapFontWeight(style.fontName.style);
-    const lineHeight = this.calculateLineHeight(style);
-    const letterSpacing = style.letterSpacing ? style.letterSpacing.value : 0;
+  // Aliases keep the requested mode when the target collection has it, otherwise fall back to its default
+  private resolveVariableValue(variable: Variable, modeId: string | undefined, depth: number): VariableValue | null {
+    if (depth > this.maxAliasDepth) return null;
+    
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    if (!collection) return null;
     
-    return `${style.fontSize}px/${lineHeight} "${style.fontName.family}", ${fontWeight}, ${letterSpacing}px`;
+    const value = modeId && variable.valuesByMode[modeId] !== undefined
+      ? variable.valuesByMode[modeId]
+      : variable.valuesByMode[collection.defaultModeId];
+    
+    if (value && typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+      const target = figma.variables.getVariableById(value.id);
+      return target ? this.resolveVariableValue(target, modeId, depth + 1) : null;
+    }
+    return value === undefined ? null : value;
   }
 
   private generateSemanticTypographyName(originalName: string): string {
@@ -150,14 +254,14 @@ export class TypographyExtractor {
     return weightMap[fontStyle] || 400;
   }
 
-  private calculateLineHeight(style: TextStyle): number {
+  private calculateLineHeight(style: TextStyle, fontSize: number = style.fontSize): number {
     if (style.lineHeight && style.lineHeight.unit === 'PIXELS') {
       return style.lineHeight.value;
     } else if (style.lineHeight && style.lineHeight.unit === 'PERCENT') {
-      return (style.fontSize * style.lineHeight.value) / 100;
+      return (fontSize * style.lineHeight.value) / 100;
     } else {
       // Default line height calculation
-      return Math.round(style.fontSize * 1.4);
+      return Math.round(fontSize * 1.4);
     }
   }
 
@@ -238,6 +342,152 @@ export class TypographyExtractor {
     return usageMap[level!] || [`Use for ${semanticName} text elements`];
   }
 
+  /**
+   * Fits the style font sizes to each candidate ratio, stepping from the size nearest 16px, and
+   * ranks the fits by how far sizes sit from their nearest step. Offsets are measured in steps
+   * rather than px so a coarse ratio isn't penalised just for having wider steps.
+   * Every text layer is also read to find styles nothing uses and unstyled text that no style matches.
+   */
+  analyzeTypeScale(tokens: TypographyToken[]): TypeScaleReport {
+    const sized = this.sortTypographyByHierarchy(tokens.filter(token => token.fontSize > 0));
+    const base = detectTypeScale(sized.map(token => token.fontSize)).base;
+    const fits = sized.length === 0 ? [] : MODULAR_RATIOS
+      .map(candidate => this.fitModularScale(sized, candidate.name, candidate.ratio, base))
+      .sort((a, b) => a.error - b.error);
+    const bestFit = fits.length > 0 ? fits[0] : null;
+    const usage = this.auditTextStyleUsage(tokens);
+
+    return {
+      bestFit,
+      fits,
+      outliers: bestFit ? bestFit.residuals.filter(residual => residual.outlier) : [],
+      unusedStyles: usage.unusedStyles,
+      unmatchedTotal: usage.unmatchedTotal,
+      unmatchedNodes: usage.unmatchedNodes
+    };
+  }
+
+  private fitModularScale(tokens: TypographyToken[], name: string, ratio: number, base: number): ModularScaleFit {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const residuals: TypeScaleResidual[] = tokens.map(token => {
+      const exactStep = Math.log(token.fontSize / base) / Math.log(ratio);
+      const step = Math.round(exactStep);
+      const expected = base * generateTypescaleRatio([step], ratio)[0];
+      return {
+        style: token.name,
+        fontSize: token.fontSize,
+        step,
+        expected: round(expected),
+        residual: round(token.fontSize - expected),
+        offset: round(exactStep - step),
+        outlier: Math.abs(exactStep - step) > OUTLIER_OFFSET
+      };
+    });
+
+    // Styles sharing a size are one point on the scale; distinct sizes sharing a step are a scale too coarse
+    const offsetsByStep = new Map<number, Map<number, number>>();
+    for (const residual of residuals) {
+      const sizes = offsetsByStep.get(residual.step) || new Map<number, number>();
+      sizes.set(residual.fontSize, Math.abs(residual.offset));
+      offsetsByStep.set(residual.step, sizes);
+    }
+    let total = 0;
+    let count = 0;
+    for (const sizes of Array.from(offsetsByStep.values())) {
+      const offsets = Array.from(sizes.values()).sort((a, b) => a - b);
+      total += offsets[0] + (offsets.length - 1) * 0.5;
+      count += offsets.length;
+    }
+
+    return { name, ratio, base, error: Math.round(total / count * 1000) / 1000, residuals };
+  }
+
+  private auditTextStyleUsage(tokens: TypographyToken[]): { unusedStyles: string[]; unmatchedTotal: number; unmatchedNodes: UnmatchedTextNode[] } {
+    const styles = figma.getLocalTextStyles();
+    const usedStyleIds = new Set<string>();
+    const unmatchedNodes: UnmatchedTextNode[] = [];
+    let unmatchedTotal = 0;
+
+    // Per-mode sizes count too: text set at the mobile size of a responsive style still matches it
+    const styleSettings = new Set<string>();
+    for (const token of tokens) {
+      styleSettings.add(this.fontSettingsKey(token.fontFamily, token.fontWeight, token.fontSize));
+      for (const mode of Object.values(token.modes || {})) {
+        styleSettings.add(this.fontSettingsKey(mode.fontFamily, mode.fontWeight, mode.fontSize));
+      }
+    }
+
+    for (const page of figma.root.children) {
+      // Instance text belongs to its main component, so it only counts towards style usage
+      const stack: Array<{ node: SceneNode; reportable: boolean }> = page.children.map(node => ({ node, reportable: node.visible }));
+
+      while (stack.length > 0) {
+        const { node, reportable } = stack.pop()!;
+        if ('children' in node) {
+          const childrenReportable = reportable && node.type !== 'INSTANCE';
+          stack.push(...node.children.map(child => ({ node: child, reportable: childrenReportable && child.visible })));
+        }
+        if (node.type !== 'TEXT') continue;
+
+        let unmatched: StyledTextSegment | null = null;
+        for (const segment of node.getStyledTextSegments(['textStyleId', 'fontName', 'fontSize'])) {
+          if (segment.textStyleId) {
+            usedStyleIds.add(segment.textStyleId);
+          } else if (!unmatched && !styleSettings.has(this.fontSettingsKey(segment.fontName.family, this.mapFontWeight(segment.fontName.style), segment.fontSize))) {
+            unmatched = segment as StyledTextSegment;
+          }
+        }
+        if (!unmatched || !reportable) continue;
+
+        unmatchedTotal++;
+        if (unmatchedNodes.length < MAX_UNMATCHED_TEXT_NODES) {
+          const component = getContainingComponent(node);
+          const nearest = this.findNearestTypography(tokens, unmatched.fontName, unmatched.fontSize);
+          unmatchedNodes.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            path: getNodePath(node),
+            page: page.name,
+            component: component ? component.name : undefined,
+            fontFamily: unmatched.fontName.family,
+            fontStyle: unmatched.fontName.style,
+            fontSize: unmatched.fontSize,
+            nearestStyle: nearest ? nearest.name : undefined
+          });
+        }
+      }
+    }
+
+    return {
+      unusedStyles: styles.filter(style => !usedStyleIds.has(style.id)).map(style => style.name),
+      unmatchedTotal,
+      unmatchedNodes
+    };
+  }
+
+  private fontSettingsKey(family: string, weight: number, size: number): string {
+    return `${family}::${weight}::${Math.round(size * 100) / 100}`;
+  }
+
+  // Closest size wins; a different family costs 1px and a different weight half that
+  private findNearestTypography(tokens: TypographyToken[], fontName: FontName, fontSize: number): TypographyToken | undefined {
+    const weight = this.mapFontWeight(fontName.style);
+    let nearest: TypographyToken | undefined;
+    let nearestScore = Infinity;
+
+    for (const token of tokens) {
+      const score = Math.abs(token.fontSize - fontSize) +
+        (token.fontFamily === fontName.family ? 0 : 1) +
+        (token.fontWeight === weight ? 0 : 0.5);
+      if (score < nearestScore) {
+        nearest = token;
+        nearestScore = score;
+      }
+    }
+
+    return nearest;
+  }
+
   private sortTypographyByHierarchy(typography: TypographyToken[]): TypographyToken[] {
     const hierarchy: Record<string, number> = {
       'heading-xl': 1,
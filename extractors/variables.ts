@@ -0,0 +1,138 @@
+import { VariableToken } from '../types';
+import { classifyVariable } from '../utils/variable-resolver';
+
+export class VariableExtractor {
+  private maxAliasDepth = 10;
+
+  async extractVariables(): Promise<VariableToken[]> {
+    const variableTokens: VariableToken[] = [];
+
+    let variables: Variable[] = [];
+    try {
+      variables = figma.variables.getLocalVariables().filter(variable => variable.resolvedType !== 'COLOR');
+    } catch (error) {
+      console.warn('Could not access Figma variables API:', error);
+      return variableTokens;
+    }
+
+    for (const variable of variables) {
+      const token = this.createVariableToken(variable);
+      if (token) {
+        variableTokens.push(token);
+      }
+    }
+
+    return this.sortVariablesByCategory(variableTokens);
+  }
+
+  private createVariableToken(variable: Variable): VariableToken | null {
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    if (!collection) return null;
+
+    const classification = classifyVariable(variable.resolvedType, variable.scopes, variable.name);
+    const rawDefault = variable.valuesByMode[collection.defaultModeId];
+    const value = this.resolveValue(rawDefault, 0);
+    if (value === null) return null;
+
+    const token: VariableToken = {
+      name: variable.name,
+      variableId: variable.id,
+      value: this.normalizeValue(value, classification.category),
+      type: 'variable',
+      resolvedType: variable.resolvedType as VariableToken['resolvedType'],
+      category: classification.category,
+      typographyProperty: classification.typographyProperty,
+      unit: classification.unit,
+      scopes: variable.scopes.slice(),
+      semanticName: this.generateSemanticVariableName(variable.name),
+      description: variable.description || this.generateVariableDescription(classification.category, classification.typographyProperty)
+    };
+
+    const reference = this.getAliasReference(rawDefault);
+    if (reference) {
+      token.reference = reference;
+    }
+
+    // Only multi-mode collections get a mode map; single-mode values are fully described by `value`
+    if (collection.modes.length > 1) {
+      const modes: Record<string, number | string | boolean> = {};
+      for (const mode of collection.modes) {
+        const modeValue = this.resolveValue(variable.valuesByMode[mode.modeId], 0);
+        if (modeValue !== null) {
+          modes[mode.name] = this.normalizeValue(modeValue, classification.category);
+        }
+      }
+      token.modes = modes;
+      token.defaultMode = collection.modes.find(mode => mode.modeId === collection.defaultModeId)?.name;
+    }
+
+    return token;
+  }
+
+  private resolveValue(value: VariableValue | undefined, depth: number): number | string | boolean | null {
+    if (value === undefined || depth > this.maxAliasDepth) return null;
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+
+    if (typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+      const target = figma.variables.getVariableById(value.id);
+      if (!target) return null;
+
+      const collection = figma.variables.getVariableCollectionById(target.variableCollectionId);
+      return collection ? this.resolveValue(target.valuesByMode[collection.defaultModeId], depth + 1) : null;
+    }
+    return null;
+  }
+
+  // 'spacing/md' aliasing 'space/4' -> 'space.4', matching the color alias reference format
+  private getAliasReference(value: VariableValue | undefined): string | null {
+    if (!value || typeof value !== 'object' || !('type' in value) || value.type !== 'VARIABLE_ALIAS') return null;
+
+    const target = figma.variables.getVariableById(value.id);
+    return target ? target.name.split('/').join('.') : null;
+  }
+
+  // Figma stores opacity variables as 0-100; CSS and token formats expect 0-1
+  private normalizeValue(value: number | string | boolean, category: VariableToken['category']): number | string | boolean {
+    if (category === 'opacity' && typeof value === 'number' && value > 1) {
+      return Math.round(value * 10) / 1000;
+    }
+    return value;
+  }
+
+  private generateSemanticVariableName(name: string): string {
+    return name.toLowerCase()
+      .split('/')
+      .map(segment => segment.trim().replace(/[^a-z0-9.]+/g, '-').replace(/\./g, '_').replace(/^-|-$/g, ''))
+      .filter(segment => segment.length > 0)
+      .join('-');
+  }
+
+  private generateVariableDescription(category: VariableToken['category'], typographyProperty?: string): string {
+    const descriptions: Record<string, string> = {
+      'spacing': 'Spacing value for gaps, padding and margins',
+      'sizing': 'Fixed width or height',
+      'radius': 'Corner radius',
+      'border-width': 'Stroke width',
+      'opacity': 'Layer opacity',
+      'flag': 'Feature flag - toggles a variant or behaviour',
+      'number': 'Numeric design value',
+      'string': 'Text content value'
+    };
+
+    if (category === 'typography') {
+      return `Typography ${typographyProperty || 'value'}`;
+    }
+    return descriptions[category];
+  }
+
+  private sortVariablesByCategory(tokens: VariableToken[]): VariableToken[] {
+    const order = ['spacing', 'sizing', 'radius', 'border-width', 'opacity', 'typography', 'number', 'string', 'flag'];
+
+    return tokens.sort((a, b) => {
+      const categoryDifference = order.indexOf(a.category) - order.indexOf(b.category);
+      if (categoryDifference !== 0) return categoryDifference;
+      if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+      return a.name.localeCompare(b.name);
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { DesignToken, NamingStrategy, SemanticMapping } from '../types';
+import { codeSyntaxToName } from '../utils/naming';
 
 export class AIFriendlyNamingFormatter {
   private aiToolPatterns = {
@@ -54,6 +55,12 @@ export class AIFriendlyNamingFormatter {
     token: DesignToken, 
     pattern: typeof this.aiToolPatterns[keyof typeof this.aiToolPatterns]
   ): DesignToken {
+    // Names agreed on in Figma's code syntax are kept as-is for every tool
+    const codeSyntaxName = codeSyntaxToName(token.codeSyntax);
+    if (codeSyntaxName) {
+      return Object.assign({}, token, { name: codeSyntaxName, semanticName: codeSyntaxName });
+    }
+    
     const prefix = this.getPrefix(token.type, pattern);
     let baseName = pattern.semanticPriority && token.semanticName ? token.semanticName : token.name;
     
@@ -2,11 +2,17 @@ import {
   ColorToken, 
   TypographyToken, 
   SpacingToken, 
+  EffectToken,
+  GradientToken,
+  VariableToken,
   AnalyzedComponent, 
   DesignSystemContext,
   UsagePattern,
   ExtractionConfig
 } from '../types';
+import { outlineNodeTree } from '../utils/node-tree';
+import { buildTokenComponentIndex, formatTokenReference } from '../utils/token-usage';
+import { describeTextContrast } from '../utils/contrast';
 
 export class AIContextGenerator {
   private config: ExtractionConfig;
@@ -43,7 +49,10 @@ export class AIContextGenerator {
     colors: ColorToken[],
     typography: TypographyToken[],
     spacing: SpacingToken[],
-    components: AnalyzedComponent[]
+    components: AnalyzedComponent[],
+    effects: EffectToken[] = [],
+    gradients: GradientToken[] = [],
+    variables: VariableToken[] = []
   ): string {
     const contextParts: string[] = [];
     
@@ -57,6 +66,12 @@ export class AIContextGenerator {
     contextParts.push(this.generateColorContext(colors));
     contextParts.push('');
     
+    if (gradients.length > 0) {
+      contextParts.push('## Gradients');
+      contextParts.push(this.generateGradientContext(gradients));
+      contextParts.push('');
+    }
+    
     // Typography Context
     contextParts.push('## Typography System');
     contextParts.push(this.generateTypographyContext(typography));
@@ -67,6 +82,20 @@ export class AIContextGenerator {
     contextParts.push(this.generateSpacingContext(spacing));
     contextParts.push('');
     
+    // Elevation Context
+    if (effects.length > 0) {
+      contextParts.push('## Elevation & Effects');
+      contextParts.push(this.generateEffectContext(effects));
+      contextParts.push('');
+    }
+    
+    // Variable Context
+    if (variables.length > 0) {
+      contextParts.push('## Design Variables');
+      contextParts.push(this.generateVariableContext(variables));
+      contextParts.push('');
+    }
+    
     // Component Context
     contextParts.push('## Component Library');
     contextParts.push(this.generateComponentContext(components));
@@ -265,6 +294,22 @@ export class AIContextGenerator {
     return contextParts.join('\n');
   }
 
+  private generateGradientContext(gradients: GradientToken[]): string {
+    const contextParts: string[] = [];
+    
+    contextParts.push('### Available Gradients:');
+    for (const gradient of gradients) {
+      contextParts.push(`- \`${gradient.semanticName || gradient.name}\`: \`background-image: ${gradient.value}\``);
+      contextParts.push(`  - ${gradient.description}`);
+    }
+    
+    contextParts.push('\n### Gradient Guidelines:');
+    contextParts.push('- Apply gradients with `bg-gradient-*` classes or the listed `background-image` value, never a flat color');
+    contextParts.push('- Keep the angle and stop positions exactly as listed');
+    
+    return contextParts.join('\n');
+  }
+
   private generateTypographyContext(typography: TypographyToken[]): string {
     const contextParts: string[] = [];
     
@@ -316,6 +361,62 @@ export class AIContextGenerator {
     return contextParts.join('\n');
   }
 
+  private generateEffectContext(effects: EffectToken[]): string {
+    const contextParts: string[] = [];
+    
+    contextParts.push('### Shadows:');
+    for (const effect of effects) {
+      if (effect.type !== 'shadow') continue;
+      contextParts.push(`- **${effect.semanticName || effect.name}**: \`box-shadow: ${effect.value}\``);
+      contextParts.push(`  - ${effect.description}`);
+    }
+    
+    const blurs = effects.filter(effect => effect.type === 'blur');
+    if (blurs.length > 0) {
+      contextParts.push('\n### Blurs:');
+      for (const blur of blurs) {
+        contextParts.push(`- **${blur.semanticName || blur.name}**: ${blur.usage ? blur.usage[0] : `${blur.value}px`}`);
+      }
+    }
+    
+    contextParts.push('\n### Elevation Guidelines:');
+    contextParts.push('- Use the shadow tokens exactly as listed (e.g., `shadow-elevation-2`) instead of inventing new shadows');
+    contextParts.push('- Keep every layer of a layered shadow together; they are designed as one elevation step');
+    contextParts.push('- Raise overlays (menus, dialogs) with higher elevation steps than the surface below them');
+    
+    return contextParts.join('\n');
+  }
+
+  private generateVariableContext(variables: VariableToken[]): string {
+    const contextParts: string[] = [];
+    const titles: Record<string, string> = {
+      'spacing': 'Spacing', 'sizing': 'Sizing', 'radius': 'Corner Radius', 'border-width': 'Border Widths',
+      'opacity': 'Opacity', 'typography': 'Typography Values', 'number': 'Other Numbers', 'string': 'Strings',
+      'flag': 'Feature Flags'
+    };
+    
+    for (const [category, title] of Object.entries(titles)) {
+      const group = variables.filter(variable => variable.category === category);
+      if (group.length === 0) continue;
+      
+      contextParts.push(`\n### ${title}:`);
+      for (const variable of group) {
+        const unit = variable.unit || '';
+        const modes = variable.modes
+          ? ` (${Object.entries(variable.modes).map(([mode, modeValue]) => `${mode}: ${modeValue}${unit}`).join(', ')})`
+          : '';
+        const property = variable.typographyProperty ? ` [${variable.typographyProperty}]` : '';
+        contextParts.push(`- \`${variable.semanticName || variable.name}\`${property}: ${variable.value}${unit}${modes}`);
+      }
+    }
+    
+    contextParts.push('\n### Variable Guidelines:');
+    contextParts.push('- Reference these values through their CSS custom properties instead of repeating the numbers');
+    contextParts.push('- Feature flags toggle variants and behaviour; render both states when prototyping');
+    
+    return contextParts.join('\n');
+  }
+
   private generateComponentContext(components: AnalyzedComponent[]): string {
     const contextParts: string[] = [];
     
@@ -325,6 +426,13 @@ export class AIContextGenerator {
       contextParts.push(`\n**${component.name}** (${component.type}):`);
       contextParts.push(`- Description: ${component.semanticDescription}`);
       contextParts.push(`- Variants: ${component.variants.map(v => v.name).join(', ')}`);
+      const structured = component.variants.find(v => v.structure);
+      if (structured) {
+        contextParts.push(`- Structure: ${outlineNodeTree(structured.structure!)}`);
+      }
+      if (component.tokenUsage && component.tokenUsage.length > 0) {
+        contextParts.push(`- Tokens: ${component.tokenUsage.map(usage => `\`${formatTokenReference(usage)}\` (${usage.properties.join(', ')})`).join(', ')}`);
+      }
       contextParts.push(`- Usage: ${component.usage.slice(0, 2).join(', ')}`);
       contextParts.push(`- Examples:`);
       for (const example of component.examples.slice(0, 2)) {
@@ -332,6 +440,15 @@ export class AIContextGenerator {
       }
     }
     
+    const references = buildTokenComponentIndex(components);
+    if (references.length > 0) {
+      contextParts.push('\n### Token to Component Map:');
+      contextParts.push('Use these tokens, not their raw values, when building the listed components.');
+      for (const reference of references) {
+        contextParts.push(`- \`${formatTokenReference(reference)}\` (${reference.kind}): ${reference.components.join(', ')}`);
+      }
+    }
+    
     return contextParts.join('\n');
   }
 
@@ -482,7 +599,11 @@ export class AIContextGenerator {
       
       guide.push('**Accessibility:**');
       guide.push(`- Keyboard Navigation: ${component.accessibility.keyboardNavigation ? 'Yes' : 'No'}`);
-      guide.push(`- Color Contrast: ${component.accessibility.colorContrast}`);
+      guide.push(`- Color Contrast: ${describeTextContrast(component.accessibility)}`);
+      (component.accessibility.contrastChecks || [])
+        .filter(check => check.level === 'fail')
+        .slice(0, 5)
+        .forEach(check => guide.push(`  - ${check.variant} / ${check.nodeName}: ${check.ratio}:1 (${check.foregroundHex} on ${check.backgroundHex})`));
       guide.push(`- ARIA Support: ${component.accessibility.ariaLabels.length > 0 ? 'Yes' : 'No'}`);
       guide.push('');
       
@@ -1,4 +1,6 @@
 import { AnalyzedComponent, ComponentVariant, ComponentProp, ExtractionConfig } from '../types';
+import { toLayoutRules, formatLayoutCSS, toTailwindLayoutClasses, describeLayout, toClassSegment } from '../utils/layout';
+import { describeTextContrast } from '../utils/contrast';
 
 export class ComponentLibraryGenerator {
   private config: ExtractionConfig;
@@ -104,6 +106,12 @@ interface BaseComponentProps {
         if (prop.enumValues) {
           types.push(`   * @options ${prop.enumValues.join(', ')}`);
         }
+        if (prop.preferredValues && prop.preferredValues.length > 0) {
+          types.push(`   * @preferred ${prop.preferredValues.join(', ')}`);
+        }
+        if (prop.figmaType) {
+          types.push(`   * @figma ${prop.figmaType} property "${prop.figmaName}"`);
+        }
         if (prop.default !== undefined) {
           types.push(`   * @default ${JSON.stringify(prop.default)}`);
         }
@@ -142,8 +150,12 @@ interface BaseComponentProps {
     componentParts.push(` * @accessibility`);
     componentParts.push(` * - Keyboard navigation: ${component.accessibility.keyboardNavigation ? 'Supported' : 'Not supported'}`);
     componentParts.push(` * - Screen reader: Compatible with ARIA labels`);
-    componentParts.push(` * - Color contrast: ${component.accessibility.colorContrast} compliant`);
+    componentParts.push(` * - Color contrast: ${describeTextContrast(component.accessibility)}`);
     componentParts.push(` * `);
+    if (component.layout) {
+      componentParts.push(` * @layout ${describeLayout(component.layout)}`);
+      componentParts.push(` * `);
+    }
     componentParts.push(` * @usage`);
     for (const usage of component.usage.slice(0, 3)) {
       componentParts.push(` * - ${usage}`);
@@ -205,6 +217,17 @@ interface BaseComponentProps {
       componentParts.push(`};`);
     }
     
+    // Nested auto layout can't be expressed by the root classes alone
+    const layoutRules = component.layout ? toLayoutRules(component.layout, toClassSegment(component.name)) : [];
+    if (layoutRules.length > 1) {
+      componentParts.push('');
+      componentParts.push(`/**`);
+      componentParts.push(` * ${componentName} auto layout, translated from Figma`);
+      componentParts.push(` * Give each child element the matching __layer class`);
+      componentParts.push(` */`);
+      componentParts.push(`export const ${componentName}LayoutCSS = \`${formatLayoutCSS(layoutRules)}\`;`);
+    }
+    
     // Add variant helper functions
     if (component.variants.length > 1) {
       componentParts.push('');
@@ -377,6 +400,8 @@ interface BaseComponentProps {
         return 'number';
       case 'boolean':
         return 'boolean';
+      case 'node':
+        return 'ReactNode';
       case 'enum':
         return prop.enumValues ? `'${prop.enumValues.join("' | '")}'` : 'string';
       default:
@@ -426,9 +451,20 @@ interface BaseComponentProps {
         baseClasses.push('block');
     }
     
+    // Figma's auto layout replaces the type's default layout classes; modals keep theirs
+    // because the defaults describe the overlay rather than the dialog frame
+    if (component.layout && component.type !== 'modal') {
+      const layoutClasses = toTailwindLayoutClasses(component.layout);
+      return layoutClasses.concat(baseClasses.filter(cls => !this.isLayoutClass(cls))).join(' ');
+    }
+    
     return baseClasses.join(' ');
   }
 
+  private isLayoutClass(cls: string): boolean {
+    return /^(block|flex|inline-flex|grid|items-|justify-|gap-|w-full|p[xytrbl]?-)/.test(cls);
+  }
+
   private generateVariantClasses(component: AnalyzedComponent): string {
     const variantLogic: string[] = [];
     
@@ -487,6 +523,13 @@ interface BaseComponentProps {
           stories.push(`      options: [${prop.enumValues.map(v => `'${v}'`).join(', ')}],`);
           stories.push(`      description: '${prop.description}'`);
           stories.push(`    },`);
+        } else if (prop.figmaType) {
+          // Slots take React nodes, which Storybook controls can't edit
+          const control = prop.type === 'boolean' ? `{ type: 'boolean' }` : prop.type === 'node' ? 'false' : `{ type: 'text' }`;
+          stories.push(`    ${prop.name}: {`);
+          stories.push(`      control: ${control},`);
+          stories.push(`      description: ${JSON.stringify(prop.description)}`);
+          stories.push(`    },`);
         }
       }
       
@@ -500,6 +543,11 @@ interface BaseComponentProps {
       // Generate default story
       stories.push(`export const Default: ${componentName}Story = {`);
       stories.push(`  args: {`);
+      for (const prop of component.props) {
+        if (prop.figmaType && prop.type !== 'node' && prop.default !== undefined) {
+          stories.push(`    ${prop.name}: ${JSON.stringify(prop.default)},`);
+        }
+      }
       stories.push(`    children: '${componentName} content'`);
       stories.push(`  }`);
       stories.push(`};`);
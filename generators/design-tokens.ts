@@ -0,0 +1,491 @@
+import { ColorToken, TypographyToken, SpacingToken, EffectToken, GradientToken, VariableToken, VariableClassification, CodeSyntax, ShadowLayer, GradientStop, ExtractionConfig, DTCGToken, DTCGTokenGroup } from '../types';
+import { toShadowLayers, toGradientStops, getGradientType, formatCSSGradient } from '../utils/naming';
+import { classifyVariable } from '../utils/variable-resolver';
+
+/**
+ * W3C Design Tokens (DTCG) Generator for DeVibe System Plugin
+ * Emits `$value` / `$type` / `$description` token groups with `{group.token}` alias references
+ */
+
+interface TokenLeaf {
+  path: string[];
+  value: any;
+}
+
+export class DesignTokensGenerator {
+  private config?: ExtractionConfig;
+  private aliasPaths: Map<string, string> = new Map();
+
+  constructor(config?: ExtractionConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Builds a DTCG file from the flattened tokens produced by the extraction pipeline.
+   * Aliases are already resolved at this point, so every token carries a literal value.
+   */
+  generateDesignTokens(
+    colors: ColorToken[],
+    typography: TypographyToken[],
+    spacing: SpacingToken[],
+    effects: EffectToken[] = [],
+    gradients: GradientToken[] = [],
+    variables: VariableToken[] = []
+  ): string {
+    const tokens: DTCGTokenGroup = {};
+
+    if (this.shouldInclude('includeColors')) {
+      for (const color of colors) {
+        const token: DTCGToken = {
+          $value: color.hex,
+          $type: 'color',
+          $description: color.description
+        };
+        this.addCodeSyntax(token, color.codeSyntax);
+        this.setToken(tokens, this.groupPath('color', this.splitName(color.name)), token);
+      }
+
+      for (const gradient of gradients) {
+        this.addGradientToken(tokens, this.splitName(gradient.name), gradient.stops, gradient.value, gradient.gradientType, gradient.description);
+      }
+    }
+
+    if (this.shouldInclude('includeTypography')) {
+      for (const style of typography) {
+        const token: DTCGToken = {
+          $value: this.toTypographyValue(style.fontFamily, style.fontSize, style.fontWeight, style.lineHeight, style.letterSpacing || 0),
+          $type: 'typography',
+          $description: style.description
+        };
+        
+        // Responsive type ramps keep every mode's composite value next to the variables they came from
+        if (style.boundVariables || style.modes) {
+          const figmaData: Record<string, any> = {};
+          if (style.boundVariables) {
+            figmaData.boundVariables = style.boundVariables;
+          }
+          if (style.modes) {
+            figmaData.defaultMode = style.defaultMode;
+            figmaData.modes = {};
+            for (const [mode, value] of Object.entries(style.modes)) {
+              figmaData.modes[mode] = this.toTypographyValue(value.fontFamily, value.fontSize, value.fontWeight, value.lineHeight, value.letterSpacing);
+            }
+          }
+          token.$extensions = { 'com.figma': figmaData };
+        }
+        this.setToken(tokens, this.groupPath('typography', this.splitName(style.name)), token);
+      }
+    }
+
+    if (this.shouldInclude('includeSpacing')) {
+      for (const space of spacing) {
+        this.setToken(tokens, this.groupPath('spacing', this.splitName(space.name)), {
+          $value: this.toDimension(space.value),
+          $type: 'dimension',
+          $description: space.description
+        });
+      }
+    }
+
+    for (const effect of effects) {
+      if (effect.type === 'shadow') {
+        this.addShadowToken(tokens, this.splitName(effect.name), effect.layers, effect.description);
+      } else {
+        this.addBlurToken(tokens, this.splitName(effect.name), effect.value, effect.blurType, effect.description);
+      }
+    }
+
+    for (const variable of variables) {
+      const type = this.getVariableTokenType(variable.resolvedType, variable);
+      if (!type) continue;
+
+      const token: DTCGToken = {
+        $value: this.convertVariableValue(variable.value, type),
+        $type: type,
+        $description: variable.description
+      };
+      if (variable.modes) {
+        const modes: Record<string, any> = {};
+        for (const [mode, value] of Object.entries(variable.modes)) {
+          modes[mode] = this.convertVariableValue(value, type);
+        }
+        token.$extensions = { 'com.figma': { defaultMode: variable.defaultMode, modes } };
+      }
+      this.addCodeSyntax(token, variable.codeSyntax);
+      this.setToken(tokens, this.groupPath(this.getVariableGroup(variable), this.splitName(variable.name)), token);
+    }
+
+    return this.formatOutput(tokens);
+  }
+
+  /**
+   * Builds a DTCG file from the raw `extract-basic` structure. This must run before
+   * alias resolution so VARIABLE_ALIAS values can be written as `{group.token}` references.
+   */
+  generateFromExtractedData(data: any): string {
+    const tokens: DTCGTokenGroup = {};
+    const variables = data.variables || {};
+    const styles = data.styles || {};
+    const pending: Array<{ path: string[]; type: DTCGToken['$type']; variable: any }> = [];
+
+    // Register every variable path up front so aliases can reference tokens defined later
+    this.aliasPaths.clear();
+    for (const resolvedType of Object.keys(variables)) {
+      for (const leaf of this.collectLeaves(variables[resolvedType], [], (node) => !!node.modes)) {
+        const classification = classifyVariable(resolvedType, leaf.value.scopes, leaf.value.name || leaf.path.join('/'));
+        const tokenType = this.getVariableTokenType(resolvedType, classification);
+        if (!tokenType) continue;
+
+        const group = tokenType === 'color' ? 'color' : this.getVariableGroup(classification);
+        const path = this.groupPath(group, leaf.path);
+        this.aliasPaths.set(leaf.value.id, path.join('.'));
+        pending.push({ path, type: tokenType, variable: leaf.value });
+      }
+    }
+
+    for (const entry of pending) {
+      const collection = data.collections ? data.collections[entry.variable.collectionId] : undefined;
+      this.addVariableToken(tokens, entry.path, entry.type, entry.variable, collection);
+    }
+
+    for (const leaf of this.collectLeaves(styles.paint, [], (node) => node.type === 'PAINT_STYLE')) {
+      this.addPaintStyle(tokens, leaf.path, leaf.value);
+    }
+
+    for (const leaf of this.collectLeaves(styles.text, [], (node) => node.type === 'TEXT_STYLE')) {
+      this.addTextStyle(tokens, leaf.path, leaf.value);
+    }
+
+    for (const leaf of this.collectLeaves(styles.effect, [], (node) => node.type === 'EFFECT_STYLE')) {
+      this.addEffectStyle(tokens, leaf.path, leaf.value.effects || [], leaf.value.description);
+    }
+
+    return this.formatOutput(tokens);
+  }
+
+  private addVariableToken(tokens: DTCGTokenGroup, path: string[], type: DTCGToken['$type'], variable: any, collection?: any): void {
+    const modes = variable.modes || {};
+    const modeIds = Object.keys(modes);
+    if (modeIds.length === 0) return;
+
+    // Name modes after the collection ('Light', 'Brand A', ...) and take $value from its default mode
+    const modeNames = collection && collection.modeNames ? collection.modeNames : {};
+    const defaultModeId = collection && modeIds.indexOf(collection.defaultModeId) !== -1 ? collection.defaultModeId : modeIds[0];
+
+    const modeValues: Record<string, any> = {};
+    for (const modeId of modeIds) {
+      modeValues[modeNames[modeId] || modeId] = this.convertVariableValue(modes[modeId], type);
+    }
+
+    const defaultValue = this.convertVariableValue(modes[defaultModeId], type);
+    if (defaultValue === undefined) {
+      console.warn(`[DesignTokens] Skipping ${path.join('.')}: could not convert value`);
+      return;
+    }
+
+    const token: DTCGToken = {
+      $value: defaultValue,
+      $type: type,
+      $description: variable.description
+    };
+
+    if (modeIds.length > 1) {
+      token.$extensions = {
+        'com.figma': {
+          collection: collection ? collection.name : undefined,
+          defaultMode: modeNames[defaultModeId] || defaultModeId,
+          modes: modeValues
+        }
+      };
+    }
+    this.addCodeSyntax(token, variable.codeSyntax);
+
+    this.setToken(tokens, path, token);
+  }
+
+  // Keeps the per-platform names from Figma so downstream transforms can name tokens the same way
+  private addCodeSyntax(token: DTCGToken, codeSyntax?: CodeSyntax): void {
+    if (!codeSyntax || Object.keys(codeSyntax).length === 0) return;
+
+    if (!token.$extensions) {
+      token.$extensions = { 'com.figma': {} };
+    }
+    token.$extensions['com.figma'].codeSyntax = codeSyntax;
+  }
+
+  private convertVariableValue(value: any, type: DTCGToken['$type']): any {
+    if (value && value.type === 'VARIABLE_ALIAS') {
+      const targetPath = this.aliasPaths.get(value.id);
+      return targetPath ? `{${targetPath}}` : undefined;
+    }
+
+    if (type === 'color') {
+      return value && value.rgb ? this.toHex(value.rgb, value.rgb.a) : undefined;
+    }
+
+    if (type === 'fontFamily') {
+      return typeof value === 'string' ? value : undefined;
+    }
+
+    if (typeof value !== 'number') return undefined;
+    return type === 'dimension' ? this.toDimension(value) : value;
+  }
+
+  private addPaintStyle(tokens: DTCGTokenGroup, path: string[], style: any): void {
+    const paints = (style.paints || []).filter((paint: any) => paint.visible !== false);
+    const paint = paints[0];
+    if (!paint) return;
+
+    if (paint.type === 'SOLID' && paint.color) {
+      this.setToken(tokens, this.groupPath('color', path), {
+        $value: this.toHex(paint.color.rgb, paint.opacity),
+        $type: 'color',
+        $description: style.description
+      });
+    } else if (paint.gradientStops) {
+      const gradientType = getGradientType(paint.type);
+      const stops = toGradientStops(paint.gradientStops, paint.opacity);
+      const css = formatCSSGradient(gradientType, stops, paint.gradientTransform).css;
+      this.addGradientToken(tokens, path, stops, css, gradientType, style.description);
+    }
+  }
+
+  // DTCG gradients are stop lists only, so the geometry travels as the equivalent CSS in the Figma extension
+  private addGradientToken(
+    tokens: DTCGTokenGroup,
+    path: string[],
+    stops: GradientStop[],
+    css: string,
+    gradientType: GradientToken['gradientType'],
+    description?: string
+  ): void {
+    this.setToken(tokens, this.groupPath('gradient', path), {
+      $value: stops.map(stop => ({
+        color: this.toHex(stop.color.rgb, stop.color.rgb.a),
+        position: stop.position
+      })),
+      $type: 'gradient',
+      $description: description,
+      $extensions: { 'com.figma': { type: gradientType, css } }
+    });
+  }
+
+  private addTextStyle(tokens: DTCGTokenGroup, path: string[], style: any): void {
+    const fontSize = style.fontSize || 16;
+    const value: Record<string, any> = {
+      fontFamily: style.fontFamily,
+      fontSize: this.toDimension(fontSize),
+      fontWeight: this.mapFontWeight(style.fontWeight),
+      lineHeight: this.convertLineHeight(style.lineHeight, fontSize),
+      letterSpacing: this.convertLetterSpacing(style.letterSpacing, fontSize)
+    };
+
+    // Fields bound to variables reference those tokens, so mode switches carry through the composite
+    for (const [field, variableId] of Object.entries(style.boundVariables || {})) {
+      const targetPath = this.aliasPaths.get(variableId as string);
+      if (targetPath && field in value) {
+        value[field] = `{${targetPath}}`;
+      }
+    }
+
+    this.setToken(tokens, this.groupPath('typography', path), {
+      $value: value,
+      $type: 'typography',
+      $description: style.description
+    });
+  }
+
+  private addEffectStyle(tokens: DTCGTokenGroup, path: string[], effects: readonly any[], description?: string): void {
+    const layers = toShadowLayers(effects);
+    if (layers.length > 0) {
+      this.addShadowToken(tokens, path, layers, description);
+    }
+
+    const blur = effects.find(effect => effect.visible !== false && (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR'));
+    if (blur) {
+      this.addBlurToken(tokens, path, blur.radius || 0, blur.type === 'BACKGROUND_BLUR' ? 'background' : 'layer', description);
+    }
+  }
+
+  private addShadowToken(tokens: DTCGTokenGroup, path: string[], layers: ShadowLayer[], description?: string): void {
+    const shadows = layers.map(layer => {
+      const shadow: Record<string, any> = {
+        color: this.toHex(layer.color.rgb, layer.color.rgb.a),
+        offsetX: this.toDimension(layer.offsetX),
+        offsetY: this.toDimension(layer.offsetY),
+        blur: this.toDimension(layer.blur),
+        spread: this.toDimension(layer.spread)
+      };
+      if (layer.inset) {
+        shadow.inset = true;
+      }
+      return shadow;
+    });
+
+    const token: DTCGToken = {
+      $value: shadows.length === 1 ? shadows[0] : shadows,
+      $type: 'shadow',
+      $description: description
+    };
+    // DTCG shadows have no blend mode, so keep Figma's per layer where it isn't NORMAL
+    if (layers.some(layer => layer.blendMode !== 'NORMAL')) {
+      token.$extensions = { 'com.figma': { blendModes: layers.map(layer => layer.blendMode) } };
+    }
+    this.setToken(tokens, this.groupPath('shadow', path), token);
+  }
+
+  private addBlurToken(tokens: DTCGTokenGroup, path: string[], radius: number, blurType: 'layer' | 'background', description?: string): void {
+    this.setToken(tokens, this.groupPath('blur', path), {
+      $value: this.toDimension(radius),
+      $type: 'dimension',
+      $description: description,
+      $extensions: { 'com.figma': { blurType } }
+    });
+  }
+
+  // Helper methods for tree handling
+
+  private collectLeaves(node: any, path: string[], isLeaf: (node: any) => boolean): TokenLeaf[] {
+    if (!node || typeof node !== 'object') return [];
+    if (isLeaf(node)) return [{ path, value: node }];
+
+    let leaves: TokenLeaf[] = [];
+    for (const [key, child] of Object.entries(node)) {
+      leaves = leaves.concat(this.collectLeaves(child, path.concat(this.sanitizeSegment(key)), isLeaf));
+    }
+    return leaves;
+  }
+
+  private setToken(tokens: DTCGTokenGroup, path: string[], token: DTCGToken): void {
+    if (path.length === 0) return;
+
+    let current: any = tokens;
+    for (let i = 0; i < path.length - 1; i++) {
+      const segment = path[i];
+      if (!current[segment]) {
+        current[segment] = {};
+      } else if (current[segment].$value !== undefined) {
+        console.warn(`[DesignTokens] Skipping ${path.join('.')}: ${path.slice(0, i + 1).join('.')} is already a token`);
+        return;
+      }
+      current = current[segment];
+    }
+
+    const key = path[path.length - 1];
+    if (current[key]) {
+      console.warn(`[DesignTokens] Skipping duplicate token ${path.join('.')}`);
+      return;
+    }
+
+    if (!token.$description) {
+      delete token.$description;
+    }
+    current[key] = token;
+  }
+
+  private groupPath(group: string, path: string[]): string[] {
+    if (path.length > 0 && path[0].toLowerCase() === group) {
+      return path;
+    }
+    return [group].concat(path);
+  }
+
+  private splitName(name: string): string[] {
+    return name
+      .split(/[-_.\/]/)
+      .map(part => this.sanitizeSegment(part.trim()))
+      .filter(part => part.length > 0);
+  }
+
+  private sanitizeSegment(segment: string): string {
+    // DTCG reserves `$` prefixes and uses `.`, `{` and `}` for references
+    return segment.replace(/[{}.]/g, '').replace(/^\$+/, '');
+  }
+
+  // DTCG has no boolean or free-text type, so flags and plain strings stay out of the file
+  private getVariableTokenType(resolvedType: string, classification: VariableClassification): DTCGToken['$type'] | null {
+    if (resolvedType === 'COLOR') return 'color';
+    if (classification.typographyProperty === 'fontFamily') return 'fontFamily';
+    if (classification.typographyProperty === 'fontWeight') return 'fontWeight';
+    if (resolvedType !== 'FLOAT') return null;
+    return classification.unit === 'px' ? 'dimension' : 'number';
+  }
+
+  private getVariableGroup(classification: VariableClassification): string {
+    return classification.category === 'typography' ? 'font' : classification.category;
+  }
+
+  private shouldInclude(option: 'includeColors' | 'includeTypography' | 'includeSpacing'): boolean {
+    return !this.config || this.config[option];
+  }
+
+  // Helper methods for value conversion
+
+  private toDimension(value: number): string {
+    return `${Math.round(value * 100) / 100}px`;
+  }
+
+  private toTypographyValue(fontFamily: string, fontSize: number, fontWeight: number, lineHeight: number, letterSpacing: number): Record<string, any> {
+    return {
+      fontFamily,
+      fontSize: this.toDimension(fontSize),
+      fontWeight,
+      lineHeight: this.toLineHeightRatio(lineHeight, fontSize),
+      letterSpacing: this.toDimension(letterSpacing)
+    };
+  }
+
+  private toLineHeightRatio(lineHeight: number, fontSize: number): number {
+    // Extracted line heights are pixel values; DTCG expects a unitless multiplier
+    const ratio = lineHeight > 4 && fontSize > 0 ? lineHeight / fontSize : lineHeight;
+    return Math.round(ratio * 1000) / 1000;
+  }
+
+  private convertLineHeight(lineHeight: any, fontSize: number): number {
+    if (lineHeight && lineHeight.unit === 'PIXELS') {
+      return this.toLineHeightRatio(lineHeight.value, fontSize);
+    }
+    if (lineHeight && lineHeight.unit === 'PERCENT') {
+      return Math.round(lineHeight.value * 10) / 1000;
+    }
+    return 1.2;
+  }
+
+  private convertLetterSpacing(letterSpacing: any, fontSize: number): string {
+    if (letterSpacing && letterSpacing.unit === 'PERCENT') {
+      return this.toDimension((fontSize * letterSpacing.value) / 100);
+    }
+    return this.toDimension(letterSpacing && letterSpacing.value ? letterSpacing.value : 0);
+  }
+
+  private mapFontWeight(fontStyle: string | number): number {
+    if (typeof fontStyle === 'number') return fontStyle;
+
+    const weightMap: Record<string, number> = {
+      'thin': 100,
+      'extralight': 200,
+      'light': 300,
+      'regular': 400,
+      'normal': 400,
+      'medium': 500,
+      'semibold': 600,
+      'bold': 700,
+      'extrabold': 800,
+      'black': 900,
+      'heavy': 900
+    };
+
+    const key = (fontStyle || '').toLowerCase().replace(/italic/g, '').replace(/[\s-]/g, '');
+    return weightMap[key] || 400;
+  }
+
+  private toHex(rgb: { r: number; g: number; b: number }, alpha?: number): string {
+    const channel = (n: number) => Math.round(n).toString(16).padStart(2, '0');
+    const hex = `#${channel(rgb.r)}${channel(rgb.g)}${channel(rgb.b)}`;
+    return alpha !== undefined && alpha < 1 ? hex + channel(alpha * 255) : hex;
+  }
+
+  private formatOutput(tokens: DTCGTokenGroup): string {
+    return JSON.stringify(tokens, null, 2);
+  }
+}
@@ -0,0 +1,442 @@
+import { TypographyToken, SpacingToken, GradientToken, ExtractionConfig } from '../types';
+import { toGradientStops, getGradientType } from '../utils/naming';
+
+/**
+ * Style Dictionary Source Generator for DeVibe System Plugin
+ * Emits one JSON source file per category plus a starter config.json, ready for `style-dictionary build`
+ */
+
+export interface OrganizedColors {
+  primitives: Record<string, Record<string, any>>;
+  semantic: Record<string, Record<string, any>>;
+}
+
+interface SourceToken {
+  $value: any;
+  $type: string;
+  $description?: string;
+  $extensions?: Record<string, any>;
+}
+
+export class StyleDictionaryGenerator {
+  private config?: ExtractionConfig;
+  private tokenPaths: Map<string, string> = new Map();
+
+  constructor(config?: ExtractionConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Returns the source tree as a map of relative file path -> JSON content.
+   * Semantic colors that alias a primitive are written as `{color.base.*}` references.
+   */
+  generateSourceFiles(
+    colors: OrganizedColors,
+    typography: TypographyToken[],
+    spacing: SpacingToken[],
+    gradients: GradientToken[] = []
+  ): Record<string, string> {
+    const files: Record<string, string> = {};
+
+    this.tokenPaths.clear();
+
+    if (this.shouldInclude('includeColors')) {
+      // Primitives are built first so semantic references can point at them
+      const base = this.buildColorGroup(colors.primitives, ['color', 'base']);
+      const semantic = this.buildColorGroup(colors.semantic, ['color', 'semantic']);
+
+      if (Object.keys(base).length > 0) {
+        files['tokens/color/base.json'] = this.formatFile({ color: { base } });
+      }
+      if (Object.keys(semantic).length > 0) {
+        files['tokens/color/semantic.json'] = this.formatFile({ color: { semantic } });
+      }
+      if (gradients.length > 0) {
+        files['tokens/color/gradient.json'] = this.formatFile({ color: { gradient: this.buildGradientTokens(gradients) } });
+      }
+    }
+
+    if (this.shouldInclude('includeSpacing') && spacing.length > 0) {
+      const group: Record<string, SourceToken> = {};
+      for (const space of spacing) {
+        group[this.formatKey(space.semanticName || space.name)] = {
+          $value: `${space.value}px`,
+          $type: 'dimension',
+          $description: space.description
+        };
+      }
+      files['tokens/size/spacing.json'] = this.formatFile({ size: { spacing: group } });
+    }
+
+    if (this.shouldInclude('includeTypography') && typography.length > 0) {
+      Object.assign(files, this.buildFontFiles(typography));
+    }
+
+    files['config.json'] = this.formatFile(this.buildConfig());
+
+    return files;
+  }
+
+  /**
+   * Builds the same source tree from the raw `extract-basic` structure. Must run before alias
+   * resolution: a color whose default mode aliases another variable is filed under semantic and
+   * keeps a reference to it, while every variable and style without one becomes a primitive.
+   */
+  generateFromExtractedData(data: any): Record<string, string> {
+    const variables = data.variables || {};
+    const styles = data.styles || {};
+    const collections = data.collections || {};
+    const colors: OrganizedColors = { primitives: {}, semantic: {} };
+    const gradients: GradientToken[] = [];
+    const typography: TypographyToken[] = [];
+    const spacing: SpacingToken[] = [];
+
+    const colorVariables = this.collectLeaves(variables.COLOR, node => !!node.modes);
+    const colorsById = new Map<string, any>(colorVariables.map(leaf => [leaf.value.id, leaf.value] as [string, any]));
+    for (const leaf of colorVariables) {
+      const variable = leaf.value;
+      const collection = collections[variable.collectionId];
+      const modeIds = Object.keys(variable.modes);
+      const defaultModeId = collection && variable.modes[collection.defaultModeId] !== undefined ? collection.defaultModeId : modeIds[0];
+      const defaultValue = variable.modes[defaultModeId];
+      const aliased = defaultValue && defaultValue.type === 'VARIABLE_ALIAS';
+      // Each mode keeps the variable it aliases so semantic.json can point back at base.json
+      const modeColor = (modeId: string) => {
+        const modeValue = variable.modes[modeId];
+        const target = modeValue && modeValue.type === 'VARIABLE_ALIAS' ? colorsById.get(modeValue.id) : undefined;
+        return {
+          hex: this.resolveColorHex(variable, modeId, colorsById, 0),
+          reference: target ? target.name.split('/').join('.') : undefined
+        };
+      };
+      let value: any;
+
+      if (modeIds.length > 1) {
+        const modeName = (modeId: string) => (collection && collection.modeNames[modeId]) || modeId;
+        value = {};
+        for (const modeId of [defaultModeId].concat(modeIds.filter(modeId => modeId !== defaultModeId))) {
+          const color = modeColor(modeId);
+          if (color.hex) value[modeName(modeId)] = color;
+        }
+        value.defaultMode = modeName(defaultModeId);
+      } else {
+        value = modeColor(defaultModeId);
+        if (!value.hex) continue;
+      }
+      this.setNested(aliased ? colors.semantic : colors.primitives, variable.name.split('/'), value);
+    }
+
+    for (const leaf of this.collectLeaves(styles.paint, node => node.type === 'PAINT_STYLE')) {
+      const paints = (leaf.value.paints || []).filter((paint: any) => paint.visible !== false);
+      const paint = paints[0];
+      if (!paint) continue;
+
+      if (paints.length === 1 && paint.type === 'SOLID' && paint.color) {
+        this.setNested(colors.primitives, leaf.path, { hex: this.toHex(paint.color.rgb, paint.opacity) });
+      } else if (paint.gradientStops) {
+        gradients.push({
+          name: leaf.path.join('/'),
+          value: paint.css,
+          type: 'gradient',
+          gradientType: getGradientType(paint.type),
+          stops: toGradientStops(paint.gradientStops, paint.opacity),
+          description: leaf.value.description || undefined
+        });
+      }
+    }
+
+    for (const leaf of this.collectLeaves(styles.text, node => node.type === 'TEXT_STYLE')) {
+      const style = leaf.value;
+      const fontSize = style.fontSize || 16;
+      const lineHeight = style.lineHeight && style.lineHeight.unit === 'PIXELS'
+        ? style.lineHeight.value
+        : style.lineHeight && style.lineHeight.unit === 'PERCENT' ? fontSize * style.lineHeight.value / 100 : fontSize * 1.2;
+      const letterSpacing = style.letterSpacing && style.letterSpacing.unit === 'PERCENT'
+        ? fontSize * style.letterSpacing.value / 100
+        : (style.letterSpacing && style.letterSpacing.value) || 0;
+
+      typography.push({
+        name: leaf.path.join('/'),
+        value: `${fontSize}px`,
+        type: 'typography',
+        fontFamily: style.fontFamily,
+        fontSize,
+        fontWeight: this.mapFontWeight(style.fontWeight),
+        lineHeight: Math.round(lineHeight * 100) / 100,
+        letterSpacing: Math.round(letterSpacing * 100) / 100,
+        description: style.description || undefined
+      });
+    }
+
+    const floatVariables = this.collectLeaves(variables.FLOAT, node => !!node.modes);
+    const floatsById = new Map<string, any>(floatVariables.map(leaf => [leaf.value.id, leaf.value] as [string, any]));
+    for (const leaf of floatVariables) {
+      const variable = leaf.value;
+      if (variable.category !== 'spacing') continue;
+
+      const collection = collections[variable.collectionId];
+      const modeId = collection && variable.modes[collection.defaultModeId] !== undefined ? collection.defaultModeId : Object.keys(variable.modes)[0];
+      const value = this.resolveNumber(variable, modeId, floatsById, 0);
+      if (value === undefined) continue;
+
+      spacing.push({
+        name: variable.name,
+        value,
+        type: 'spacing',
+        semanticName: variable.name,
+        description: variable.description || undefined,
+        usage: []
+      });
+    }
+
+    return this.generateSourceFiles(colors, typography, spacing, gradients);
+  }
+
+  // Aliases follow the same mode when the target has it; otherwise the target's first (default) mode
+  private resolveColorHex(variable: any, modeId: string, byId: Map<string, any>, depth: number): string | undefined {
+    const value = variable.modes[modeId] !== undefined ? variable.modes[modeId] : variable.modes[Object.keys(variable.modes)[0]];
+    if (value && value.type === 'VARIABLE_ALIAS') {
+      const target = byId.get(value.id);
+      return target && depth < 10 ? this.resolveColorHex(target, modeId, byId, depth + 1) : undefined;
+    }
+    return value && value.rgb ? this.toHex(value.rgb, value.rgb.a) : undefined;
+  }
+
+  private resolveNumber(variable: any, modeId: string, byId: Map<string, any>, depth: number): number | undefined {
+    const value = variable.modes[modeId] !== undefined ? variable.modes[modeId] : variable.modes[Object.keys(variable.modes)[0]];
+    if (value && value.type === 'VARIABLE_ALIAS') {
+      const target = byId.get(value.id);
+      return target && depth < 10 ? this.resolveNumber(target, modeId, byId, depth + 1) : undefined;
+    }
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  private collectLeaves(node: any, isLeaf: (node: any) => boolean, path: string[] = []): Array<{ path: string[]; value: any }> {
+    if (!node || typeof node !== 'object') return [];
+    if (isLeaf(node)) return [{ path, value: node }];
+
+    let leaves: Array<{ path: string[]; value: any }> = [];
+    for (const key of Object.keys(node)) {
+      leaves = leaves.concat(this.collectLeaves(node[key], isLeaf, path.concat(key)));
+    }
+    return leaves;
+  }
+
+  // Names without a group are filed under `default` so every color sits at least one level deep
+  private setNested(target: Record<string, any>, segments: string[], value: any): void {
+    const path = segments.map(segment => segment.trim()).filter(segment => segment.length > 0);
+    if (path.length === 1) path.unshift('default');
+
+    let current = target;
+    for (const segment of path.slice(0, -1)) {
+      if (!current[segment]) current[segment] = {};
+      if (this.createColorToken(current[segment])) return;
+      current = current[segment];
+    }
+    const key = path[path.length - 1];
+    if (!current[key]) current[key] = value;
+  }
+
+  private toHex(rgb: { r: number; g: number; b: number }, alpha?: number): string {
+    const channel = (n: number) => Math.round(n).toString(16).padStart(2, '0');
+    const hex = `#${channel(rgb.r)}${channel(rgb.g)}${channel(rgb.b)}`;
+    return alpha !== undefined && alpha < 1 ? hex + channel(alpha * 255) : hex;
+  }
+
+  private mapFontWeight(fontStyle: string | number): number {
+    if (typeof fontStyle === 'number') return fontStyle;
+
+    const weightMap: Record<string, number> = {
+      'thin': 100,
+      'extralight': 200,
+      'light': 300,
+      'regular': 400,
+      'normal': 400,
+      'medium': 500,
+      'semibold': 600,
+      'bold': 700,
+      'extrabold': 800,
+      'black': 900,
+      'heavy': 900
+    };
+
+    const key = (fontStyle || '').toLowerCase().replace(/italic/g, '').replace(/[\s-]/g, '');
+    return weightMap[key] || 400;
+  }
+
+  private buildColorGroup(categories: Record<string, Record<string, any>>, prefix: string[]): Record<string, any> {
+    const group: Record<string, any> = {};
+
+    for (const category of Object.keys(categories)) {
+      const tokens = this.buildColorTokens(categories[category], prefix.concat(this.formatKey(category)));
+      if (Object.keys(tokens).length > 0) {
+        group[this.formatKey(category)] = tokens;
+      }
+    }
+
+    return group;
+  }
+
+  private buildColorTokens(values: Record<string, any>, path: string[]): Record<string, any> {
+    const tokens: Record<string, any> = {};
+
+    for (const name of Object.keys(values)) {
+      const key = this.formatKey(name);
+      const tokenPath = path.concat(key);
+      const token = this.createColorToken(values[name]);
+
+      if (token) {
+        tokens[key] = token;
+        this.tokenPaths.set(this.toLookupKey(path.slice(2).concat(key)), tokenPath.join('.'));
+      } else if (values[name] && typeof values[name] === 'object') {
+        const nested = this.buildColorTokens(values[name], tokenPath);
+        if (Object.keys(nested).length > 0) {
+          tokens[key] = nested;
+        }
+      }
+    }
+
+    return tokens;
+  }
+
+  private createColorToken(value: any): SourceToken | null {
+    if (typeof value === 'string') {
+      return value.startsWith('#') ? { $value: value, $type: 'color' } : null;
+    }
+    if (!value || typeof value !== 'object') return null;
+
+    if (typeof value.hex === 'string') {
+      return { $value: this.toColorValue(value), $type: 'color' };
+    }
+
+    // Resolved multi-mode colors keep every mode so a custom transform can build themes from them.
+    // The resolver names the collection's default mode when it knows it and always lists it first.
+    // Only maps that name their default mode may hold { hex, reference } objects; otherwise a group
+    // of color tokens would read as a mode map.
+    const modeNames = Object.keys(value).filter(key => key !== 'defaultMode');
+    const modeColors = modeNames.map(mode => typeof value[mode] === 'string' || value.defaultMode ? this.toModeColor(value[mode]) : null);
+    if (modeNames.length === 0 || modeColors.some(color => !color)) return null;
+
+    const modes: Record<string, string> = {};
+    modeNames.forEach((mode, index) => { modes[mode] = this.toColorValue(modeColors[index]!); });
+    const defaultMode = modeNames.indexOf(value.defaultMode) !== -1 ? value.defaultMode : modeNames[0];
+    const token: SourceToken = { $value: modes[defaultMode], $type: 'color' };
+    if (modeNames.length > 1) {
+      token.$extensions = { 'com.figma': { defaultMode, modes } };
+    }
+    return token;
+  }
+
+  // Accepts a hex string, an extracted { hex, reference } or a resolver AliasReference { reference, value }
+  private toModeColor(value: any): { hex: string; reference?: string } | null {
+    if (typeof value === 'string') return value.startsWith('#') ? { hex: value } : null;
+    if (!value || typeof value !== 'object') return null;
+    if (typeof value.hex === 'string') return { hex: value.hex, reference: value.reference };
+    if (typeof value.value === 'string' && value.value.startsWith('#')) return { hex: value.value, reference: value.reference };
+    return null;
+  }
+
+  // A reference is only written once its target is registered; anything else falls back to the hex
+  private toColorValue(color: { hex: string; reference?: string }): string {
+    const target = color.reference ? this.tokenPaths.get(this.toLookupKey(color.reference.split('.'))) : undefined;
+    return target ? `{${target}}` : color.hex;
+  }
+
+  // Built-in transforms have no gradient support, so $value is the finished CSS and the stops ride along for custom ones
+  private buildGradientTokens(gradients: GradientToken[]): Record<string, SourceToken> {
+    const group: Record<string, SourceToken> = {};
+
+    for (const gradient of gradients) {
+      group[this.formatKey(gradient.name.split('/').join('-'))] = {
+        $value: gradient.value,
+        $type: 'gradient',
+        $description: gradient.description,
+        $extensions: { 'com.figma': { type: gradient.gradientType, stops: gradient.stops } }
+      };
+    }
+
+    return group;
+  }
+
+  private buildFontFiles(typography: TypographyToken[]): Record<string, string> {
+    const family: Record<string, SourceToken> = {};
+    const size: Record<string, SourceToken> = {};
+    const weight: Record<string, SourceToken> = {};
+    const lineHeight: Record<string, SourceToken> = {};
+    const letterSpacing: Record<string, SourceToken> = {};
+
+    for (const style of typography) {
+      const key = this.formatKey(style.semanticName || style.name);
+      family[this.formatKey(style.fontFamily)] = { $value: style.fontFamily, $type: 'fontFamily' };
+      size[key] = { $value: `${style.fontSize}px`, $type: 'dimension', $description: style.description };
+      weight[key] = { $value: style.fontWeight, $type: 'fontWeight' };
+      lineHeight[key] = { $value: Math.round((style.lineHeight / style.fontSize) * 1000) / 1000, $type: 'number' };
+      if (style.letterSpacing) {
+        letterSpacing[key] = { $value: `${style.letterSpacing}px`, $type: 'dimension' };
+      }
+    }
+
+    const files: Record<string, string> = {
+      'tokens/font/family.json': this.formatFile({ font: { family } }),
+      'tokens/font/size.json': this.formatFile({ font: { size } }),
+      'tokens/font/weight.json': this.formatFile({ font: { weight } }),
+      'tokens/font/line-height.json': this.formatFile({ font: { 'line-height': lineHeight } })
+    };
+    if (Object.keys(letterSpacing).length > 0) {
+      files['tokens/font/letter-spacing.json'] = this.formatFile({ font: { 'letter-spacing': letterSpacing } });
+    }
+    return files;
+  }
+
+  private buildConfig(): any {
+    return {
+      source: ['tokens/**/*.json'],
+      platforms: {
+        css: {
+          transformGroup: 'css',
+          buildPath: 'build/css/',
+          files: [{ destination: 'variables.css', format: 'css/variables', options: { outputReferences: true } }]
+        },
+        js: {
+          transformGroup: 'js',
+          buildPath: 'build/js/',
+          files: [{ destination: 'tokens.js', format: 'javascript/es6' }]
+        },
+        ios: {
+          transformGroup: 'ios-swift',
+          buildPath: 'build/ios/',
+          files: [{ destination: 'DesignTokens.swift', format: 'ios-swift/class.swift', options: { className: 'DesignTokens' } }]
+        },
+        android: {
+          transformGroup: 'android',
+          buildPath: 'build/android/',
+          files: [
+            { destination: 'colors.xml', format: 'android/colors' },
+            { destination: 'dimens.xml', format: 'android/dimens' },
+            { destination: 'font_dimens.xml', format: 'android/fontDimens' }
+          ]
+        }
+      }
+    };
+  }
+
+  private shouldInclude(option: 'includeColors' | 'includeTypography' | 'includeSpacing'): boolean {
+    return !this.config || this.config[option] !== false;
+  }
+
+  // Single-segment names are filed under `default` (see setNested), so references to them are looked up there too
+  private toLookupKey(path: string[]): string {
+    const segments = path.length === 1 ? ['default'].concat(path) : path;
+    return segments.map(segment => this.formatKey(segment)).join('.');
+  }
+
+  private formatKey(name: string): string {
+    return name.toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'default';
+  }
+
+  private formatFile(content: any): string {
+    return JSON.stringify(content, null, 2);
+  }
+}
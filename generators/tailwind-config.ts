@@ -1,41 +1,223 @@
-import { ColorToken, TypographyToken, SpacingToken, ExtractionConfig } from '../types';
-import { pxToRem } from '../utils/naming';
+import { ColorToken, TypographyToken, SpacingToken, ExtractionConfig, TailwindThemeSources, BlurToken, VariableToken, TypographyProperty } from '../types';
+import { pxToRem, buildFluidTypeScale } from '../utils/naming';
 
 export class TailwindConfigGenerator {
   private config: ExtractionConfig;
+  private sources: TailwindThemeSources = {};
+  // Leading name segments that only repeat the theme key, e.g. 'Spacing/md' -> spacing.md
+  private variablePrefixes: Record<string, string[]> = {
+    'spacing': ['spacing', 'space', 'gap'],
+    'sizing': ['size', 'sizes', 'sizing', 'width', 'height'],
+    'radius': ['radius', 'radii', 'corner', 'corner-radius', 'border-radius', 'rounded'],
+    'border-width': ['border', 'border-width', 'stroke'],
+    'opacity': ['opacity'],
+    'fontSize': ['font-size', 'text', 'size'],
+    'fontWeight': ['font-weight', 'weight'],
+    'lineHeight': ['line-height', 'leading'],
+    'letterSpacing': ['letter-spacing', 'tracking'],
+    'fontFamily': ['font-family', 'font', 'family']
+  };
   
   constructor(config: ExtractionConfig) {
     this.config = config;
   }
 
+  // Gradient, radius, shadow, blur, breakpoint and animation values come from `sources`; without them Tailwind's defaults stay in place.
+  // Radii, shadows and breakpoints found in the file replace Tailwind's scales instead of extending them.
   generateTailwindConfig(
     colors: ColorToken[], 
     typography: TypographyToken[], 
-    spacing: SpacingToken[]
+    spacing: SpacingToken[],
+    sources: TailwindThemeSources = {}
   ): string {
+    if (this.config.tailwindVersion === 'v4') {
+      return this.generateTailwindThemeCSS(colors, typography, spacing, sources);
+    }
+    this.sources = sources;
+
+    const extend: Record<string, any> = {
+      colors: this.generateColorConfig(colors),
+      fontFamily: Object.assign(this.generateFontFamilyConfig(typography), this.generateVariableFontFamilyConfig()),
+      fontSize: Object.assign(this.generateFontSizeConfig(typography), this.generateVariableConfig('typography', 'fontSize')),
+      fontWeight: Object.assign(this.generateFontWeightConfig(typography), this.generateVariableConfig('typography', 'fontWeight')),
+      lineHeight: Object.assign(this.generateLineHeightConfig(typography), this.generateVariableConfig('typography', 'lineHeight')),
+      letterSpacing: Object.assign(this.generateLetterSpacingConfig(typography), this.generateVariableConfig('typography', 'letterSpacing')),
+      spacing: Object.assign(this.generateSpacingConfig(spacing), this.generateVariableConfig('spacing')),
+      width: this.generateVariableConfig('sizing'),
+      height: this.generateVariableConfig('sizing'),
+      borderWidth: this.generateVariableConfig('border-width'),
+      opacity: this.generateVariableConfig('opacity'),
+      backgroundImage: this.generateBackgroundImageConfig(),
+      blur: this.generateBlurConfig('layer'),
+      backdropBlur: this.generateBlurConfig('background'),
+      animation: this.generateAnimationConfig(),
+      keyframes: this.generateKeyframesConfig(),
+      transitionDuration: this.generateTransitionDurationConfig(),
+      transitionTimingFunction: this.generateTransitionTimingConfig()
+    };
+    const theme: Record<string, any> = {};
+    this.assignThemeScale(theme, extend, 'borderRadius', this.generateBorderRadiusConfig());
+    this.assignThemeScale(theme, extend, 'boxShadow', this.generateBoxShadowConfig());
+    this.assignThemeScale(theme, extend, 'screens', this.generateScreenConfig());
+    theme.extend = extend;
+
     const configObject = {
       content: this.generateContentConfig(),
-      theme: {
-        extend: {
-          colors: this.generateColorConfig(colors),
-          fontFamily: this.generateFontFamilyConfig(typography),
-          fontSize: this.generateFontSizeConfig(typography),
-          fontWeight: this.generateFontWeightConfig(typography),
-          lineHeight: this.generateLineHeightConfig(typography),
-          letterSpacing: this.generateLetterSpacingConfig(typography),
-          spacing: this.generateSpacingConfig(spacing),
-          borderRadius: this.generateBorderRadiusConfig(),
-          boxShadow: this.generateBoxShadowConfig(),
-          animation: this.generateAnimationConfig(),
-          screens: this.generateScreenConfig()
-        }
-      },
+      theme,
       plugins: this.generatePluginsConfig()
     };
 
     return this.formatConfigOutput(configObject);
   }
 
+  // Tailwind v4 reads design tokens from CSS: an @theme block of namespaced variables plus @utility rules
+  generateTailwindThemeCSS(
+    colors: ColorToken[], 
+    typography: TypographyToken[], 
+    spacing: SpacingToken[],
+    sources: TailwindThemeSources = {}
+  ): string {
+    const lines: string[] = [];
+    this.sources = sources;
+    
+    lines.push('@import "tailwindcss";');
+    lines.push('');
+    lines.push('@theme {');
+    
+    lines.push('  /* Colors */');
+    const colorConfig = this.generateColorConfig(colors);
+    for (const [name, scale] of Object.entries(colorConfig)) {
+      for (const [step, value] of Object.entries(scale as Record<string, string>)) {
+        lines.push(`  ${this.formatThemeVariable('color', name, step)}: ${value};`);
+      }
+    }
+    
+    lines.push('');
+    lines.push('  /* Typography */');
+    for (const [name, stack] of Object.entries(this.generateFontFamilyConfig(typography))) {
+      lines.push(`  ${this.formatThemeVariable('font', name)}: ${stack.map(font => font.includes(' ') ? `"${font}"` : font).join(', ')};`);
+    }
+    for (const [name, [size, options]] of Object.entries(this.generateFontSizeConfig(typography))) {
+      lines.push(`  ${this.formatThemeVariable('text', name)}: ${size};`);
+      if (options.lineHeight) {
+        lines.push(`  ${this.formatThemeVariable('text', name)}--line-height: ${options.lineHeight};`);
+      }
+      if (options.letterSpacing) {
+        lines.push(`  ${this.formatThemeVariable('text', name)}--letter-spacing: ${options.letterSpacing};`);
+      }
+    }
+    for (const [name, weight] of Object.entries(this.generateFontWeightConfig(typography))) {
+      lines.push(`  ${this.formatThemeVariable('font-weight', name)}: ${weight};`);
+    }
+    for (const [name, value] of Object.entries(this.generateLineHeightConfig(typography))) {
+      lines.push(`  ${this.formatThemeVariable('leading', name)}: ${value};`);
+    }
+    for (const [name, value] of Object.entries(this.generateLetterSpacingConfig(typography))) {
+      lines.push(`  ${this.formatThemeVariable('tracking', name)}: ${value};`);
+    }
+    
+    // Typography variables bound by scope (FONT_SIZE, LINE_HEIGHT, ...) extend the same namespaces
+    const variableNamespaces: Array<[string, TypographyProperty]> = [
+      ['text', 'fontSize'], ['font-weight', 'fontWeight'], ['leading', 'lineHeight'], ['tracking', 'letterSpacing']
+    ];
+    for (const [namespace, property] of variableNamespaces) {
+      for (const [name, value] of Object.entries(this.generateVariableConfig('typography', property))) {
+        lines.push(`  ${this.formatThemeVariable(namespace, name)}: ${value};`);
+      }
+    }
+    for (const [name, stack] of Object.entries(this.generateVariableFontFamilyConfig())) {
+      lines.push(`  ${this.formatThemeVariable('font', name)}: ${stack.map(font => font.includes(' ') ? `"${font}"` : font).join(', ')};`);
+    }
+    
+    // v4 derives numeric spacing (p-4, gap-2.5, ...) from the base unit, so only named steps are listed
+    lines.push('');
+    lines.push('  /* Spacing */');
+    lines.push('  --spacing: 0.25rem;');
+    for (const space of spacing) {
+      const name = this.formatSpacingName(space.semanticName);
+      lines.push(`  ${this.formatThemeVariable('spacing', name)}: ${pxToRem(space.value as number)}rem;`);
+    }
+    for (const [name, value] of Object.entries(this.generateVariableConfig('spacing'))) {
+      lines.push(`  ${this.formatThemeVariable('spacing', name)}: ${value};`);
+    }
+    for (const [name, value] of Object.entries(this.generateVariableConfig('sizing'))) {
+      lines.push(`  ${this.formatThemeVariable('container', name)}: ${value};`);
+    }
+    
+    lines.push('');
+    lines.push('  /* Radius, shadows, blurs and breakpoints */');
+    this.pushThemeScale(lines, 'radius', this.generateBorderRadiusConfig());
+    this.pushThemeScale(lines, 'shadow', this.generateBoxShadowConfig());
+    // v4 drives both blur-* and backdrop-blur-* from the --blur-* namespace
+    const blurs = Object.assign({}, this.generateBlurConfig('layer'), this.generateBlurConfig('background'));
+    for (const [name, value] of Object.entries(blurs)) {
+      lines.push(`  ${this.formatThemeVariable('blur', name)}: ${value};`);
+    }
+    this.pushThemeScale(lines, 'breakpoint', this.generateScreenConfig());
+    
+    lines.push('');
+    lines.push('  /* Animations */');
+    for (const [name, value] of Object.entries(this.generateTransitionTimingConfig())) {
+      lines.push(`  ${this.formatThemeVariable('ease', name)}: ${value};`);
+    }
+    for (const [name, value] of Object.entries(this.generateAnimationConfig())) {
+      lines.push(`  ${this.formatThemeVariable('animate', name)}: ${value};`);
+    }
+    for (const [name, frames] of Object.entries(this.generateKeyframesConfig())) {
+      lines.push('');
+      lines.push(`  @keyframes ${name} {`);
+      for (const [offset, declarations] of Object.entries(frames)) {
+        const body = Object.entries(declarations).map(([property, value]) => `${property}: ${value};`).join(' ');
+        lines.push(`    ${offset} { ${body} }`);
+      }
+      lines.push('  }');
+    }
+    lines.push('}');
+    
+    const utilities = this.generateTypographyUtilities(typography);
+    if (utilities) {
+      lines.push('');
+      lines.push(utilities);
+    }
+    
+    // @theme has no background-image namespace, so gradients ship as utilities
+    for (const [name, value] of Object.entries(this.generateBackgroundImageConfig())) {
+      lines.push('');
+      lines.push(`@utility bg-${name} {`);
+      lines.push(`  background-image: ${value};`);
+      lines.push('}');
+    }
+    
+    return this.formatThemeOutput(lines.join('\n'));
+  }
+
+  // One @utility per text style so a single class applies the whole type ramp step
+  private generateTypographyUtilities(typography: TypographyToken[]): string {
+    const utilities: string[] = [];
+    const seen = new Set<string>();
+    
+    for (const typo of typography) {
+      const name = this.formatTypographyName(typo.semanticName || typo.name);
+      if (seen.has(name)) continue;
+      seen.add(name);
+      
+      utilities.push(`@utility type-${name} {`);
+      utilities.push(`  font-family: var(${this.formatThemeVariable('font', this.formatFontName(typo.fontFamily))});`);
+      utilities.push(`  font-size: var(${this.formatThemeVariable('text', name)});`);
+      utilities.push(`  font-weight: ${typo.fontWeight};`);
+      if (typo.lineHeight) {
+        utilities.push(`  line-height: var(${this.formatThemeVariable('text', name)}--line-height);`);
+      }
+      if (typo.letterSpacing) {
+        utilities.push(`  letter-spacing: var(${this.formatThemeVariable('text', name)}--letter-spacing);`);
+      }
+      utilities.push('}');
+      utilities.push('');
+    }
+    
+    return utilities.join('\n').trim();
+  }
+
   private generateContentConfig(): string[] {
     return [
       './src/**/*.{js,ts,jsx,tsx,html}',
@@ -134,20 +316,25 @@ export class TailwindConfigGenerator {
 
   private generateFontSizeConfig(typography: TypographyToken[]): Record<string, [string, { lineHeight?: string; letterSpacing?: string }]> {
     const fontSizes: Record<string, [string, { lineHeight?: string; letterSpacing?: string }]> = {};
+    const fluid = this.config.fluidTypography;
+    const fluidSizes = fluid && fluid.enabled ? buildFluidTypeScale(typography, fluid) : null;
     
     for (const typo of typography) {
       const name = this.formatTypographyName(typo.semanticName || typo.name);
       const config: { lineHeight?: string; letterSpacing?: string } = {};
       
+      // Fluid sizes need a unitless line height, otherwise the leading stays fixed while the text scales
       if (typo.lineHeight) {
-        config.lineHeight = `${pxToRem(typo.lineHeight)}rem`;
+        config.lineHeight = fluidSizes
+          ? `${Math.round((typo.lineHeight / typo.fontSize) * 1000) / 1000}`
+          : `${pxToRem(typo.lineHeight)}rem`;
       }
       
       if (typo.letterSpacing) {
         config.letterSpacing = `${typo.letterSpacing}px`;
       }
       
-      fontSizes[name] = [`${pxToRem(typo.fontSize)}rem`, config];
+      fontSizes[name] = [fluidSizes ? fluidSizes[typo.name].value : `${pxToRem(typo.fontSize)}rem`, config];
     }
     
     return fontSizes;
@@ -242,53 +429,179 @@ export class TailwindConfigGenerator {
     return spacingConfig;
   }
 
+  // FLOAT variables classified by scope; px values become rem except hairline widths and tracking
+  private generateVariableConfig(category: VariableToken['category'], typographyProperty?: TypographyProperty): Record<string, string> {
+    const values: Record<string, string> = {};
+    const keepPixels = category === 'border-width' || typographyProperty === 'letterSpacing';
+    
+    for (const variable of this.getVariables(category, typographyProperty)) {
+      const name = this.formatTokenName(variable.name, this.variablePrefixes[typographyProperty || category] || []);
+      const value = variable.value as number;
+      values[name] = variable.unit === 'px' && !keepPixels ? `${pxToRem(value)}rem` : variable.unit === 'px' ? `${value}px` : String(value);
+    }
+    
+    return values;
+  }
+
+  private generateVariableFontFamilyConfig(): Record<string, string[]> {
+    const families: Record<string, string[]> = {};
+    
+    for (const variable of this.sources.variables || []) {
+      if (variable.typographyProperty === 'fontFamily' && typeof variable.value === 'string') {
+        families[this.formatTokenName(variable.name, this.variablePrefixes['fontFamily'])] = [variable.value, 'sans-serif'];
+      }
+    }
+    
+    return families;
+  }
+
+  private getVariables(category: VariableToken['category'], typographyProperty?: TypographyProperty): VariableToken[] {
+    return (this.sources.variables || []).filter(variable =>
+      variable.category === category &&
+      variable.typographyProperty === typographyProperty &&
+      typeof variable.value === 'number'
+    );
+  }
+
+  // Named radii come from CORNER_RADIUS variables; radii only seen on nodes are keyed by their pixel value
   private generateBorderRadiusConfig(): Record<string, string> {
-    return {
-      'none': '0px',
-      'sm': '0.125rem',
-      'DEFAULT': '0.25rem',
-      'md': '0.375rem',
-      'lg': '0.5rem',
-      'xl': '0.75rem',
-      '2xl': '1rem',
-      '3xl': '1.5rem',
-      'full': '9999px'
-    };
+    const radii: Record<string, string> = {};
+    const covered = new Set<number>();
+    
+    for (const variable of this.getVariables('radius')) {
+      const name = this.formatTokenName(variable.name, this.variablePrefixes['radius']);
+      radii[name] = this.formatRadius(variable.value as number);
+      covered.add(variable.value as number);
+    }
+    
+    const observed = Array.from(new Set(this.sources.observedRadii || [])).sort((a, b) => a - b);
+    for (const radius of observed) {
+      if (radius > 0 && !covered.has(radius)) {
+        radii[String(radius)] = this.formatRadius(radius);
+      }
+    }
+    
+    return radii;
   }
 
   private generateBoxShadowConfig(): Record<string, string> {
-    return {
-      'sm': '0 1px 2px 0 rgb(0 0 0 / 0.05)',
-      'DEFAULT': '0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)',
-      'md': '0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)',
-      'lg': '0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)',
-      'xl': '0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)',
-      '2xl': '0 25px 50px -12px rgb(0 0 0 / 0.25)',
-      'inner': 'inset 0 2px 4px 0 rgb(0 0 0 / 0.05)',
-      'none': 'none'
-    };
+    const shadows: Record<string, string> = {};
+    
+    for (const token of this.sources.effects || []) {
+      if (token.type === 'shadow') {
+        shadows[this.formatTokenName(token.name, ['shadow', 'shadows', 'elevation', 'effect', 'effects'])] = token.value;
+      }
+    }
+    
+    return shadows;
   }
 
+  private generateBackgroundImageConfig(): Record<string, string> {
+    const images: Record<string, string> = {};
+    
+    for (const gradient of this.sources.gradients || []) {
+      images[this.formatColorName(gradient.semanticName || gradient.name)] = gradient.value;
+    }
+    
+    return images;
+  }
+
+  private generateBlurConfig(blurType: BlurToken['blurType']): Record<string, string> {
+    const blurs: Record<string, string> = {};
+    
+    for (const token of this.sources.effects || []) {
+      if (token.type === 'blur' && token.blurType === blurType) {
+        blurs[this.formatTokenName(token.name, ['blur', 'blurs', 'effect', 'effects'])] = `${token.value}px`;
+      }
+    }
+    
+    return blurs;
+  }
+
+  // Only dissolve and directional transitions have a CSS keyframe equivalent; the most used timing wins per name
   private generateAnimationConfig(): Record<string, string> {
-    return {
-      'fade-in': 'fadeIn 0.5s ease-in-out',
-      'fade-out': 'fadeOut 0.5s ease-in-out',
-      'slide-up': 'slideUp 0.3s ease-out',
-      'slide-down': 'slideDown 0.3s ease-out',
-      'scale-up': 'scaleUp 0.2s ease-out',
-      'scale-down': 'scaleDown 0.2s ease-out'
-    };
+    const animations: Record<string, string> = {};
+    
+    for (const [name, usage] of Object.entries(this.collectTransitionAnimations())) {
+      animations[name] = `${usage.keyframes} ${this.formatDuration(usage.transition.duration)} ${this.formatEasing(usage.transition.easing)}`;
+    }
+    
+    return animations;
+  }
+
+  private generateKeyframesConfig(): Record<string, Record<string, Record<string, string>>> {
+    const keyframes: Record<string, Record<string, Record<string, string>>> = {};
+    
+    for (const usage of Object.values(this.collectTransitionAnimations())) {
+      keyframes[usage.keyframes] = usage.frames;
+    }
+    
+    return keyframes;
+  }
+
+  private generateTransitionDurationConfig(): Record<string, string> {
+    const durations: Record<string, string> = {};
+    
+    for (const transition of this.sources.transitions || []) {
+      const duration = this.formatDuration(transition.duration);
+      durations[duration.replace(/ms$/, '')] = duration;
+    }
+    
+    return durations;
+  }
+
+  private generateTransitionTimingConfig(): Record<string, string> {
+    const easings: Record<string, string> = {};
+    
+    for (const transition of this.sources.transitions || []) {
+      const easing = this.formatEasing(transition.easing);
+      const name = this.getEasingName(transition.easing, Object.keys(easings).length);
+      if (Object.values(easings).indexOf(easing) === -1) {
+        easings[name] = easing;
+      }
+    }
+    
+    return easings;
+  }
+
+  // theme.screens etc. replace the stock scale; theme.extend.screens would append after 2xl and break the min-width order
+  private assignThemeScale(theme: Record<string, any>, extend: Record<string, any>, key: string, values: Record<string, string>): void {
+    if (Object.keys(values).length > 0) {
+      theme[key] = values;
+    } else {
+      extend[key] = values;
+    }
   }
 
+  // `--namespace-*: initial` clears v4's default scale before the file's own values are declared
+  private pushThemeScale(lines: string[], namespace: string, values: Record<string, string>): void {
+    if (Object.keys(values).length === 0) return;
+    lines.push(`  --${namespace}-*: initial;`);
+    for (const [name, value] of Object.entries(values)) {
+      lines.push(`  ${this.formatThemeVariable(namespace, name)}: ${value};`);
+    }
+  }
+
+  // Breakpoints come from grid styles, measured on the frames that use them or from fixed column widths
   private generateScreenConfig(): Record<string, string> {
-    return {
-      'xs': '475px',
-      'sm': '640px',
-      'md': '768px',
-      'lg': '1024px',
-      'xl': '1280px',
-      '2xl': '1536px'
-    };
+    const screens: Array<{ name: string; width: number }> = [];
+    
+    for (const style of this.sources.gridStyles || []) {
+      const width = style.frameWidth || this.getGridContentWidth(style.layoutGrids);
+      if (width) {
+        screens.push({ name: this.formatTokenName(style.name, ['grid', 'grids', 'layout', 'breakpoint', 'breakpoints']), width });
+      }
+    }
+    
+    // min-width breakpoints must be declared smallest first
+    const screenConfig: Record<string, string> = {};
+    screens
+      .sort((a, b) => a.width - b.width)
+      .forEach(screen => {
+        screenConfig[screen.name] = `${Math.round(screen.width)}px`;
+      });
+    
+    return screenConfig;
   }
 
   private generatePluginsConfig(): string[] {
@@ -322,6 +635,38 @@ module.exports = `;
     return header + JSON.stringify(configObject, null, 2);
   }
 
+  private formatThemeOutput(css: string): string {
+    const header = `/**
+ * Tailwind CSS Theme
+ * Generated from Figma Design System
+ * 
+ * Tailwind v4 reads theme values from CSS variables instead of tailwind.config.js.
+ * 
+ * Installation:
+ * 1. Save this file as your main stylesheet (e.g. src/app.css)
+ * 2. Use the generated classes: bg-primary-500, text-heading-lg, type-heading-lg, p-md, rounded-lg
+ * 
+ * Compatible with: Tailwind CSS v4.0+
+ * AI Tool Compatibility: Optimized for Bolt, v0, Loveable, and other AI prototyping tools
+ */
+
+`;
+
+    return header + css + '\n';
+  }
+
+  // DEFAULT keys map to the bare namespace variable (--shadow, --radius); dots are escaped for CSS
+  private formatThemeVariable(namespace: string, name: string, step?: string): string {
+    const parts = [namespace, name];
+    if (step && step !== 'DEFAULT') {
+      parts.push(step);
+    }
+    return '--' + parts
+      .filter(part => part !== 'DEFAULT')
+      .join('-')
+      .replace(/\./g, '\\.');
+  }
+
   // Helper methods for color manipulation
   private lightenColor(hex: string, amount: number): string {
     const color = this.hexToRgb(hex);
@@ -390,6 +735,129 @@ module.exports = `;
     return this.rgbToHex(newR, newG, newB);
   }
 
+  // Helper methods for file-derived theme values
+  private collectTransitionAnimations(): Record<string, { keyframes: string; frames: Record<string, Record<string, string>>; transition: Transition }> {
+    const counts: Record<string, Array<{ transition: Transition; count: number }>> = {};
+    
+    for (const transition of this.sources.transitions || []) {
+      const name = this.getAnimationName(transition);
+      if (!name) continue;
+      
+      const variants = counts[name] || (counts[name] = []);
+      const match = variants.find(variant =>
+        variant.transition.duration === transition.duration &&
+        this.formatEasing(variant.transition.easing) === this.formatEasing(transition.easing)
+      );
+      if (match) {
+        match.count++;
+      } else {
+        variants.push({ transition, count: 1 });
+      }
+    }
+    
+    const animations: Record<string, { keyframes: string; frames: Record<string, Record<string, string>>; transition: Transition }> = {};
+    for (const [name, variants] of Object.entries(counts)) {
+      const mostUsed = variants.sort((a, b) => b.count - a.count)[0];
+      animations[name] = {
+        keyframes: name,
+        frames: this.getKeyframes(mostUsed.transition),
+        transition: mostUsed.transition
+      };
+    }
+    return animations;
+  }
+
+  private getAnimationName(transition: Transition): string | null {
+    if (transition.type === 'DISSOLVE') return 'fade-in';
+    if (!('direction' in transition)) return null;
+    
+    const direction = transition.direction.toLowerCase();
+    if (transition.type === 'MOVE_OUT' || transition.type === 'SLIDE_OUT') return `slide-out-${direction}`;
+    return `slide-in-${direction}`;
+  }
+
+  // Figma directions name where the content travels to, so LEFT enters from the right edge
+  private getKeyframes(transition: Transition): Record<string, Record<string, string>> {
+    if (!('direction' in transition)) {
+      return { from: { opacity: '0' }, to: { opacity: '1' } };
+    }
+    
+    const offsets: Record<string, string> = {
+      LEFT: 'translateX(100%)',
+      RIGHT: 'translateX(-100%)',
+      TOP: 'translateY(100%)',
+      BOTTOM: 'translateY(-100%)'
+    };
+    const exitOffsets: Record<string, string> = {
+      LEFT: 'translateX(-100%)',
+      RIGHT: 'translateX(100%)',
+      TOP: 'translateY(-100%)',
+      BOTTOM: 'translateY(100%)'
+    };
+    
+    if (transition.type === 'MOVE_OUT' || transition.type === 'SLIDE_OUT') {
+      return { from: { transform: 'translate(0, 0)' }, to: { transform: exitOffsets[transition.direction] } };
+    }
+    return { from: { transform: offsets[transition.direction] }, to: { transform: 'translate(0, 0)' } };
+  }
+
+  private formatDuration(seconds: number): string {
+    return `${Math.round(seconds * 1000)}ms`;
+  }
+
+  private formatEasing(easing: Easing): string {
+    switch (easing.type) {
+      case 'EASE_IN': return 'cubic-bezier(0.42, 0, 1, 1)';
+      case 'EASE_OUT': return 'cubic-bezier(0, 0, 0.58, 1)';
+      case 'EASE_IN_AND_OUT': return 'cubic-bezier(0.42, 0, 0.58, 1)';
+      case 'LINEAR': return 'linear';
+      case 'EASE_IN_BACK': return 'cubic-bezier(0.3, -0.05, 0.7, -0.5)';
+      case 'EASE_OUT_BACK': return 'cubic-bezier(0.45, 1.45, 0.8, 1)';
+      case 'EASE_IN_AND_OUT_BACK': return 'cubic-bezier(0.7, -0.4, 0.4, 1.4)';
+      case 'CUSTOM_CUBIC_BEZIER': {
+        const curve = easing.easingFunctionCubicBezier;
+        return curve ? `cubic-bezier(${curve.x1}, ${curve.y1}, ${curve.x2}, ${curve.y2})` : 'ease';
+      }
+      default:
+        // Springs have no cubic-bezier equivalent; ease-out is the closest settle
+        return 'cubic-bezier(0, 0, 0.58, 1)';
+    }
+  }
+
+  private getEasingName(easing: Easing, index: number): string {
+    const names: Record<string, string> = {
+      'EASE_IN': 'in',
+      'EASE_OUT': 'out',
+      'EASE_IN_AND_OUT': 'in-out',
+      'LINEAR': 'linear',
+      'EASE_IN_BACK': 'in-back',
+      'EASE_OUT_BACK': 'out-back',
+      'EASE_IN_AND_OUT_BACK': 'in-out-back'
+    };
+    return names[easing.type] || `${easing.type.toLowerCase().replace(/_/g, '-')}-${index + 1}`;
+  }
+
+  private formatRadius(value: number): string {
+    if (value >= 999) return '9999px';
+    return value === 0 ? '0px' : `${pxToRem(value)}rem`;
+  }
+
+  private getGridContentWidth(layoutGrids: readonly LayoutGrid[]): number | null {
+    const columns = layoutGrids.find(grid => grid.pattern === 'COLUMNS' && grid.alignment !== 'STRETCH') as RowsColsLayoutGrid | undefined;
+    if (!columns || !columns.sectionSize) return null;
+    
+    return columns.count * columns.sectionSize + (columns.count - 1) * columns.gutterSize + 2 * (columns.offset || 0);
+  }
+
+  // 'Radius/md' -> 'md', 'Elevation/Card/Hover' -> 'card-hover'
+  private formatTokenName(name: string, prefixes: string[]): string {
+    const segments = name.split('/').map(segment => this.formatColorName(segment)).filter(segment => segment.length > 0);
+    if (segments.length > 1 && prefixes.indexOf(segments[0]) !== -1) {
+      segments.shift();
+    }
+    return segments.join('-') || 'DEFAULT';
+  }
+
   // Formatting helper methods
   private formatColorName(name: string): string {
     return name.toLowerCase()
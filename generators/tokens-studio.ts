@@ -0,0 +1,394 @@
+import { FigmaVariable, VariableValue, TokensStudioToken, TokensStudioTheme, TokensStudioCollection } from '../types';
+
+/**
+ * Tokens Studio (Figma Tokens) Generator for DeVibe System Plugin
+ * Collections become token sets (one per mode), modes become `$themes`, set order lives in `$metadata`
+ */
+
+interface VariableEntry {
+  resolvedType: string;
+  variable: any;
+}
+
+// Figma scopes that map onto a more specific Tokens Studio type, checked in order
+const FLOAT_SCOPE_TYPES: Array<{ scope: string; type: string }> = [
+  { scope: 'CORNER_RADIUS', type: 'borderRadius' },
+  { scope: 'GAP', type: 'spacing' },
+  { scope: 'WIDTH_HEIGHT', type: 'sizing' },
+  { scope: 'STROKE_FLOAT', type: 'borderWidth' },
+  { scope: 'OPACITY', type: 'opacity' },
+  { scope: 'FONT_SIZE', type: 'fontSizes' },
+  { scope: 'LINE_HEIGHT', type: 'lineHeights' },
+  { scope: 'LETTER_SPACING', type: 'letterSpacing' },
+  { scope: 'FONT_WEIGHT', type: 'fontWeights' },
+  { scope: 'PARAGRAPH_SPACING', type: 'paragraphSpacing' }
+];
+
+const NUMERIC_TYPES = [
+  'number', 'dimension', 'spacing', 'sizing', 'borderRadius', 'borderWidth', 'opacity',
+  'fontSizes', 'lineHeights', 'letterSpacing', 'paragraphSpacing', 'paragraphIndent'
+];
+
+const STRING_TYPES = ['text', 'fontFamilies', 'textCase', 'textDecoration', 'other'];
+
+/**
+ * Token paths use `.` for nesting, so dots inside a Figma name segment are swapped for `_`.
+ * The importer applies the same rule when matching aliases against existing variables.
+ */
+export function variableNameToTokenPath(name: string): string {
+  return name
+    .split('/')
+    .map(segment => segment.trim().replace(/\./g, '_').replace(/[{}]/g, ''))
+    .filter(segment => segment.length > 0)
+    .join('.');
+}
+
+export class TokensStudioGenerator {
+  private tokenPaths: Map<string, string> = new Map();
+
+  /**
+   * Builds a multi-set Tokens Studio file from the raw `extract-basic` structure.
+   * Must run before alias resolution so aliases can be written as `{token.path}` references.
+   */
+  generateFromExtractedData(data: any): string {
+    const collections = data.collections || {};
+    const entries = this.collectVariables(data.variables || {});
+    const output: Record<string, any> = {};
+    const themes: TokensStudioTheme[] = [];
+
+    this.tokenPaths.clear();
+    for (const entry of entries) {
+      this.tokenPaths.set(entry.variable.id, variableNameToTokenPath(entry.variable.name));
+    }
+
+    // Group variables by collection, keeping the order Figma returned the collections in
+    const collectionIds = Object.keys(collections);
+    const byCollection: Record<string, VariableEntry[]> = {};
+    for (const entry of entries) {
+      const collectionId = entry.variable.collectionId || 'default';
+      if (!byCollection[collectionId]) {
+        byCollection[collectionId] = [];
+        if (collectionIds.indexOf(collectionId) === -1) collectionIds.push(collectionId);
+      }
+      byCollection[collectionId].push(entry);
+    }
+
+    const defaultSets: Record<string, string> = {};
+    const setsByCollection: Record<string, Array<{ setName: string; modeId: string; modeName: string }>> = {};
+
+    for (const collectionId of collectionIds) {
+      const collectionEntries = byCollection[collectionId] || [];
+      const collection = collections[collectionId] || { name: 'Variables', modeNames: {} };
+      const modeIds = this.getModeIds(collection, collectionEntries);
+      setsByCollection[collectionId] = [];
+
+      for (const modeId of modeIds) {
+        const modeName = collection.modeNames[modeId] || modeId;
+        const setName = `${collection.name}/${modeName}`;
+        output[setName] = this.buildTokenSet(collectionEntries, modeId);
+        setsByCollection[collectionId].push({ setName, modeId, modeName });
+
+        if (modeId === collection.defaultModeId || !defaultSets[collectionId]) {
+          defaultSets[collectionId] = setName;
+        }
+      }
+    }
+
+    // Each mode is a theme: its own set is enabled, other collections' default sets resolve references
+    for (const collectionId of collectionIds) {
+      const collection = collections[collectionId] || { name: 'Variables' };
+      const variableReferences: Record<string, string> = {};
+      for (const entry of byCollection[collectionId] || []) {
+        variableReferences[variableNameToTokenPath(entry.variable.name)] = entry.variable.id;
+      }
+
+      for (const set of setsByCollection[collectionId]) {
+        const selectedTokenSets: TokensStudioTheme['selectedTokenSets'] = {};
+        for (const otherId of collectionIds) {
+          if (otherId !== collectionId && defaultSets[otherId]) {
+            selectedTokenSets[defaultSets[otherId]] = 'source';
+          }
+        }
+        selectedTokenSets[set.setName] = 'enabled';
+
+        themes.push({
+          id: `${collectionId}:${set.modeId}`,
+          name: set.modeName,
+          group: collection.name,
+          selectedTokenSets,
+          $figmaCollectionId: collectionId,
+          $figmaModeId: set.modeId,
+          $figmaVariableReferences: variableReferences
+        });
+      }
+    }
+
+    output.$themes = themes;
+    output.$metadata = {
+      tokenSetOrder: Object.keys(output).filter(key => key.charAt(0) !== '$')
+    };
+
+    return JSON.stringify(output, null, 2);
+  }
+
+  /**
+   * Rebuilds variable collections from a Tokens Studio file. Theme groups become collections and
+   * themes become modes; files without `$themes` get one single-mode collection per token set.
+   */
+  parseTokensStudio(json: string | Record<string, any>): TokensStudioCollection[] {
+    const data = typeof json === 'string' ? JSON.parse(json) : json;
+    const setNames = Object.keys(data).filter(key => key.charAt(0) !== '$');
+    const themes: TokensStudioTheme[] = Array.isArray(data.$themes) ? data.$themes : [];
+
+    if (themes.length === 0) {
+      return setNames.map(setName => {
+        const collection: TokensStudioCollection = { name: setName, modes: ['Default'], variables: [] };
+        this.addSetToCollection(collection, data[setName], 'Default');
+        return collection;
+      });
+    }
+
+    const collections: TokensStudioCollection[] = [];
+    for (const theme of themes) {
+      const groupName = theme.group || 'Themes';
+      let collection = collections.find(existing => existing.name === groupName);
+      if (!collection) {
+        collection = { name: groupName, modes: [], variables: [] };
+        collections.push(collection);
+      }
+      if (collection.modes.indexOf(theme.name) === -1) {
+        collection.modes.push(theme.name);
+      }
+
+      for (const setName of Object.keys(theme.selectedTokenSets || {})) {
+        if (theme.selectedTokenSets[setName] === 'enabled' && data[setName]) {
+          this.addSetToCollection(collection, data[setName], theme.name);
+        }
+      }
+    }
+
+    return collections;
+  }
+
+  // Export helpers
+
+  private collectVariables(variables: any): VariableEntry[] {
+    const entries: VariableEntry[] = [];
+    const walk = (node: any, resolvedType: string) => {
+      if (!node || typeof node !== 'object') return;
+      if (node.modes && typeof node.id === 'string' && typeof node.name === 'string') {
+        entries.push({ resolvedType, variable: node });
+        return;
+      }
+      for (const key of Object.keys(node)) {
+        walk(node[key], resolvedType);
+      }
+    };
+
+    for (const resolvedType of Object.keys(variables)) {
+      walk(variables[resolvedType], resolvedType);
+    }
+    return entries;
+  }
+
+  private getModeIds(collection: any, entries: VariableEntry[]): string[] {
+    const modeIds = Object.keys(collection.modeNames || {});
+    if (modeIds.length > 0) return modeIds;
+    return entries.length > 0 ? Object.keys(entries[0].variable.modes) : [];
+  }
+
+  private buildTokenSet(entries: VariableEntry[], modeId: string): Record<string, any> {
+    const set: Record<string, any> = {};
+
+    for (const entry of entries) {
+      const variable = entry.variable;
+      const value = this.convertVariableValue(variable.modes[modeId], entry.resolvedType);
+      if (value === undefined) continue;
+
+      const path = variableNameToTokenPath(variable.name);
+      const token: TokensStudioToken = {
+        value,
+        type: this.getTokenType(entry.resolvedType, variable.scopes || [])
+      };
+      if (variable.description) {
+        token.description = variable.description;
+      }
+
+      // Keep what the token path alone cannot carry so an import restores the same variable
+      const figmaExtension: Record<string, any> = {};
+      if (variable.scopes && variable.scopes.length > 0 && variable.scopes.indexOf('ALL_SCOPES') === -1) {
+        figmaExtension.scopes = variable.scopes;
+      }
+      if (path.split('.').join('/') !== variable.name) {
+        figmaExtension.name = variable.name;
+      }
+      if (Object.keys(figmaExtension).length > 0) {
+        token.$extensions = { 'com.figma': figmaExtension };
+      }
+
+      this.setToken(set, path.split('.'), token);
+    }
+
+    return set;
+  }
+
+  private convertVariableValue(value: any, resolvedType: string): any {
+    if (value === undefined || value === null) return undefined;
+
+    if (value.type === 'VARIABLE_ALIAS') {
+      const targetPath = this.tokenPaths.get(value.id);
+      if (!targetPath) {
+        console.warn(`[TokensStudio] Alias target ${value.id} not found`);
+        return undefined;
+      }
+      return `{${targetPath}}`;
+    }
+
+    if (resolvedType === 'COLOR') {
+      if (!value.hex) return undefined;
+      return value.rgb && value.rgb.a !== undefined && value.rgb.a < 1
+        ? value.hex + Math.round(value.rgb.a * 255).toString(16).padStart(2, '0')
+        : value.hex;
+    }
+
+    return typeof value === 'object' ? undefined : value;
+  }
+
+  private getTokenType(resolvedType: string, scopes: string[]): string {
+    if (resolvedType === 'COLOR') return 'color';
+    if (resolvedType === 'BOOLEAN') return 'boolean';
+    if (resolvedType === 'STRING') {
+      return scopes.indexOf('FONT_FAMILY') !== -1 ? 'fontFamilies' : 'text';
+    }
+
+    for (const mapping of FLOAT_SCOPE_TYPES) {
+      if (scopes.indexOf(mapping.scope) !== -1) return mapping.type;
+    }
+    return 'number';
+  }
+
+  private setToken(set: Record<string, any>, path: string[], token: TokensStudioToken): void {
+    let current = set;
+    for (let i = 0; i < path.length - 1; i++) {
+      if (!current[path[i]]) {
+        current[path[i]] = {};
+      } else if (current[path[i]].value !== undefined) {
+        console.warn(`[TokensStudio] Skipping ${path.join('.')}: ${path.slice(0, i + 1).join('.')} is already a token`);
+        return;
+      }
+      current = current[path[i]];
+    }
+    current[path[path.length - 1]] = token;
+  }
+
+  // Import helpers
+
+  private addSetToCollection(collection: TokensStudioCollection, set: any, modeName: string): void {
+    for (const leaf of this.collectTokens(set, [])) {
+      const variable = this.convertToken(leaf.path, leaf.token, modeName);
+      if (!variable) continue;
+
+      const existing = collection.variables.find(candidate => candidate.id === variable.id);
+      if (existing) {
+        existing.modes[modeName] = variable.modes[modeName];
+      } else {
+        collection.variables.push(variable);
+      }
+    }
+  }
+
+  private collectTokens(node: any, path: string[]): Array<{ path: string[]; token: any }> {
+    if (!node || typeof node !== 'object') return [];
+    if (node.value !== undefined || node.$value !== undefined) return [{ path, token: node }];
+
+    let tokens: Array<{ path: string[]; token: any }> = [];
+    for (const key of Object.keys(node)) {
+      if (key.charAt(0) === '$') continue;
+      tokens = tokens.concat(this.collectTokens(node[key], path.concat(key)));
+    }
+    return tokens;
+  }
+
+  private convertToken(path: string[], token: any, modeName: string): FigmaVariable | null {
+    const tokenPath = path.join('.');
+    const rawValue = token.value !== undefined ? token.value : token.$value;
+    const tokenType = token.type || token.$type || 'other';
+    const figmaExtension = (token.$extensions && token.$extensions['com.figma']) || {};
+
+    const resolvedType = this.getResolvedType(tokenType, rawValue);
+    if (!resolvedType) {
+      console.warn(`[TokensStudio] Skipping ${tokenPath}: ${tokenType} tokens have no variable equivalent`);
+      return null;
+    }
+
+    const value = this.convertTokenValue(rawValue, resolvedType);
+    if (!value) {
+      console.warn(`[TokensStudio] Skipping ${tokenPath}: could not convert ${JSON.stringify(rawValue)}`);
+      return null;
+    }
+
+    return {
+      id: tokenPath,
+      name: figmaExtension.name || path.join('/'),
+      description: token.description || token.$description || '',
+      type: resolvedType,
+      scopes: figmaExtension.scopes || this.getDefaultScopes(tokenType),
+      modes: { [modeName]: value }
+    };
+  }
+
+  private getResolvedType(tokenType: string, value: any): string | null {
+    if (tokenType === 'color') return 'COLOR';
+    if (tokenType === 'boolean') return 'BOOLEAN';
+    if (NUMERIC_TYPES.indexOf(tokenType) !== -1) return 'FLOAT';
+    if (tokenType === 'fontWeights') {
+      return typeof value === 'number' || /^\d+$/.test(String(value)) ? 'FLOAT' : 'STRING';
+    }
+    if (STRING_TYPES.indexOf(tokenType) !== -1) return 'STRING';
+    return null;
+  }
+
+  private convertTokenValue(value: any, resolvedType: string): VariableValue | null {
+    const reference = typeof value === 'string' ? /^\{([^{}]+)\}$/.exec(value.trim()) : null;
+    if (reference) {
+      return { type: 'VARIABLE_ALIAS', id: reference[1] };
+    }
+
+    if (resolvedType === 'COLOR') {
+      const match = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(String(value).trim());
+      if (!match) return null;
+
+      let hex = match[1];
+      if (hex.length === 3) {
+        hex = hex.split('').map(char => char + char).join('');
+      }
+      const rgb = {
+        r: parseInt(hex.slice(0, 2), 16),
+        g: parseInt(hex.slice(2, 4), 16),
+        b: parseInt(hex.slice(4, 6), 16),
+        a: hex.length === 8 ? Math.round((parseInt(hex.slice(6, 8), 16) / 255) * 1000) / 1000 : 1
+      };
+      return { hex: `#${hex.slice(0, 6).toLowerCase()}`, rgb };
+    }
+
+    if (resolvedType === 'FLOAT') {
+      const numeric = typeof value === 'number' ? value : parseFloat(String(value));
+      if (isNaN(numeric)) return null;
+      // Tokens Studio resolves rem against a 16px root
+      return { value: /rem$/.test(String(value).trim()) ? numeric * 16 : numeric };
+    }
+
+    if (resolvedType === 'BOOLEAN') {
+      return { value: value === true || value === 'true' };
+    }
+
+    return { value: String(value) };
+  }
+
+  private getDefaultScopes(tokenType: string): string[] {
+    const mapping = FLOAT_SCOPE_TYPES.find(candidate => candidate.type === tokenType);
+    if (mapping) return [mapping.scope];
+    if (tokenType === 'fontFamilies') return ['FONT_FAMILY'];
+    return ['ALL_SCOPES'];
+  }
+}
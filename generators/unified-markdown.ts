@@ -1,3 +1,10 @@
+import { isAliasReference, classifyVariable } from '../utils/variable-resolver';
+import { referenceToCSSVariable, toCSSVariableName, toShadowLayers, formatBoxShadow } from '../utils/naming';
+import { toLayoutRules, formatLayoutCSS, describeLayout, toClassSegment } from '../utils/layout';
+import { outlineNodeTree, formatNodeTrees } from '../utils/node-tree';
+import { buildTokenComponentIndex, formatTokenReference } from '../utils/token-usage';
+import { describeTextContrast } from '../utils/contrast';
+
 /**
  * Unified Markdown Generator for DeVibe System Plugin
  * Transforms comprehensive design system data into AI-optimized markdown
@@ -28,7 +35,11 @@ export class UnifiedMarkdownGenerator {
       this.generateSystemPrompt(),
       this.generateHeader(),
       this.generateDesignTokens(),
+      this.generateContrastMatrix(),
       this.generateComponentLibrary(),
+      this.generateTokenUsageMap(),
+      this.generateHardcodedValues(),
+      this.generateColorClusters(),
       this.generateUsagePatterns(),
       this.generateAIGuidelines()
     ];
@@ -78,7 +89,7 @@ This design system represents the user's actual production design language and m
 **Extracted:** ${metadata.extractedAt || new Date().toISOString()}  
 **Source:** ${this.figmaFileName}  
 **Variables:** ${totalVariables} design tokens  
-**Color Styles:** ${totalPaintStyles}  
+${this.generateModeSummary()}**Color Styles:** ${totalPaintStyles}  
 **Text Styles:** ${totalTextStyles}  
 **Effect Styles:** ${totalEffectStyles}  
 **Layout Styles:** ${totalGridStyles}  
@@ -99,6 +110,20 @@ ${this.generateSystemArchitectureDescription(totalVariables, totalPaintStyles, t
 - **Design Consistency:** ${this.calculateDesignConsistency()}%`;
   }
 
+  private generateModeSummary(): string {
+    const collections = this.data.collections || {};
+    const summaries = Object.keys(collections).map(id => {
+      const collection = collections[id];
+      const modeNames = Object.keys(collection.modeNames || {}).map(modeId => {
+        const name = collection.modeNames[modeId];
+        return modeId === collection.defaultModeId ? `${name} (default)` : name;
+      });
+      return `${collection.name}: ${modeNames.join(', ')}`;
+    });
+
+    return summaries.length > 0 ? `**Variable Modes:** ${summaries.join(' | ')}  \n` : '';
+  }
+
   private generateSystemArchitectureDescription(variables: number, paintStyles: number, textStyles: number, effectStyles: number, gridStyles: number): string {
     const totalStyles = paintStyles + textStyles + effectStyles + gridStyles;
     
@@ -119,11 +144,15 @@ ${this.generateSystemArchitectureDescription(totalVariables, totalPaintStyles, t
     // Colors
     tokens += this.generateColorTokens();
     
+    // Gradients
+    tokens += this.generateGradientTokens();
+    
     // Typography
     tokens += this.generateTypographyTokens();
     
     // Spacing
     tokens += this.generateSpacingTokens();
+    tokens += this.generateVariableTokens();
     
     // Effects
     tokens += this.generateEffectTokens();
@@ -151,9 +180,69 @@ ${this.generateSystemArchitectureDescription(totalVariables, totalPaintStyles, t
 ${JSON.stringify({ colors }, null, 2)}
 \`\`\`
 
+#### CSS Variables
+
+\`\`\`css
+:root {
+${this.generateColorVariables(colors).join('\n')}
+}
+\`\`\`
+
+`;
+  }
+
+  private generateColorVariables(colors: any, path: string[] = []): string[] {
+    const lines: string[] = [];
+
+    for (const [name, value] of Object.entries(colors)) {
+      const currentPath = path.concat(name);
+      if (typeof value === 'string') {
+        lines.push(`  ${toCSSVariableName(currentPath.join('.'))}: ${value};`);
+      } else if (value && typeof value === 'object') {
+        lines.push(...this.generateColorVariables(value, currentPath));
+      }
+    }
+
+    return lines;
+  }
+
+  private generateGradientTokens(): string {
+    const gradients = this.collectGradients(this.data.styles?.paint, []);
+    if (gradients.length === 0) {
+      return '';
+    }
+
+    return `### Gradients
+
+\`\`\`css
+:root {
+${gradients.map(gradient => `  ${toCSSVariableName(['gradient'].concat(gradient.path).join('.'))}: ${gradient.css};`).join('\n')}
+}
+\`\`\`
+
 `;
   }
 
+  // Paint styles are nested by name; a style counts as a gradient when its first visible paint is one
+  private collectGradients(node: any, path: string[]): Array<{ path: string[]; css: string }> {
+    const gradients: Array<{ path: string[]; css: string }> = [];
+
+    for (const [name, value] of Object.entries(node || {})) {
+      if (!value || typeof value !== 'object') continue;
+      const currentPath = path.concat(name);
+      if ((value as any).type === 'PAINT_STYLE') {
+        const paint = ((value as any).paints || []).find((candidate: any) => candidate.visible !== false);
+        if (paint && paint.css) {
+          gradients.push({ path: currentPath, css: paint.css });
+        }
+      } else {
+        gradients.push(...this.collectGradients(value, currentPath));
+      }
+    }
+
+    return gradients;
+  }
+
   private generateTypographyTokens(): string {
     const typography = this.formatTypography();
     if (!typography || Object.keys(typography).length === 0) {
@@ -181,6 +270,21 @@ ${JSON.stringify({ typography }, null, 2)}
 ${JSON.stringify({ spacing }, null, 2)}
 \`\`\`
 
+`;
+  }
+
+  private generateVariableTokens(): string {
+    const { spacing, ...variables } = this.formatVariables();
+    if (Object.keys(variables).length === 0) {
+      return '';
+    }
+
+    return `### Variables
+
+\`\`\`json
+${JSON.stringify({ variables }, null, 2)}
+\`\`\`
+
 `;
   }
 
@@ -196,7 +300,87 @@ ${JSON.stringify({ spacing }, null, 2)}
 ${JSON.stringify({ effects }, null, 2)}
 \`\`\`
 
+#### CSS Variables
+
+\`\`\`css
+:root {
+${this.generateEffectVariables(effects).join('\n')}
+}
+\`\`\`
+
+`;
+  }
+
+  private generateEffectVariables(effects: Record<string, any>): string[] {
+    const lines: string[] = [];
+
+    for (const [name, value] of Object.entries(effects)) {
+      const path = name.split('/');
+      if (value.shadow) {
+        lines.push(`  ${toCSSVariableName(['shadow'].concat(path).join('.'))}: ${value.shadow.css};`);
+      }
+      if (value.blur) {
+        const prefix = value.blur.type === 'background' ? 'backdrop-blur' : 'blur';
+        lines.push(`  ${toCSSVariableName([prefix].concat(path).join('.'))}: ${value.blur.radius}px;`);
+      }
+    }
+
+    return lines;
+  }
+
+  private generateContrastMatrix(): string {
+    const matrix = this.data.contrastMatrix;
+    if (!matrix || matrix.pairs.length === 0) return '';
+
+    const maxForegrounds = 25;
+    const maxBackgrounds = 10;
+    const backgrounds: string[] = matrix.backgrounds.slice(0, maxBackgrounds);
+    const foregrounds: string[] = matrix.foregrounds.slice(0, maxForegrounds);
+    const pairsByKey = new Map<string, any>();
+    for (const pair of matrix.pairs) {
+      pairsByKey.set(`${pair.mode}|${pair.foreground}|${pair.background}`, pair);
+    }
+    const levels = Object.keys(matrix.summary.byLevel).map(level => `${level}: ${matrix.summary.byLevel[level]}`).join(', ');
+
+    let section = `## ♿ Contrast Matrix
+
+WCAG 2.x contrast of every text and icon token on every surface token. AA needs 4.5:1 (3:1 for large text), AAA needs 7:1 (4.5:1 for large text). Only use pairs rated AA or better for body text.
+
+**Pairs:** ${matrix.summary.total} (${levels})
 `;
+
+    for (const mode of matrix.modes) {
+      section += `
+### ${mode === 'default' ? 'All Modes' : `Mode: ${mode}`}
+
+| Foreground \\ Background | ${backgrounds.map(name => `\`${name}\``).join(' | ')} |
+|---|${backgrounds.map(() => '---').join('|')}|
+`;
+      for (const foreground of foregrounds) {
+        const cells = backgrounds.map(background => {
+          const pair = pairsByKey.get(`${mode}|${foreground}|${background}`);
+          if (!pair) return '-';
+          return `${pair.ratio} ${pair.level === 'fail' ? '✗' : pair.level}${pair.apca !== undefined ? ` / Lc ${pair.apca}` : ''}`;
+        });
+        section += `| \`${foreground}\` | ${cells.join(' | ')} |\n`;
+      }
+    }
+
+    if (matrix.foregrounds.length > maxForegrounds || matrix.backgrounds.length > maxBackgrounds) {
+      section += `\nThe full ${matrix.foregrounds.length} × ${matrix.backgrounds.length} matrix is in the contrast JSON export.\n`;
+    }
+
+    const failing = matrix.pairs.filter((pair: any) => pair.level === 'fail');
+    if (failing.length > 0) {
+      section += `\n### Failing Pairs\n\n`;
+      for (const pair of failing.slice(0, 30)) {
+        const mode = pair.mode === 'default' ? '' : ` (${pair.mode})`;
+        section += `- \`${pair.foreground}\` on \`${pair.background}\`${mode}: ${pair.ratio}:1\n`;
+      }
+      if (failing.length > 30) section += `- …and ${failing.length - 30} more\n`;
+    }
+
+    return section;
   }
 
   private generateComponentLibrary(): string {
@@ -235,6 +419,22 @@ ${JSON.stringify({ effects }, null, 2)}
       section += this.generateRealUsageData(component);
     }
     
+    if (component.variantStructures && Object.keys(component.variantStructures).length > 0) {
+      section += this.generateComponentStructure(component);
+    }
+    
+    if (component.layout) {
+      section += this.generateComponentLayout(component);
+    }
+    
+    if (component.tokenUsage && component.tokenUsage.length > 0) {
+      section += this.generateComponentTokens(component);
+    }
+    
+    if (component.accessibility) {
+      section += this.generateComponentContrast(component);
+    }
+    
     if (this.includeImplementations) {
       section += this.generateComponentImplementation(component);
       section += this.generateComponentUsageExamples(component);
@@ -269,13 +469,160 @@ ${JSON.stringify({ effects }, null, 2)}
 - **Variant Diversity:** ${component.variantDiversity || 0} configurations
 - **Component Set:** ${component.componentSet || 'Standalone'}
 
+`;
+  }
+
+  private generateComponentStructure(component: any): string {
+    const trees = component.variantStructures;
+    const first = trees[Object.keys(trees)[0]];
+
+    return `#### Structure
+
+**Layers:** ${outlineNodeTree(first)}
+
+\`\`\`json
+${formatNodeTrees(trees)}
+\`\`\`
+
+`;
+  }
+
+  private generateComponentTokens(component: any): string {
+    let tokens = `#### Tokens Used\n\n`;
+    for (const usage of component.tokenUsage) {
+      tokens += `- **${usage.kind}:** \`${formatTokenReference(usage)}\` (${usage.properties.join(', ')})\n`;
+    }
+    return tokens + `\n`;
+  }
+
+  // Only failing pairs get a row; the summary line already covers the rest
+  private generateComponentContrast(component: any): string {
+    let contrast = `#### Contrast\n\n**Text contrast:** ${describeTextContrast(component.accessibility)}\n\n`;
+    const failing = (component.accessibility.contrastChecks || []).filter((check: any) => check.level === 'fail');
+    if (failing.length === 0) return contrast;
+
+    contrast += `| Variant | Layer | Text | Colors | Ratio | Needs |
+|---------|-------|------|--------|-------|-------|
+`;
+    for (const check of failing) {
+      const colors = `\`${check.foregroundHex}\` on \`${check.backgroundHex}\`${check.estimated ? ' (approx.)' : ''}`;
+      contrast += `| ${check.variant} | ${check.nodeName} | ${check.text.replace(/\|/g, '\\|')} | ${colors} | ${check.ratio}:1 | ${check.largeText ? '3' : '4.5'}:1 |\n`;
+    }
+    return contrast + `\n`;
+  }
+
+  // Token -> component cross-reference across every analyzed component, not just the documented ones
+  private generateTokenUsageMap(): string {
+    const components = this.data.componentAnalysis?.componentUsage || [];
+    const references = buildTokenComponentIndex(components);
+    if (references.length === 0) {
+      return '## 🔗 Token Usage Map\n\nNo components are bound to variables or styles yet.';
+    }
+
+    let map = `## 🔗 Token Usage Map
+
+Which components consume each variable and style. Check this list before changing a token.
+
+| Token | Kind | Source | Components |
+|-------|------|--------|------------|
+`;
+    for (const reference of references) {
+      map += `| \`${formatTokenReference(reference)}\` | ${reference.kind} | ${reference.source} | ${reference.components.join(', ')} |\n`;
+    }
+    return map;
+  }
+
+  private generateHardcodedValues(): string {
+    const report = this.data.componentAnalysis?.hardcodedValues;
+    if (!report) return '';
+    if (report.total === 0) {
+      return '## 🧱 Hard-coded Values\n\nEvery audited fill, stroke, radius, gap, padding and text layer is bound to a variable or style.';
+    }
+
+    const maxRows = 50;
+    const byKind = Object.keys(report.byKind)
+      .filter(kind => report.byKind[kind] > 0)
+      .map(kind => `${kind}: ${report.byKind[kind]}`)
+      .join(', ');
+    const byComponent = Object.keys(report.byComponent)
+      .sort((a, b) => report.byComponent[b] - report.byComponent[a])
+      .slice(0, 10)
+      .map(name => `${name} (${report.byComponent[name]})`)
+      .join(', ');
+
+    let section = `## 🧱 Hard-coded Values
+
+Raw values set where a variable or style was expected, with the closest existing token. Color distance is ΔE; spacing, radius and font size distances are in px. Bind these before adding new tokens.
+
+**Total:** ${report.total}${report.truncated ? ' (audit stopped at the finding limit)' : ''}  
+**By kind:** ${byKind}  
+**Most affected:** ${byComponent}
+
+| Node | Node ID | Component | Property | Value | Nearest token | Distance |
+|------|---------|-----------|----------|-------|---------------|----------|
+`;
+    for (const finding of report.findings.slice(0, maxRows)) {
+      const nearest = finding.nearestToken;
+      const token = nearest ? `\`${formatTokenReference({ token: nearest.name, source: nearest.source })}\`` : '-';
+      section += `| ${finding.path} | \`${finding.nodeId}\` | ${finding.component || '-'}${finding.scope === 'instance' ? ' (instance)' : ''} | ${finding.property} | \`${finding.value}\` | ${token} | ${nearest ? nearest.distance : '-'} |\n`;
+    }
+    if (report.findings.length > maxRows) {
+      section += `\n${report.findings.length - maxRows} more in the hard-coded values JSON export.\n`;
+    }
+    return section;
+  }
+
+  private generateColorClusters(): string {
+    const clusters = this.data.componentAnalysis?.colorClusters;
+    if (!clusters || clusters.length === 0) return '';
+
+    const maxClusters = 20;
+    let section = `## 🎨 Near-Duplicate Colors
+
+Colors close enough (CIEDE2000 ΔE00 < 3) to read as the same in UI. Each group suggests a canonical color: a variable before a style before a raw fill, then the most used. Token usage counts components; raw fill usage counts layers.
+
+`;
+    for (const cluster of clusters.slice(0, maxClusters)) {
+      const canonical = cluster.canonical;
+      const name = canonical.source === 'fill' ? canonical.hex : `\`${formatTokenReference({ token: canonical.name, source: canonical.source })}\``;
+      section += `### ${name}
+
+| Color | Hex | Source | Usage | ΔE00 |
+|-------|-----|--------|-------|------|
+`;
+      cluster.members.forEach((member: any, index: number) => {
+        const label = member.source === 'fill' ? 'raw fill' : `\`${formatTokenReference({ token: member.name, source: member.source })}\``;
+        section += `| ${label}${index === 0 ? ' (canonical)' : ''} | \`${member.hex}\` | ${member.source} | ${member.usage} | ${member.distance} |\n`;
+      });
+      section += '\n';
+    }
+    if (clusters.length > maxClusters) {
+      section += `${clusters.length - maxClusters} more groups in the JSON export.\n`;
+    }
+    return section;
+  }
+
+  private generateComponentLayout(component: any): string {
+    const rules = toLayoutRules(component.layout, toClassSegment(component.name));
+    if (rules.length === 0) return '';
+
+    return `#### Layout
+
+**Auto layout:** ${describeLayout(component.layout)}
+
+\`\`\`css
+${formatLayoutCSS(rules)}
+\`\`\`
+
 `;
   }
 
   private generateComponentImplementation(component: any): string {
     const componentName = this.sanitizeComponentName(component.name);
     const props = this.generateComponentProps(component);
-    const implementation = this.generateComponentCode(componentName, props);
+    const implementation = component.properties && component.properties.length > 0
+      ? this.generatePropertyComponentCode(componentName, props, component.properties)
+      : this.generateComponentCode(componentName, props);
     
     return `#### Implementation
 
@@ -417,31 +764,55 @@ ${this.generateTokenOpportunities()}`;
   }
 
   private formatSpacing(): any {
-    const variables = this.data.variables;
-    const spacingTypes = ['FLOAT', 'STRING']; // Common spacing variable types
-    const spacing: any = {};
-
-    for (const type of spacingTypes) {
-      if (variables[type]) {
-        for (const [name, data] of Object.entries(variables[type])) {
-          if (this.isSpacingVariable(name)) {
-            spacing[name] = this.extractSpacingValue(data);
-          }
-        }
+    return this.formatVariables().spacing || {};
+  }
+
+  // Non-color variables grouped by their scope classification: { spacing: { 'space/4': 16 }, flag: { ... } }
+  private formatVariables(): Record<string, Record<string, any>> {
+    const variables = this.data.variables || {};
+    const grouped: Record<string, Record<string, any>> = {};
+
+    for (const type of ['FLOAT', 'STRING', 'BOOLEAN']) {
+      for (const leaf of this.collectVariableLeaves(variables[type])) {
+        const category = leaf.category || classifyVariable(type, leaf.scopes, leaf.name).category;
+        if (!grouped[category]) grouped[category] = {};
+        grouped[category][leaf.name] = this.extractVariableValue(leaf);
       }
     }
 
-    return spacing;
+    return grouped;
+  }
+
+  private collectVariableLeaves(node: any): any[] {
+    if (!node || typeof node !== 'object') return [];
+    if (node.modes && node.name) return [node];
+
+    let leaves: any[] = [];
+    for (const child of Object.values(node)) {
+      leaves = leaves.concat(this.collectVariableLeaves(child));
+    }
+    return leaves;
   }
 
   private formatEffects(): any {
     const effectStyles = this.data.styles?.effect;
     if (!effectStyles) return {};
 
-    const effects: any = {};
-    
-    for (const [effectName, effectData] of Object.entries(effectStyles)) {
-      effects[effectName] = this.extractEffectValue(effectData);
+    return this.collectEffects(effectStyles, []);
+  }
+
+  // Effect styles are nested by their '/' separated names; flatten them back to 'Elevation/2' keys
+  private collectEffects(node: any, path: string[]): Record<string, any> {
+    const effects: Record<string, any> = {};
+
+    for (const [name, value] of Object.entries(node || {})) {
+      if (!value || typeof value !== 'object') continue;
+      const currentPath = path.concat(name);
+      if ((value as any).type === 'EFFECT_STYLE') {
+        effects[currentPath.join('/')] = this.extractEffectValue(value);
+      } else {
+        Object.assign(effects, this.collectEffects(value, currentPath));
+      }
     }
 
     return effects;
@@ -454,10 +825,19 @@ ${this.generateTokenOpportunities()}`;
       return colorData;
     }
     
+    // Preserved aliases point at the primitive's CSS variable instead of repeating its hex
+    if (isAliasReference(colorData)) {
+      return referenceToCSSVariable(colorData.reference);
+    }
+    
     if (typeof colorData === 'object' && colorData !== null) {
       // Check if this is a mode object (light/dark)
       if (colorData.light || colorData.dark || colorData.default) {
-        return colorData; // Return the mode object as-is for AI tools
+        const modes: any = {};
+        for (const [modeName, modeValue] of Object.entries(colorData)) {
+          modes[modeName] = this.extractColorValue(modeValue);
+        }
+        return modes;
       }
       
       // Handle old format with mode IDs
@@ -470,48 +850,83 @@ ${this.generateTokenOpportunities()}`;
           return modeValue.hex;
         }
         
-        return modeValue;
+        return this.extractColorValue(modeValue);
       }
       
       // If it has a hex property directly
       if (colorData.hex) {
         return colorData.hex;
       }
+      
+      // Nested group (e.g. brand -> primary -> 500)
+      const group: any = {};
+      for (const [name, value] of Object.entries(colorData)) {
+        group[name] = this.extractColorValue(value);
+      }
+      return group;
     }
     
     return colorData;
   }
 
   private extractTypographyValue(styleData: any): any {
-    return {
+    const value: any = {
       fontFamily: styleData.fontFamily,
       fontWeight: styleData.fontWeight,
       fontSize: styleData.fontSize,
       lineHeight: styleData.lineHeight,
       letterSpacing: styleData.letterSpacing
     };
+
+    // Name the variables behind bound fields; their per-mode values are listed under Variables
+    const bindings = Object.entries(styleData.boundVariables || {});
+    if (bindings.length > 0) {
+      const names = this.getVariableNamesById();
+      value.boundVariables = {};
+      for (const [field, variableId] of bindings) {
+        value.boundVariables[field] = names[variableId as string] || variableId;
+      }
+    }
+    return value;
+  }
+
+  private getVariableNamesById(): Record<string, string> {
+    const names: Record<string, string> = {};
+    for (const group of Object.values(this.data.variables || {})) {
+      for (const leaf of this.collectVariableLeaves(group)) {
+        names[leaf.id] = leaf.name;
+      }
+    }
+    return names;
   }
 
-  private extractSpacingValue(data: any): any {
+  private extractVariableValue(data: any): any {
     if (data.modes) {
       const firstMode = Object.keys(data.modes)[0];
-      return data.modes[firstMode];
+      const modeValue = data.modes[firstMode];
+      return isAliasReference(modeValue) ? referenceToCSSVariable(modeValue.reference) : modeValue;
     }
     return data;
   }
 
   private extractEffectValue(effectData: any): any {
-    return {
-      type: effectData.type,
-      effects: effectData.effects
-    };
-  }
+    const effects = effectData.effects || [];
+    const value: any = {};
 
-  private isSpacingVariable(name: string): boolean {
-    const spacingKeywords = ['spacing', 'margin', 'padding', 'gap', 'size'];
-    return spacingKeywords.some(keyword => 
-      name.toLowerCase().includes(keyword)
-    );
+    const layers = toShadowLayers(effects);
+    if (layers.length > 0) {
+      value.shadow = { css: formatBoxShadow(layers), layers };
+    }
+
+    const blur = effects.find((effect: any) => effect.visible !== false && (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR'));
+    if (blur) {
+      value.blur = { type: blur.type === 'BACKGROUND_BLUR' ? 'background' : 'layer', radius: blur.radius };
+    }
+
+    if (effectData.description) {
+      value.description = effectData.description;
+    }
+    return value;
   }
 
   private sanitizeComponentName(name: string): string {
@@ -526,6 +941,15 @@ ${this.generateTokenOpportunities()}`;
     props += `  children?: React.ReactNode;\n`;
     props += `  className?: string;\n`;
     
+    // Figma component properties are the real API; the generic variant/size pair is only a fallback
+    if (component.properties && component.properties.length > 0) {
+      for (const prop of this.getFigmaProps(component.properties)) {
+        props += `  /** ${prop.description}${prop.default !== undefined ? ` (default: ${JSON.stringify(prop.default)})` : ''} */\n`;
+        props += `  ${prop.name}?: ${this.getPropTypeAnnotation(prop)};\n`;
+      }
+      return props + `}`;
+    }
+    
     if (variants > 1) {
       props += `  variant?: 'default' | 'primary' | 'secondary';\n`;
       props += `  size?: 'sm' | 'md' | 'lg';\n`;
@@ -536,6 +960,20 @@ ${this.generateTokenOpportunities()}`;
     return props;
   }
 
+  // children and className are always declared, so Figma properties with those names are dropped
+  private getFigmaProps(properties: any[]): any[] {
+    return properties.filter(prop => prop.name !== 'children' && prop.name !== 'className');
+  }
+
+  private getPropTypeAnnotation(prop: any): string {
+    if (prop.type === 'boolean') return 'boolean';
+    if (prop.type === 'node') return 'React.ReactNode';
+    if (prop.enumValues && prop.enumValues.length > 0) {
+      return prop.enumValues.map((value: string) => `'${value}'`).join(' | ');
+    }
+    return 'string';
+  }
+
   private generateComponentCode(componentName: string, props: string): string {
     return `${props}
 
@@ -567,6 +1005,39 @@ export function ${componentName}({
 }`;
   }
 
+  // Enum props become BEM modifiers; the remaining props are destructured for the markup to use
+  private generatePropertyComponentCode(componentName: string, props: string, properties: any[]): string {
+    const base = componentName.toLowerCase();
+    const names = this.getFigmaProps(properties).map(prop => prop.default !== undefined && prop.type !== 'node'
+      ? `${prop.name} = ${JSON.stringify(prop.default)}`
+      : prop.name);
+    const modifiers = properties
+      .filter(prop => prop.enumValues && prop.enumValues.length > 0)
+      .map(prop => `        \`${base}--\${${prop.name}}\`,`);
+
+    return `${props}
+
+export function ${componentName}({
+  children,
+  className,
+${names.map(name => `  ${name},`).join('\n')}
+  ...props
+}: ${componentName}Props) {
+  return (
+    <div
+      className={cn(
+        "${base}",
+${modifiers.join('\n')}
+        className
+      )}
+      {...props}
+    >
+      {children}
+    </div>
+  );
+}`;
+  }
+
   private generateUsageExamples(componentName: string, component: any): string {
     const examples = [
       `// Basic usage\n<${componentName}>Content</${componentName}>`,
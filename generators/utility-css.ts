@@ -1,5 +1,5 @@
-import { ColorToken, TypographyToken, SpacingToken, ExtractionConfig } from '../types';
-import { generateSemanticName, pxToRem } from '../utils/naming';
+import { ColorToken, TypographyToken, TypographyModeValue, FluidFontSize, SpacingToken, EffectToken, GradientToken, VariableToken, ExtractionConfig } from '../types';
+import { generateSemanticName, pxToRem, buildFluidTypeScale } from '../utils/naming';
 
 export class UtilityCSSGenerator {
   private config: ExtractionConfig;
@@ -11,7 +11,10 @@ export class UtilityCSSGenerator {
   generateUtilityCSS(
     colors: ColorToken[], 
     typography: TypographyToken[], 
-    spacing: SpacingToken[]
+    spacing: SpacingToken[],
+    effects: EffectToken[] = [],
+    gradients: GradientToken[] = [],
+    variables: VariableToken[] = []
   ): string {
     const cssBlocks: string[] = [];
     
@@ -19,11 +22,14 @@ export class UtilityCSSGenerator {
     cssBlocks.push(this.generateCSSHeader());
     
     // Generate CSS custom properties
-    cssBlocks.push(this.generateCSSVariables(colors, typography, spacing));
+    cssBlocks.push(this.generateCSSVariables(colors, typography, spacing, effects, gradients, variables));
     
     // Generate utility classes
     if (this.config.includeColors) {
       cssBlocks.push(this.generateColorUtilities(colors));
+      if (gradients.length > 0) {
+        cssBlocks.push(this.generateGradientUtilities(gradients));
+      }
     }
     
     if (this.config.includeTypography) {
@@ -34,6 +40,10 @@ export class UtilityCSSGenerator {
       cssBlocks.push(this.generateSpacingUtilities(spacing));
     }
     
+    if (effects.length > 0) {
+      cssBlocks.push(this.generateEffectUtilities(effects));
+    }
+    
     // Add responsive utilities
     cssBlocks.push(this.generateResponsiveUtilities(colors, typography, spacing));
     
@@ -65,33 +75,47 @@ export class UtilityCSSGenerator {
   private generateCSSVariables(
     colors: ColorToken[], 
     typography: TypographyToken[], 
-    spacing: SpacingToken[]
+    spacing: SpacingToken[],
+    effects: EffectToken[],
+    gradients: GradientToken[],
+    variableTokens: VariableToken[]
   ): string {
     const variables: string[] = [];
+    const defaultModes = this.collectDefaultModes(colors);
     
-    variables.push(':root {');
+    // The default mode also gets a data-theme selector so nested scopes can switch back to it
+    const rootSelector = defaultModes.length > 0
+      ? [':root', ...defaultModes.map(mode => `[data-theme="${this.formatVariableName(mode)}"]`)].join(',\n')
+      : ':root';
+    variables.push(`${rootSelector} {`);
     variables.push('  /* Design System Colors */');
     
-    // Color variables
+    // Color variables - aliased colors point at the variable of the color they reference
+    const referenceTargets = this.buildReferenceTargets(colors);
     for (const color of colors) {
-      const name = this.formatVariableName(color.semanticName || color.name);
-      variables.push(`  --color-${name}: ${color.hex};`);
-      variables.push(`  --color-${name}-rgb: ${color.rgb.r}, ${color.rgb.g}, ${color.rgb.b};`);
+      variables.push(...this.generateColorVariableLines(color, color, referenceTargets, '  '));
+    }
+    
+    if (gradients.length > 0) {
+      variables.push('');
+      variables.push('  /* Gradient Variables */');
+      for (const gradient of gradients) {
+        variables.push(`  --${this.formatVariableName(gradient.semanticName || gradient.name)}: ${gradient.value};`);
+      }
     }
     
     variables.push('');
     variables.push('  /* Typography Variables */');
     
-    // Typography variables
+    // Typography variables - `--font-<name>` is the composite value for the `font` shorthand
+    const fluidSizes = this.getFluidSizes(typography);
+    if (fluidSizes) {
+      const { minViewport, maxViewport } = this.config.fluidTypography!;
+      variables.push(`  /* Fluid sizes scale between ${minViewport}px and ${maxViewport}px viewports */`);
+    }
     for (const typo of typography) {
-      const name = this.formatVariableName(typo.semanticName || typo.name);
-      variables.push(`  --font-${name}-family: "${typo.fontFamily}";`);
-      variables.push(`  --font-${name}-size: ${typo.fontSize}px;`);
-      variables.push(`  --font-${name}-weight: ${typo.fontWeight};`);
-      variables.push(`  --font-${name}-line-height: ${typo.lineHeight}px;`);
-      if (typo.letterSpacing) {
-        variables.push(`  --font-${name}-letter-spacing: ${typo.letterSpacing}px;`);
-      }
+      const value = { ...typo, letterSpacing: typo.letterSpacing || 0 };
+      variables.push(...this.generateTypographyVariableLines(typo, value, '  ', fluidSizes ? fluidSizes[typo.name] : undefined));
     }
     
     variables.push('');
@@ -104,11 +128,231 @@ export class UtilityCSSGenerator {
       variables.push(`  --space-${name}-rem: ${pxToRem(space.value as number)}rem;`);
     }
     
+    if (effects.length > 0) {
+      variables.push('');
+      variables.push('  /* Shadow & Blur Variables */');
+      
+      for (const effect of effects) {
+        const name = this.formatVariableName(effect.semanticName || effect.name);
+        variables.push(effect.type === 'shadow'
+          ? `  --${name}: ${effect.value};`
+          : `  --${name}: ${effect.value}px;`);
+      }
+    }
+    
+    const variableLines = this.generateVariableTokenLines(variableTokens);
+    if (variableLines.length > 0) {
+      variables.push('');
+      variables.push('  /* Variable Tokens */');
+      variables.push(...variableLines);
+    }
+    
     variables.push('}');
     
+    const themes = this.generateThemeVariables(colors, referenceTargets);
+    if (themes) {
+      variables.push('');
+      variables.push(themes);
+    }
+    
+    // Fluid sizes already cover the range the per-mode breakpoint steps would
+    const typographyModes = fluidSizes ? '' : this.generateTypographyModeVariables(typography);
+    if (typographyModes) {
+      variables.push('');
+      variables.push(typographyModes);
+    }
+    
     return variables.join('\n');
   }
 
+  // A fluid size swaps the px values for a clamp() and a unitless line height that scales with it
+  private generateTypographyVariableLines(typo: TypographyToken, value: TypographyModeValue, indent: string, fluidSize?: FluidFontSize): string[] {
+    const name = this.formatVariableName(typo.semanticName || typo.name);
+    const size = fluidSize ? fluidSize.value : `${value.fontSize}px`;
+    const lineHeight = fluidSize ? `${Math.round((value.lineHeight / value.fontSize) * 1000) / 1000}` : `${value.lineHeight}px`;
+    const lines = [
+      `${indent}--font-${name}: ${value.fontWeight} ${size}/${lineHeight} "${value.fontFamily}";`,
+      `${indent}--font-${name}-family: "${value.fontFamily}";`,
+      `${indent}--font-${name}-size: ${size};`,
+      `${indent}--font-${name}-weight: ${value.fontWeight};`,
+      `${indent}--font-${name}-line-height: ${lineHeight};`
+    ];
+    if (this.hasLetterSpacing(typo)) {
+      lines.push(`${indent}--font-${name}-letter-spacing: ${value.letterSpacing}px;`);
+    }
+    return lines;
+  }
+
+  // Text styles bound to multi-mode variables; breakpoint-like modes become min-width media queries
+  private generateTypographyModeVariables(typography: TypographyToken[]): string {
+    const modes: string[] = [];
+    for (const typo of typography) {
+      for (const mode of Object.keys(typo.modes || {})) {
+        if (mode !== typo.defaultMode && modes.indexOf(mode) === -1) modes.push(mode);
+      }
+    }
+    modes.sort((a, b) => this.getBreakpointWidth(a) - this.getBreakpointWidth(b));
+    
+    const blocks: string[] = [];
+    for (const mode of modes) {
+      const width = this.getBreakpointWidth(mode);
+      const indent = width > 0 ? '    ' : '  ';
+      const lines: string[] = [];
+      for (const typo of typography) {
+        if (typo.modes && typo.modes[mode] && mode !== typo.defaultMode) {
+          lines.push(...this.generateTypographyVariableLines(typo, typo.modes[mode], indent));
+        }
+      }
+      
+      blocks.push(`/* ${mode} type scale */`);
+      if (width > 0) {
+        blocks.push(`@media (min-width: ${width}px) {`);
+        blocks.push('  :root {');
+        blocks.push(...lines);
+        blocks.push('  }');
+      } else {
+        blocks.push(`[data-theme="${this.formatVariableName(mode)}"] {`);
+        blocks.push(...lines);
+      }
+      blocks.push('}');
+      blocks.push('');
+    }
+    
+    return blocks.join('\n').trim();
+  }
+
+  private getBreakpointWidth(mode: string): number {
+    const lowerMode = mode.toLowerCase();
+    const explicitWidth = lowerMode.match(/\d{3,4}/);
+    if (explicitWidth) return parseInt(explicitWidth[0], 10);
+    
+    const widths: Array<[RegExp, number]> = [
+      [/\b(tablet|md)\b/, 768],
+      [/\b(laptop|desktop|lg)\b/, 1024],
+      [/\b(wide|widescreen|xl)\b/, 1280]
+    ];
+    const match = widths.find(([pattern]) => pattern.test(lowerMode));
+    return match ? match[1] : 0;
+  }
+
+  private getFluidSizes(typography: TypographyToken[]): Record<string, FluidFontSize> | null {
+    const options = this.config.fluidTypography;
+    return options && options.enabled && typography.length > 0 ? buildFluidTypeScale(typography, options) : null;
+  }
+
+  private hasLetterSpacing(typo: TypographyToken): boolean {
+    return !!typo.letterSpacing || Object.values(typo.modes || {}).some(value => value.letterSpacing !== 0);
+  }
+
+  // Flags and plain strings have no CSS meaning; aliased values stay var() references when the target is emitted too
+  private generateVariableTokenLines(tokens: VariableToken[]): string[] {
+    const lines: string[] = [];
+    const emitted = tokens.filter(token => token.category !== 'flag' && token.category !== 'string');
+    const names: Record<string, string> = {};
+    for (const token of emitted) {
+      names[token.name.split('/').join('.')] = this.formatVariableName(token.semanticName || token.name);
+    }
+    
+    for (const token of emitted) {
+      const name = this.formatVariableName(token.semanticName || token.name);
+      const value = token.reference && names[token.reference]
+        ? `var(--${names[token.reference]})`
+        : this.formatVariableTokenValue(token);
+      lines.push(`  --${name}: ${value};`);
+    }
+    
+    return lines;
+  }
+  
+  private formatVariableTokenValue(token: VariableToken): string {
+    if (token.typographyProperty === 'fontFamily') return `"${token.value}"`;
+    return token.unit === 'px' ? `${token.value}px` : String(token.value);
+  }
+
+  // Every non-default variable mode becomes its own [data-theme] scope, plus a media query where one applies
+  private generateThemeVariables(colors: ColorToken[], referenceTargets: Record<string, string>): string {
+    const blocks: string[] = [];
+    
+    for (const mode of this.collectThemeModes(colors)) {
+      const lines: string[] = [];
+      for (const color of colors) {
+        if (color.modes && color.modes[mode] && mode !== color.defaultMode) {
+          lines.push(...this.generateColorVariableLines(color, color.modes[mode], referenceTargets, '  '));
+        }
+      }
+      if (lines.length === 0) continue;
+      
+      const theme = this.formatVariableName(mode);
+      blocks.push(`/* ${mode} theme */`);
+      blocks.push(`[data-theme="${theme}"] {`);
+      blocks.push(...lines);
+      blocks.push('}');
+      
+      const mediaQuery = this.getThemeMediaQuery(theme);
+      if (mediaQuery) {
+        // Only follows the OS preference when no theme has been chosen explicitly
+        blocks.push('');
+        blocks.push(`@media ${mediaQuery} {`);
+        blocks.push('  :root:not([data-theme]) {');
+        blocks.push(...lines.map(line => `  ${line}`));
+        blocks.push('  }');
+        blocks.push('}');
+      }
+      blocks.push('');
+    }
+    
+    return blocks.join('\n').trim();
+  }
+
+  private generateColorVariableLines(
+    color: ColorToken,
+    value: { hex: string; rgb: { r: number; g: number; b: number }; reference?: string },
+    referenceTargets: Record<string, string>,
+    indent: string
+  ): string[] {
+    const name = this.formatVariableName(color.semanticName || color.name);
+    const target = value.reference ? referenceTargets[this.formatVariableName(value.reference)] : undefined;
+    if (target && target !== name) {
+      return [
+        `${indent}--color-${name}: var(--color-${target});`,
+        `${indent}--color-${name}-rgb: var(--color-${target}-rgb);`
+      ];
+    }
+    return [
+      `${indent}--color-${name}: ${value.hex};`,
+      `${indent}--color-${name}-rgb: ${value.rgb.r}, ${value.rgb.g}, ${value.rgb.b};`
+    ];
+  }
+
+  private collectDefaultModes(colors: ColorToken[]): string[] {
+    const modes: string[] = [];
+    for (const color of colors) {
+      if (color.defaultMode && modes.indexOf(color.defaultMode) === -1) {
+        modes.push(color.defaultMode);
+      }
+    }
+    return modes;
+  }
+
+  private collectThemeModes(colors: ColorToken[]): string[] {
+    const defaultModes = this.collectDefaultModes(colors);
+    const modes: string[] = [];
+    for (const color of colors) {
+      for (const mode of Object.keys(color.modes || {})) {
+        if (defaultModes.indexOf(mode) === -1 && modes.indexOf(mode) === -1) {
+          modes.push(mode);
+        }
+      }
+    }
+    return modes;
+  }
+
+  private getThemeMediaQuery(theme: string): string | null {
+    if (theme.includes('dark')) return '(prefers-color-scheme: dark)';
+    if (theme.includes('contrast')) return '(prefers-contrast: more)';
+    return null;
+  }
+
   private generateColorUtilities(colors: ColorToken[]): string {
     const utilities: string[] = [];
     
@@ -145,6 +389,25 @@ export class UtilityCSSGenerator {
     return utilities.join('\n');
   }
 
+  private generateGradientUtilities(gradients: GradientToken[]): string {
+    const utilities: string[] = [];
+    
+    utilities.push('/* Gradient Utilities - Use these instead of a flat fallback color */');
+    utilities.push('');
+    
+    for (const gradient of gradients) {
+      const name = this.formatClassName(gradient.semanticName || gradient.name);
+      const cssVar = `var(--${this.formatVariableName(gradient.semanticName || gradient.name)})`;
+      
+      utilities.push(`/* ${gradient.name}: ${gradient.description} */`);
+      utilities.push(`.bg-${name} { background-image: ${cssVar}; }`);
+      utilities.push(`.text-${name} { background-image: ${cssVar}; -webkit-background-clip: text; background-clip: text; color: transparent; }`);
+    }
+    utilities.push('');
+    
+    return utilities.join('\n');
+  }
+
   private generateTypographyUtilities(typography: TypographyToken[]): string {
     const utilities: string[] = [];
     
@@ -159,12 +422,9 @@ export class UtilityCSSGenerator {
       utilities.push(`/* Usage: ${typo.usage ? typo.usage.join(', ') : 'General typography'} */`);
       
       const properties: string[] = [];
-      properties.push(`font-family: var(--font-${this.formatVariableName(typo.semanticName || typo.name)}-family)`);
-      properties.push(`font-size: var(--font-${this.formatVariableName(typo.semanticName || typo.name)}-size)`);
-      properties.push(`font-weight: var(--font-${this.formatVariableName(typo.semanticName || typo.name)}-weight)`);
-      properties.push(`line-height: var(--font-${this.formatVariableName(typo.semanticName || typo.name)}-line-height)`);
+      properties.push(`font: var(--font-${this.formatVariableName(typo.semanticName || typo.name)})`);
       
-      if (typo.letterSpacing) {
+      if (this.hasLetterSpacing(typo)) {
         properties.push(`letter-spacing: var(--font-${this.formatVariableName(typo.semanticName || typo.name)}-letter-spacing)`);
       }
       
@@ -243,6 +503,35 @@ export class UtilityCSSGenerator {
     return utilities.join('\n');
   }
 
+  private generateEffectUtilities(effects: EffectToken[]): string {
+    const utilities: string[] = [];
+    
+    utilities.push('/* Shadow & Blur Utilities - Elevation straight from Figma effect styles */');
+    utilities.push('');
+    
+    for (const effect of effects) {
+      const name = this.formatClassName(effect.semanticName || effect.name);
+      const cssVar = `var(--${this.formatVariableName(effect.semanticName || effect.name)})`;
+      
+      utilities.push(`/* ${effect.name}: ${effect.description} */`);
+      if (effect.type === 'shadow') {
+        // box-shadow has no per-layer blend mode, so note it rather than drop it silently
+        const blendModes = effect.layers.filter(layer => layer.blendMode !== 'NORMAL').map(layer => layer.blendMode);
+        if (blendModes.length > 0) {
+          utilities.push(`/* Figma blend modes not applied: ${blendModes.join(', ')} */`);
+        }
+        utilities.push(`.${name} { box-shadow: ${cssVar}; }`);
+      } else if (effect.blurType === 'background') {
+        utilities.push(`.${name} { -webkit-backdrop-filter: blur(${cssVar}); backdrop-filter: blur(${cssVar}); }`);
+      } else {
+        utilities.push(`.${name} { filter: blur(${cssVar}); }`);
+      }
+    }
+    utilities.push('');
+    
+    return utilities.join('\n');
+  }
+
   private generateResponsiveUtilities(
     colors: ColorToken[], 
     typography: TypographyToken[], 
@@ -336,6 +625,15 @@ export class UtilityCSSGenerator {
     return utilities.join('\n');
   }
 
+  // Maps a color's Figma path (e.g. brand-primary-500) to the variable name it is emitted under
+  private buildReferenceTargets(colors: ColorToken[]): Record<string, string> {
+    const targets: Record<string, string> = {};
+    for (const color of colors) {
+      targets[this.formatVariableName(color.name)] = this.formatVariableName(color.semanticName || color.name);
+    }
+    return targets;
+  }
+
   private formatClassName(name: string): string {
     return name.toLowerCase()
       .replace(/[^a-z0-9\-]/g, '-')
@@ -0,0 +1,157 @@
+import { DesignTokensGenerator } from '../generators/design-tokens';
+
+// Mock extract-basic structure (variables nested by name, aliases not yet resolved)
+const mockExtractedData = {
+  variables: {
+    COLOR: {
+      brand: {
+        '500': {
+          id: 'VariableID:1:1',
+          description: 'Primary brand color',
+          scopes: ['ALL_SCOPES'],
+          modes: {
+            '1:0': { hex: '#0066cc', rgb: { r: 0, g: 102, b: 204 } },
+            '1:1': { hex: '#3399ff', rgb: { r: 51, g: 153, b: 255 } }
+          }
+        }
+      },
+      overlay: {
+        scrim: {
+          id: 'VariableID:1:3',
+          description: '',
+          scopes: ['FRAME_FILL'],
+          modes: {
+            '1:0': { hex: '#000000', rgb: { r: 0, g: 0, b: 0, a: 0.5 } }
+          }
+        }
+      },
+      semantic: {
+        content: {
+          primary: {
+            id: 'VariableID:1:2',
+            description: '',
+            scopes: ['TEXT_FILL'],
+            codeSyntax: { WEB: 'var(--text-primary)', iOS: 'Color.textPrimary' },
+            modes: {
+              '1:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' },
+              '1:1': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' }
+            }
+          }
+        }
+      }
+    },
+    FLOAT: {
+      spacing: {
+        md: { id: 'VariableID:2:1', description: '', scopes: ['GAP'], modes: { '2:0': 16 } }
+      }
+    }
+  },
+  styles: {
+    paint: {},
+    text: {
+      heading: {
+        lg: {
+          id: 'S:1',
+          description: '',
+          type: 'TEXT_STYLE',
+          fontFamily: 'Inter',
+          fontWeight: 'Semi Bold',
+          fontSize: 24,
+          lineHeight: { unit: 'PIXELS', value: 32 },
+          letterSpacing: { unit: 'PERCENT', value: -2 }
+        }
+      }
+    },
+    effect: {
+      elevation: {
+        sm: {
+          id: 'S:2',
+          description: '',
+          type: 'EFFECT_STYLE',
+          effects: [{
+            type: 'DROP_SHADOW',
+            visible: true,
+            radius: 4,
+            spread: 0,
+            offset: { x: 0, y: 2 },
+            color: { hex: '#000000', rgb: { r: 0, g: 0, b: 0, a: 0.25 } }
+          }]
+        }
+      }
+    },
+    grid: {}
+  }
+};
+
+export async function runDesignTokensTests(): Promise<void> {
+  console.log('🧪 Starting W3C Design Tokens Generator Tests...\n');
+
+  const generator = new DesignTokensGenerator();
+  const tokens = JSON.parse(generator.generateFromExtractedData(mockExtractedData));
+
+  // Test 1: Primitive colors
+  console.log('Test 1: Primitive colors');
+  const brand = tokens.color?.brand?.['500'];
+  if (brand && brand.$value === '#0066cc' && brand.$type === 'color' && brand.$description === 'Primary brand color') {
+    console.log('✅ Primitive color emitted with $value, $type and $description');
+  } else {
+    console.log('❌ Primitive color incorrect:', brand);
+  }
+  const scrim = tokens.color?.overlay?.scrim;
+  if (scrim && scrim.$value === '#00000080') {
+    console.log('✅ Translucent color keeps its alpha');
+  } else {
+    console.log('❌ Translucent color lost its alpha:', scrim);
+  }
+  console.log();
+
+  // Test 2: Alias references
+  console.log('Test 2: Alias references');
+  const contentPrimary = tokens.color?.semantic?.content?.primary;
+  if (contentPrimary && contentPrimary.$value === '{color.brand.500}') {
+    console.log('✅ Alias kept as {color.brand.500} reference');
+  } else {
+    console.log('❌ Alias reference not preserved:', contentPrimary);
+  }
+  console.log();
+
+  // Test 3: Spacing, typography and shadow
+  console.log('Test 3: Spacing, typography and shadow');
+  const spacing = tokens.spacing?.md;
+  const heading = tokens.typography?.heading?.lg;
+  const shadow = tokens.shadow?.elevation?.sm;
+  if (spacing && spacing.$type === 'dimension' && spacing.$value === '16px') {
+    console.log('✅ Spacing variable emitted as dimension');
+  } else {
+    console.log('❌ Spacing token incorrect:', spacing);
+  }
+  if (heading && heading.$value.fontWeight === 600 && heading.$value.lineHeight === 1.333) {
+    console.log('✅ Text style emitted as composite typography token');
+  } else {
+    console.log('❌ Typography token incorrect:', heading);
+  }
+  if (shadow && shadow.$type === 'shadow' && shadow.$value.color === '#00000040') {
+    console.log('✅ Effect style emitted as shadow token');
+  } else {
+    console.log('❌ Shadow token incorrect:', shadow);
+  }
+  console.log();
+
+  // Test 4: Code syntax carried through
+  console.log('Test 4: Code syntax');
+  const codeSyntax = contentPrimary?.$extensions?.['com.figma']?.codeSyntax;
+  if (codeSyntax && codeSyntax.WEB === 'var(--text-primary)' && codeSyntax.iOS === 'Color.textPrimary') {
+    console.log('✅ Figma code syntax kept in $extensions');
+  } else {
+    console.log('❌ Code syntax missing:', contentPrimary);
+  }
+  console.log();
+
+  console.log('🎉 All Design Tokens Tests Completed!\n');
+}
+
+// Export test runner for use in browser console or test environment
+export const DesignTokensTestSuite = {
+  runAll: runDesignTokensTests,
+  mockData: mockExtractedData
+};
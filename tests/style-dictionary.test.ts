@@ -0,0 +1,119 @@
+import { StyleDictionaryGenerator } from '../generators/style-dictionary';
+
+// Mock extract-basic structure with ungrouped primitives, a semantic alias and a two-mode theme color
+const mockExtractedData = {
+  collections: {
+    'VariableCollectionId:1:0': {
+      name: 'Primitives',
+      defaultModeId: '1:0',
+      defaultMode: 'Value',
+      modeNames: { '1:0': 'Value' }
+    },
+    'VariableCollectionId:2:0': {
+      name: 'Semantic',
+      defaultModeId: '2:0',
+      defaultMode: 'Value',
+      modeNames: { '2:0': 'Value' }
+    },
+    'VariableCollectionId:3:0': {
+      name: 'Theme',
+      defaultModeId: '3:0',
+      defaultMode: 'Light',
+      modeNames: { '3:0': 'Light', '3:1': 'Dark' }
+    }
+  },
+  variables: {
+    COLOR: {
+      White: {
+        id: 'VariableID:1:1',
+        name: 'White',
+        collectionId: 'VariableCollectionId:1:0',
+        description: '',
+        scopes: ['ALL_SCOPES'],
+        modes: { '1:0': { hex: '#ffffff', rgb: { r: 255, g: 255, b: 255, a: 1 } } }
+      },
+      Black: {
+        id: 'VariableID:1:2',
+        name: 'Black',
+        collectionId: 'VariableCollectionId:1:0',
+        description: '',
+        scopes: ['ALL_SCOPES'],
+        modes: { '1:0': { hex: '#000000', rgb: { r: 0, g: 0, b: 0, a: 1 } } }
+      },
+      text: {
+        primary: {
+          id: 'VariableID:3:1',
+          name: 'text/primary',
+          collectionId: 'VariableCollectionId:3:0',
+          description: '',
+          scopes: ['TEXT_FILL'],
+          modes: {
+            '3:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:2' },
+            '3:1': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' }
+          }
+        }
+      },
+      surface: {
+        base: {
+          id: 'VariableID:2:1',
+          name: 'surface/base',
+          collectionId: 'VariableCollectionId:2:0',
+          description: '',
+          scopes: ['FRAME_FILL'],
+          modes: { '2:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1:1' } }
+        }
+      }
+    }
+  },
+  styles: { paint: {}, text: {} }
+};
+
+export async function runStyleDictionaryTests(): Promise<void> {
+  console.log('🧪 Starting Style Dictionary Tests...\n');
+
+  const generator = new StyleDictionaryGenerator();
+  const files = generator.generateFromExtractedData(mockExtractedData);
+  const base = JSON.parse(files['tokens/color/base.json'] || '{}');
+  const semantic = JSON.parse(files['tokens/color/semantic.json'] || '{}');
+
+  // Test 1: Ungrouped primitives
+  console.log('Test 1: Single-segment primitive');
+  const white = base.color?.base?.default?.white;
+  if (white && white.$value === '#ffffff') {
+    console.log('✅ Ungrouped primitive filed under default');
+  } else {
+    console.log('❌ Primitive missing:', base);
+  }
+
+  const surface = semantic.color?.semantic?.surface?.base;
+  if (surface && surface.$value === '{color.base.default.white}') {
+    console.log('✅ Alias to an ungrouped primitive written as a reference');
+  } else {
+    console.log('❌ Alias lost its reference:', surface);
+  }
+  console.log();
+
+  // Test 2: Themed semantic colors
+  console.log('Test 2: Multi-mode semantic alias');
+  const text = semantic.color?.semantic?.text?.primary;
+  const modes = text?.$extensions?.['com.figma']?.modes;
+  if (text && text.$value === '{color.base.default.black}') {
+    console.log('✅ Default mode reference kept as $value');
+  } else {
+    console.log('❌ Themed color lost its reference:', text);
+  }
+  if (modes && modes.Light === '{color.base.default.black}' && modes.Dark === '{color.base.default.white}') {
+    console.log('✅ Every mode keeps its own reference');
+  } else {
+    console.log('❌ Mode references incorrect:', modes);
+  }
+  console.log();
+
+  console.log('🎉 All Style Dictionary Tests Completed!\n');
+}
+
+// Export test runner for use in browser console or test environment
+export const StyleDictionaryTestSuite = {
+  runAll: runStyleDictionaryTests,
+  mockData: mockExtractedData
+};
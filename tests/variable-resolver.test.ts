@@ -1,8 +1,20 @@
-import { EnhancedVariableAliasResolver } from '../utils/variable-resolver';
+import { EnhancedVariableAliasResolver, classifyVariable } from '../utils/variable-resolver';
 import { DesignSystemExtractor } from '../extractors/design-system-extractor';
+import { findNearestToken } from '../utils/hardcoded-values';
 
 // Mock Figma data with variable aliases (similar to your actual use case)
 const mockFigmaData = {
+  collections: {
+    'VariableCollectionId:40000015:0': {
+      name: 'Theme',
+      defaultModeId: '40000015:1',
+      defaultMode: 'light',
+      modeNames: {
+        '40000015:1': 'light',
+        '40000015:2': 'dark'
+      }
+    }
+  },
   variables: {
     'VariableID:40000015:594': {
       id: 'VariableID:40000015:594',
@@ -180,6 +192,104 @@ export async function runVariableResolverTests(): Promise<void> {
   }
   console.log();
   
+  // Test 7: Preserved Alias References
+  console.log('Test 7: Preserved Alias References');
+  const preservingResolver = new EnhancedVariableAliasResolver(false, true);
+  const preservedResult = preservingResolver.resolveVariables(mockFigmaData);
+  const preservedSemantic = preservedResult.resolved.variables['VariableID:40000015:595'];
+  const lightReference = preservedSemantic?.light;
+  
+  if (lightReference && lightReference.reference === 'Brand.Primary' && lightReference.value === '#0066CC') {
+    console.log('✅ Alias kept reference path and resolved value');
+  } else {
+    console.log('❌ Alias reference not preserved:', lightReference);
+  }
+  
+  if (preservedSemantic?.dark?.value === '#3399FF') {
+    console.log('✅ Referenced value follows the matching mode');
+  } else {
+    console.log('❌ Dark mode reference resolved to wrong value:', preservedSemantic?.dark);
+  }
+  console.log();
+  
+  // Test 8: Scope-based classification of non-color variables
+  console.log('Test 8: Variable Classification');
+  const gap = classifyVariable('FLOAT', ['GAP'], 'Layout/Gutter');
+  const lineHeight = classifyVariable('FLOAT', ['LINE_HEIGHT'], 'Body/Leading');
+  const unscoped = classifyVariable('FLOAT', ['ALL_SCOPES'], 'Radius/Pill');
+  const flag = classifyVariable('BOOLEAN', [], 'Feature/New Nav');
+  
+  if (gap.category === 'spacing' && gap.unit === 'px' && lineHeight.category === 'typography' && lineHeight.typographyProperty === 'lineHeight') {
+    console.log('✅ Scopes decide the token category');
+  } else {
+    console.log('❌ Scoped variables misclassified:', gap, lineHeight);
+  }
+  
+  if (unscoped.category === 'radius' && flag.category === 'flag') {
+    console.log('✅ Unscoped variables fall back to their name and booleans become flags');
+  } else {
+    console.log('❌ Fallback classification incorrect:', unscoped, flag);
+  }
+  console.log();
+  
+  // Test 9: Collection default mode
+  console.log('Test 9: Collection Default Mode');
+  const darkFirstData = {
+    collections: {
+      'VariableCollectionId:1:0': {
+        name: 'Theme',
+        defaultModeId: '1:2',
+        defaultMode: 'Dark',
+        modeNames: { '1:1': 'Light', '1:2': 'Dark' }
+      }
+    },
+    variables: {
+      'VariableID:1:10': {
+        id: 'VariableID:1:10',
+        name: 'Surface/Base',
+        type: 'COLOR',
+        modes: { '1:1': '#FFFFFF', '1:2': '#111111' }
+      }
+    }
+  };
+  const darkFirst = new EnhancedVariableAliasResolver(false).resolveVariables(darkFirstData).resolved.variables['VariableID:1:10'];
+  
+  if (darkFirst?.defaultMode === 'Dark' && Object.keys(darkFirst)[0] === 'Dark') {
+    console.log('✅ Mode map names and leads with the collection default');
+  } else {
+    console.log('❌ Collection default mode lost:', darkFirst);
+  }
+  console.log();
+  
+  // Test 10: Hard-coded value findings travel through the resolver with the rest of the extraction
+  console.log('Test 10: Hard-coded Value Findings');
+  const nearestToken = findNearestToken([
+    { id: 'VariableID:40000015:594', name: 'Brand/Primary', source: 'variable', value: '#0066CC' }
+  ], 'color', '#0067CD');
+  const dataWithFindings = Object.assign({}, mockFigmaData, {
+    componentAnalysis: {
+      hardcodedValues: {
+        total: 1,
+        findings: [{ nodeId: '12:34', nodeName: 'Label', kind: 'color', property: 'fills[0]', value: '#0067CD', nearestToken }]
+      }
+    }
+  });
+  const withFindings = new EnhancedVariableAliasResolver(false, true).resolveVariables(dataWithFindings).resolved;
+  const resolvedFinding = withFindings.componentAnalysis.hardcodedValues.findings[0];
+  
+  if (resolvedFinding.nearestToken?.tokenId === 'VariableID:40000015:594' && resolvedFinding.nearestToken?.name === 'Brand/Primary') {
+    console.log('✅ Nearest token survives alias resolution');
+  } else {
+    console.log('❌ Nearest token rewritten by the resolver:', resolvedFinding.nearestToken);
+  }
+  
+  if (withFindings.variables['VariableID:40000015:595']?.light?.value === '#0066CC') {
+    console.log('✅ Findings do not replace the variable they point at');
+  } else {
+    console.log('❌ Semantic alias lost its value:', withFindings.variables['VariableID:40000015:595']);
+  }
+  console.log();
+  
   console.log('🎉 All Variable Resolver Tests Completed!\n');
   
   // Return summary
@@ -1,14 +1,20 @@
 // Core Design System Types
 export interface DesignToken {
   name: string;
-  value: string | number;
-  type: 'color' | 'typography' | 'spacing' | 'shadow' | 'border' | 'opacity';
+  value: string | number | boolean;
+  type: 'color' | 'typography' | 'spacing' | 'gradient' | 'shadow' | 'blur' | 'border' | 'opacity' | 'variable';
   description?: string;
   semanticName?: string;
   category?: string;
   usage?: string[];
+  codeSyntax?: CodeSyntax;
+  // Set only on tokens read from a Figma variable; styles and raw values have no variable behind them
+  variableId?: string;
 }
 
+// Names designers set per platform in Figma's variable "Code syntax" field
+export type CodeSyntax = Partial<Record<'WEB' | 'ANDROID' | 'iOS', string>>;
+
 export interface ColorToken extends DesignToken {
   type: 'color';
   value: string;
@@ -17,6 +23,28 @@ export interface ColorToken extends DesignToken {
   hsl: { h: number; s: number; l: number };
   semanticRole?: 'primary' | 'secondary' | 'accent' | 'neutral' | 'success' | 'warning' | 'error' | 'info';
   contrastRatio?: number;
+  reference?: string;
+  modes?: Record<string, ColorModeValue>;
+  defaultMode?: string;
+}
+
+export interface ColorModeValue {
+  hex: string;
+  rgb: { r: number; g: number; b: number };
+  reference?: string;
+}
+
+export interface GradientStop {
+  position: number;
+  color: { hex: string; rgb: { r: number; g: number; b: number; a: number } };
+}
+
+export interface GradientToken extends DesignToken {
+  type: 'gradient';
+  value: string;
+  gradientType: 'linear' | 'radial' | 'angular' | 'diamond';
+  stops: GradientStop[];
+  angle?: number;
 }
 
 export interface TypographyToken extends DesignToken {
@@ -28,6 +56,18 @@ export interface TypographyToken extends DesignToken {
   letterSpacing?: number;
   textTransform?: string;
   semanticLevel?: 'heading-xl' | 'heading-lg' | 'heading-md' | 'heading-sm' | 'body-lg' | 'body-md' | 'body-sm' | 'caption';
+  boundVariables?: Partial<Record<TypographyProperty, string>>;
+  modes?: Record<string, TypographyModeValue>;
+  defaultMode?: string;
+}
+
+// A text style resolved in one variable mode, e.g. the 'Desktop' values of a responsive type ramp
+export interface TypographyModeValue {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  lineHeight: number;
+  letterSpacing: number;
 }
 
 export interface SpacingToken extends DesignToken {
@@ -37,12 +77,82 @@ export interface SpacingToken extends DesignToken {
   usage: string[];
 }
 
+export type VariableTokenCategory = 'spacing' | 'sizing' | 'radius' | 'border-width' | 'opacity' | 'typography' | 'flag' | 'number' | 'string';
+
+export type TypographyProperty = 'fontSize' | 'lineHeight' | 'letterSpacing' | 'fontWeight' | 'fontFamily' | 'fontStyle' | 'paragraphSpacing';
+
+export interface VariableClassification {
+  category: VariableTokenCategory;
+  typographyProperty?: TypographyProperty;
+  unit?: 'px';
+}
+
+// A FLOAT, STRING or BOOLEAN variable, classified by its Figma scopes
+export interface VariableToken extends DesignToken {
+  type: 'variable';
+  value: number | string | boolean;
+  resolvedType: 'FLOAT' | 'STRING' | 'BOOLEAN';
+  category: VariableTokenCategory;
+  typographyProperty?: TypographyProperty;
+  unit?: 'px';
+  scopes: string[];
+  reference?: string;
+  modes?: Record<string, number | string | boolean>;
+  defaultMode?: string;
+}
+
+// One drop or inner shadow of a Figma effect style, kept in the style's layer order
+export interface ShadowLayer {
+  inset: boolean;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  color: { hex: string; rgb: { r: number; g: number; b: number; a: number } };
+  blendMode: BlendMode;
+}
+
+export interface ShadowToken extends DesignToken {
+  type: 'shadow';
+  value: string;
+  layers: ShadowLayer[];
+}
+
+export interface BlurToken extends DesignToken {
+  type: 'blur';
+  value: number;
+  blurType: 'layer' | 'background';
+}
+
+export type EffectToken = ShadowToken | BlurToken;
+
 // Component Analysis Types
 export interface ComponentVariant {
   name: string;
   properties: Record<string, any>;
   description?: string;
   usage?: string;
+  structure?: NodeSnapshot;
+}
+
+// Bounded layer tree of one variant, compact enough to embed as JSON in prompts
+export type LayerRole = 'container' | 'text' | 'image' | 'icon' | 'instance' | 'shape' | 'divider';
+
+export interface NodeSnapshot {
+  name: string;
+  type: string;
+  role: LayerRole;
+  hidden?: boolean;
+  text?: string;
+  // Main component name of an instance
+  component?: string;
+  // describeLayout() summary, only for auto layout frames
+  layout?: string;
+  // Bound property -> variable name (the variable id when the name can't be resolved)
+  boundVariables?: Record<string, string>;
+  children?: NodeSnapshot[];
+  // Number of children left out by the depth and node limits
+  omitted?: number;
 }
 
 export interface AnalyzedComponent {
@@ -54,22 +164,278 @@ export interface AnalyzedComponent {
   examples: string[];
   semanticDescription: string;
   accessibility: AccessibilityInfo;
+  layout?: LayoutNode;
+  tokenUsage?: TokenUsage[];
+}
+
+// A variable or style consumed by a component, merged across its variants
+export type TokenUsageKind = 'color' | 'spacing' | 'radius' | 'typography' | 'effect' | 'sizing' | 'other';
+
+export interface TokenUsage {
+  token: string;
+  source: 'variable' | 'style';
+  kind: TokenUsageKind;
+  properties: string[];
+  variants: string[];
+}
+
+export interface TokenComponentReference {
+  token: string;
+  source: TokenUsage['source'];
+  kind: TokenUsageKind;
+  components: string[];
+}
+
+// A raw value on a node where a variable or style was expected, with the closest token that could replace it
+export type HardcodedValueKind = 'color' | 'spacing' | 'radius' | 'typography';
+
+// Not `id`: the alias resolvers treat any object with a string `id` as a variable reference
+export interface NearestToken {
+  tokenId: string;
+  name: string;
+  source: 'variable' | 'style';
+  value: string | number;
+  distance: number;
+}
+
+export interface HardcodedValueFinding {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  path: string;
+  page: string;
+  component?: string;
+  scope: 'component' | 'instance' | 'selection';
+  property: string;
+  kind: HardcodedValueKind;
+  value: string | number;
+  nearestToken?: NearestToken;
+}
+
+export interface HardcodedValueReport {
+  total: number;
+  truncated: boolean;
+  byKind: Record<HardcodedValueKind, number>;
+  byComponent: Record<string, number>;
+  findings: HardcodedValueFinding[];
+}
+
+// How far a raw value may sit from its nearest token and still be rebound: ΔE for colors, px otherwise
+export interface BindingThreshold {
+  label: string;
+  color: number;
+  size: number;
+}
+
+export interface TokenBinding {
+  nodeId: string;
+  nodeName: string;
+  path: string;
+  property: string;
+  kind: HardcodedValueKind;
+  value: string | number;
+  token: NearestToken;
+}
+
+export interface TokenBindingResult {
+  applied: number;
+  skipped: Array<{ nodeId: string; property: string; reason: string }>;
+}
+
+// Foreground/background token pairs scored per mode against WCAG 2.x, with APCA Lc when requested
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'fail';
+
+export interface ContrastPair {
+  foreground: string;
+  background: string;
+  mode: string;
+  foregroundHex: string;
+  backgroundHex: string;
+  ratio: number;
+  level: ContrastLevel;
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+  apca?: number;
+}
+
+export interface ContrastMatrix {
+  modes: string[];
+  foregrounds: string[];
+  backgrounds: string[];
+  pairs: ContrastPair[];
+  summary: { total: number; byLevel: Record<ContrastLevel, number> };
+}
+
+// Text style sizes fitted to a modular scale, with the styles and text layers that drift from it
+export interface TypeScaleResidual {
+  style: string;
+  fontSize: number;
+  step: number;
+  expected: number;
+  // Size minus the expected size, in px; the offset is the same distance as a fraction of a step
+  residual: number;
+  offset: number;
+  outlier: boolean;
+}
+
+export interface ModularScaleFit {
+  name: string;
+  ratio: number;
+  base: number;
+  // Mean |offset| across distinct sizes; sizes sharing a step count as half a step off
+  error: number;
+  residuals: TypeScaleResidual[];
+}
+
+export interface UnmatchedTextNode {
+  nodeId: string;
+  nodeName: string;
+  path: string;
+  page: string;
+  component?: string;
+  fontFamily: string;
+  fontStyle: string;
+  fontSize: number;
+  nearestStyle?: string;
+}
+
+export interface TypeScaleReport {
+  bestFit: ModularScaleFit | null;
+  fits: ModularScaleFit[];
+  outliers: TypeScaleResidual[];
+  unusedStyles: string[];
+  unmatchedTotal: number;
+  unmatchedNodes: UnmatchedTextNode[];
+}
+
+// Every padding, gap and margin measured against the spacing grid the extractor detected
+export type SpacingContext = 'padding' | 'gap' | 'margin';
+
+export interface SpacingMeasurement {
+  nodeId: string;
+  nodeName: string;
+  path: string;
+  page: string;
+  component?: string;
+  property: string;
+  context: SpacingContext;
+  value: number;
+  onGrid: boolean;
+  // Nearest step of the suggested scale, only set for off-grid values
+  snapTo?: number;
+}
+
+export interface SpacingConformanceScore {
+  name: string;
+  total: number;
+  onGrid: number;
+  score: number;
+}
+
+export interface SpacingConformanceReport {
+  baseUnit: number;
+  scale: number[];
+  total: number;
+  onGrid: number;
+  score: number;
+  truncated: boolean;
+  byPage: SpacingConformanceScore[];
+  byComponent: SpacingConformanceScore[];
+  measurements: SpacingMeasurement[];
+}
+
+// Colors within a perceptual distance of each other that could collapse into one token
+export interface ColorSample {
+  name: string;
+  hex: string;
+  source: 'variable' | 'style' | 'fill';
+  usage: number;
+}
+
+export interface ColorClusterMember extends ColorSample {
+  // CIEDE2000 distance to the canonical color
+  distance: number;
+}
+
+export interface ColorCluster {
+  canonical: ColorClusterMember;
+  members: ColorClusterMember[];
+  maxDistance: number;
+  totalUsage: number;
+}
+
+// Auto layout tree read from a component's default variant, ready for CSS translation
+export type LayoutSizing = 'FIXED' | 'HUG' | 'FILL';
+
+export interface LayoutNode {
+  name: string;
+  nodeType: string;
+  layoutMode: 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
+  wrap: boolean;
+  itemSpacing: number;
+  counterAxisSpacing: number;
+  padding: { top: number; right: number; bottom: number; left: number };
+  primaryAxisAlignItems: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN' | 'SPACE_EVENLY' | 'SPACE_AROUND';
+  counterAxisAlignItems: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  counterAxisAlignContent: 'AUTO' | 'SPACE_BETWEEN';
+  sizing: { horizontal: LayoutSizing; vertical: LayoutSizing };
+  width: number;
+  height: number;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  // Set for children taken out of the flow (absolute in auto layout, or any child of a non-auto-layout frame)
+  absolute?: { x: number; y: number };
+  grid?: { columns: string[]; rows: string[]; rowGap: number; columnGap: number };
+  children: LayoutNode[];
+}
+
+export interface LayoutRule {
+  selector: string;
+  declarations: Record<string, string>;
 }
 
 export interface ComponentProp {
   name: string;
-  type: 'string' | 'number' | 'boolean' | 'enum';
+  type: 'string' | 'number' | 'boolean' | 'enum' | 'node';
   required: boolean;
   default?: any;
   description: string;
   enumValues?: string[];
+  // Set when the prop comes from a Figma component property rather than inference
+  figmaType?: 'TEXT' | 'BOOLEAN' | 'INSTANCE_SWAP' | 'VARIANT' | 'SLOT';
+  figmaName?: string;
+  // Component names suggested for an instance-swap slot
+  preferredValues?: string[];
 }
 
 export interface AccessibilityInfo {
   ariaLabels: string[];
   keyboardNavigation: boolean;
-  colorContrast: 'AA' | 'AAA' | 'fail';
+  // Worst text contrast across all variants; 'n/a' when no variant has visible text
+  colorContrast: 'AA' | 'AAA' | 'fail' | 'n/a';
   focusManagement: boolean;
+  contrastChecks?: TextContrastCheck[];
+}
+
+// One visible text layer of a variant measured against the background actually rendered behind it
+export interface TextContrastCheck {
+  variant: string;
+  nodeId: string;
+  nodeName: string;
+  text: string;
+  foregroundHex: string;
+  backgroundHex: string;
+  ratio: number;
+  fontSize: number;
+  fontWeight: number;
+  largeText: boolean;
+  level: 'AAA' | 'AA' | 'fail';
+  // Set when a gradient or image sits behind the text and the background is an approximation
+  estimated?: boolean;
 }
 
 export interface ComponentUsageAnalysis {
@@ -87,8 +453,9 @@ export interface ComponentUsageExample {
 
 // AI Tool Output Types
 export interface AIOptimizedOutput {
-  format: 'css-utilities' | 'tailwind-config' | 'react-components' | 'design-tokens' | 'context-cards';
+  format: 'css-utilities' | 'tailwind-config' | 'react-components' | 'design-tokens' | 'style-dictionary' | 'context-cards';
   content: string;
+  files?: Record<string, string>;
   metadata: OutputMetadata;
 }
 
@@ -100,6 +467,55 @@ export interface OutputMetadata {
   dependencies: string[];
 }
 
+// W3C Design Tokens Community Group (DTCG) Types
+export type DTCGTokenType = 'color' | 'dimension' | 'fontFamily' | 'fontWeight' | 'number' | 'typography' | 'shadow' | 'gradient';
+
+export interface DTCGToken {
+  $value: any;
+  $type: DTCGTokenType;
+  $description?: string;
+  $extensions?: Record<string, any>;
+}
+
+export interface DTCGTokenGroup {
+  [key: string]: DTCGToken | DTCGTokenGroup;
+}
+
+// Tokens Studio (Figma Tokens) Types
+export interface TokensStudioToken {
+  value: any;
+  type: string;
+  description?: string;
+  $extensions?: Record<string, any>;
+}
+
+export interface TokensStudioTheme {
+  id: string;
+  name: string;
+  group?: string;
+  selectedTokenSets: Record<string, 'enabled' | 'source' | 'disabled'>;
+  $figmaCollectionId?: string;
+  $figmaModeId?: string;
+  $figmaVariableReferences?: Record<string, string>;
+}
+
+// A variable collection rebuilt from Tokens Studio themes; variable ids and alias ids are token paths
+export interface TokensStudioCollection {
+  name: string;
+  modes: string[];
+  variables: FigmaVariable[];
+}
+
+// Theme values read straight from the Figma file for the Tailwind generator
+export interface TailwindThemeSources {
+  variables?: VariableToken[];
+  observedRadii?: number[];
+  effects?: EffectToken[];
+  gradients?: GradientToken[];
+  gridStyles?: Array<{ name: string; layoutGrids: readonly LayoutGrid[]; frameWidth?: number }>;
+  transitions?: Transition[];
+}
+
 // Configuration Types
 export interface ExtractionConfig {
   includeColors: boolean;
@@ -112,6 +528,22 @@ export interface ExtractionConfig {
   semanticNaming: boolean;
   includeUsageExamples: boolean;
   generateDocumentation: boolean;
+  tailwindVersion?: 'v3' | 'v4';
+  fluidTypography?: FluidTypographyOptions;
+}
+
+// Font sizes scale with the viewport between minViewport and maxViewport (px); outside that range they stay fixed
+export interface FluidTypographyOptions {
+  enabled: boolean;
+  minViewport: number;
+  maxViewport: number;
+  minRatio?: number;
+}
+
+export interface FluidFontSize {
+  minSize: number;
+  maxSize: number;
+  value: string;
 }
 
 // Design System Context for AI Tools
@@ -154,7 +586,7 @@ export interface VariableValue {
   type?: 'VARIABLE_ALIAS';
   id?: string;
   hex?: string;
-  rgb?: { r: number; g: number; b: number };
+  rgb?: { r: number; g: number; b: number; a?: number };
   value?: any;
   r?: number;
   g?: number;
@@ -167,6 +599,11 @@ export interface ResolvedVariable {
   modes: Record<string, any>;
 }
 
+export interface AliasReference {
+  reference: string;
+  value: any;
+}
+
 export interface VariableResolutionResult {
   resolved: any;
   primitiveCount: number;
@@ -194,6 +631,13 @@ export interface NamingStrategy {
   semantic: boolean;
 }
 
+// A variable whose WEB code syntax disagrees with the name the plugin would have generated
+export interface NamingConflict {
+  tokenName: string;
+  codeSyntaxName: string;
+  heuristicName: string;
+}
+
 // Plugin State Types
 export interface PluginState {
   currentStep: 'analyze' | 'configure' | 'generate' | 'export';
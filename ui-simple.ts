@@ -1,4 +1,6 @@
 // Simplified UI
+import { createZip } from './utils/zip';
+
 console.log('🚀 Simple UI script starting...');
 console.log('Document ready state:', document.readyState);
 console.log('Window object:', !!window);
@@ -30,7 +32,8 @@ function setupEventListeners() {
       console.log('Sending message to parent...');
       
       try {
-        (parent as any).postMessage({ pluginMessage: { type: 'extract-basic' } }, '*');
+        var apcaToggle = document.getElementById('apca-toggle') as HTMLInputElement | null;
+        (parent as any).postMessage({ pluginMessage: { type: 'extract-basic', apca: apcaToggle ? apcaToggle.checked : false } }, '*');
         console.log('✅ Message sent successfully');
       } catch (error) {
         console.error('❌ Error sending message:', error);
@@ -45,6 +48,37 @@ function setupEventListeners() {
     console.log('✅ Extract button listeners added');
   }
   
+  var importBtn = document.getElementById('import-tokens-studio-btn');
+  var importInput = document.getElementById('tokens-studio-file') as HTMLInputElement | null;
+  
+  if (importBtn && importInput) {
+    importBtn.addEventListener('click', function() {
+      importInput!.value = '';
+      importInput!.click();
+    });
+    
+    importInput.addEventListener('change', function() {
+      var file = importInput!.files ? importInput!.files[0] : null;
+      if (!file) return;
+      
+      var reader = new FileReader();
+      reader.onload = function() {
+        console.log('Sending Tokens Studio file to plugin:', file!.name);
+        (parent as any).postMessage({ pluginMessage: { type: 'import-tokens-studio', json: reader.result } }, '*');
+      };
+      reader.readAsText(file);
+    });
+  }
+  
+  var previewBindingsBtn = document.getElementById('preview-bindings-btn');
+  var thresholdSelect = document.getElementById('binding-threshold') as HTMLSelectElement | null;
+  
+  if (previewBindingsBtn) {
+    previewBindingsBtn.addEventListener('click', function() {
+      (parent as any).postMessage({ pluginMessage: { type: 'preview-token-bindings', threshold: thresholdSelect ? thresholdSelect.value : 'close' } }, '*');
+    });
+  }
+  
   if (closeBtn) {
     // Clone button to remove all existing event listeners  
     var newCloseBtn = closeBtn.cloneNode(true);
@@ -90,6 +124,39 @@ window.addEventListener('message', function(event) {
     }
   }
   
+  if (msg && msg.type === 'tokens-studio-import-complete') {
+    var resultDiv = document.getElementById('results');
+    if (resultDiv) {
+      resultDiv.innerHTML = '<div style="color: green;">Imported Tokens Studio file into ' + msg.collections + ' collections: ' +
+        msg.created + ' variables created, ' + msg.updated + ' updated' +
+        (msg.skipped ? ', ' + msg.skipped + ' skipped' : '') +
+        (msg.unresolvedAliases ? ', ' + msg.unresolvedAliases + ' unresolved references' : '') + '.</div>';
+    }
+  }
+  
+  if (msg && msg.type === 'error') {
+    var resultDiv = document.getElementById('results');
+    if (resultDiv) {
+      resultDiv.innerHTML = '<div style="color: #d73a49;">' + escapeHtml(msg.message) + '</div>';
+    }
+  }
+  
+  if (msg && msg.type === 'token-binding-preview') {
+    showBindingPreview(msg);
+  }
+  
+  if (msg && msg.type === 'token-binding-complete') {
+    var resultDiv = document.getElementById('results');
+    if (resultDiv) {
+      var skippedList = msg.skipped.map(function(entry) {
+        return '<li>' + escapeHtml(entry.nodeId) + ' ' + escapeHtml(entry.property) + ': ' + escapeHtml(entry.reason) + '</li>';
+      }).join('');
+      resultDiv.innerHTML = '<div style="color: green;">Bound ' + msg.applied + ' raw values to tokens' +
+        (msg.skipped.length ? ', ' + msg.skipped.length + ' skipped:' : '.') + '</div>' +
+        (skippedList ? '<ul style="font-size: 12px;">' + skippedList + '</ul>' : '');
+    }
+  }
+  
   if (msg && msg.type === 'extraction-complete') {
     console.log('Extraction complete message received');
     console.log('Message data:', msg);
@@ -149,11 +216,39 @@ window.addEventListener('message', function(event) {
             html += '</div>';
           }
         }
+        if (ca.hardcodedValues) {
+          html += '<p style="margin: 10px 0 0 0;"><strong>Hard-coded Values:</strong> ' + ca.hardcodedValues.total + (ca.hardcodedValues.truncated ? '+' : '') + ' raw values not bound to a variable or style</p>';
+        }
         html += '</div>';
       }
       
       html += '<div style="margin: 20px 0;">';
       html += '<a href="' + url + '" download="figma-variables.json" style="background:#007ACC; color:white; padding:10px 20px; text-decoration:none; border-radius:4px; display:inline-block;">📁 Download JSON Data</a>';
+      if (msg.designTokens) {
+        var tokensBlob = new Blob([msg.designTokens], { type: 'application/json' });
+        var tokensUrl = URL.createObjectURL(tokensBlob);
+        html += ' <a href="' + tokensUrl + '" download="' + (msg.designTokensFileName || 'design.tokens.json') + '" style="background:#6f42c1; color:white; padding:10px 20px; text-decoration:none; border-radius:4px; display:inline-block;">🎯 Download Design Tokens (DTCG)</a>';
+      }
+      if (msg.tokensStudio) {
+        var tokensStudioBlob = new Blob([msg.tokensStudio], { type: 'application/json' });
+        var tokensStudioUrl = URL.createObjectURL(tokensStudioBlob);
+        html += ' <a href="' + tokensStudioUrl + '" download="' + (msg.tokensStudioFileName || 'tokens-studio.json') + '" style="background:#e36209; color:white; padding:10px 20px; text-decoration:none; border-radius:4px; display:inline-block;">🔁 Download Tokens Studio JSON</a>';
+      }
+      if (msg.styleDictionary && Object.keys(msg.styleDictionary).length > 0) {
+        html += ' <button id="download-style-dictionary-btn" style="background:#2da44e; color:white; padding:10px 20px; border:none; border-radius:4px; cursor:pointer; font-size:inherit;">📚 Download Style Dictionary Source (.zip)</button>';
+        (window as any).styleDictionaryFiles = msg.styleDictionary;
+        (window as any).styleDictionaryFileName = msg.styleDictionaryFileName || 'style-dictionary.zip';
+      }
+      if (msg.contrastReport) {
+        var contrastBlob = new Blob([msg.contrastReport], { type: 'application/json' });
+        var contrastUrl = URL.createObjectURL(contrastBlob);
+        html += ' <a href="' + contrastUrl + '" download="' + (msg.contrastReportFileName || 'contrast.json') + '" style="background:#0366d6; color:white; padding:10px 20px; text-decoration:none; border-radius:4px; display:inline-block;">♿ Download Contrast Report</a>';
+      }
+      if (msg.hardcodedValues) {
+        var hardcodedBlob = new Blob([msg.hardcodedValues], { type: 'application/json' });
+        var hardcodedUrl = URL.createObjectURL(hardcodedBlob);
+        html += ' <a href="' + hardcodedUrl + '" download="' + (msg.hardcodedValuesFileName || 'hardcoded-values.json') + '" style="background:#d73a49; color:white; padding:10px 20px; text-decoration:none; border-radius:4px; display:inline-block;">🧱 Download Hard-coded Values</a>';
+      }
       html += '</div>';
       
       html += '<details style="margin-top: 20px;">';
@@ -189,6 +284,13 @@ window.addEventListener('message', function(event) {
       
       // Add copy functionality
       setTimeout(function() {
+        var styleDictionaryBtn = document.getElementById('download-style-dictionary-btn');
+        if (styleDictionaryBtn && (window as any).styleDictionaryFiles) {
+          styleDictionaryBtn.addEventListener('click', function() {
+            downloadArchive((window as any).styleDictionaryFiles, (window as any).styleDictionaryFileName);
+          });
+        }
+        
         var copyBtn = document.getElementById('copy-markdown-btn');
         if (copyBtn && (window as any).markdownContent) {
           copyBtn.addEventListener('click', function() {
@@ -225,6 +327,67 @@ window.addEventListener('message', function(event) {
   }
 });
 
+// One archive keeps the folder layout the generated config.json points at
+function downloadArchive(files: Record<string, string>, fileName: string) {
+  var url = URL.createObjectURL(new Blob([createZip(files)], { type: 'application/zip' }));
+  var link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking in the same tick can cancel a download the browser hasn't started yet
+  setTimeout(function() {
+    URL.revokeObjectURL(url);
+  }, 1000);
+}
+
+// Lists every proposed binding; nothing is written to the file until Apply is clicked
+function showBindingPreview(msg) {
+  var resultDiv = document.getElementById('results');
+  if (!resultDiv) return;
+  
+  var html = '<h3>🧱 Token Binding Preview</h3>';
+  html += '<p>' + escapeHtml(msg.found) + ' raw values in the selection, ' + msg.bindings.length + ' within ' + escapeHtml(msg.threshold) + ' of a token.</p>';
+  
+  if (msg.bindings.length > 0) {
+    html += '<table style="width: 100%; border-collapse: collapse; font-size: 12px;">';
+    html += '<tr style="text-align: left; background: #f5f5f5;"><th>Layer</th><th>Property</th><th>Value</th><th>Token</th><th>Distance</th></tr>';
+    for (var i = 0; i < msg.bindings.length; i++) {
+      var binding = msg.bindings[i];
+      html += '<tr style="border-top: 1px solid #eee;">';
+      html += '<td title="' + escapeHtml(binding.nodeId) + '">' + escapeHtml(binding.path) + '</td>';
+      html += '<td>' + escapeHtml(binding.property) + '</td>';
+      html += '<td><code>' + escapeHtml(binding.value) + '</code></td>';
+      html += '<td>' + escapeHtml(binding.token.name) + ' <code>' + escapeHtml(binding.token.value) + '</code></td>';
+      html += '<td>' + escapeHtml(binding.token.distance) + '</td>';
+      html += '</tr>';
+    }
+    html += '</table>';
+    html += '<button id="apply-bindings-btn" style="margin-top: 15px; background:#d73a49; color:white; padding:10px 20px; border:none; border-radius:4px; cursor:pointer;">Apply ' + msg.bindings.length + ' Bindings</button>';
+  }
+  
+  resultDiv.innerHTML = html;
+  
+  var applyBtn = document.getElementById('apply-bindings-btn');
+  if (applyBtn) {
+    applyBtn.addEventListener('click', function() {
+      applyBtn!.setAttribute('disabled', 'true');
+      (parent as any).postMessage({ pluginMessage: { type: 'apply-token-bindings', bindings: msg.bindings } }, '*');
+    });
+  }
+}
+
+// Layer names, values and error text come from the document, so they never reach innerHTML unescaped
+function escapeHtml(value: any): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 // Function to format markdown for display
 function formatMarkdownForDisplay(markdown) {
   var html = markdown
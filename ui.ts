@@ -1,4 +1,6 @@
 // UI logic for DeVibe System plugin
+import { createZip } from './utils/zip';
+
 interface PluginState {
   currentStep: 'analyze' | 'configure' | 'generate' | 'export';
   extractedTokens: any[];
@@ -14,6 +16,7 @@ class PluginUI {
   private maxSteps = 3;
   private selectedAITools: string[] = ['all'];
   private pluginState: PluginState | null = null;
+  private renderedOutputs: any[] = [];
 
   constructor() {
     this.initializeEventListeners();
@@ -106,7 +109,7 @@ class PluginUI {
       includeUsageExamples: ((document.getElementById('includeUsageExamples') as HTMLInputElement) || {}).checked || false,
       generateDocumentation: true,
       aiToolTargets: this.selectedAITools,
-      outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'context-cards']
+      outputFormats: ['css-utilities', 'tailwind-config', 'react-components', 'design-tokens', 'style-dictionary', 'context-cards']
     };
   }
 
@@ -122,6 +125,12 @@ class PluginUI {
     if (((document.getElementById('outputReactComponents') as HTMLInputElement) || {}).checked) {
       formats.push('react-components');
     }
+    if (((document.getElementById('outputDesignTokens') as HTMLInputElement) || {}).checked) {
+      formats.push('design-tokens');
+    }
+    if (((document.getElementById('outputStyleDictionary') as HTMLInputElement) || {}).checked) {
+      formats.push('style-dictionary');
+    }
     if (((document.getElementById('outputContextCards') as HTMLInputElement) || {}).checked) {
       formats.push('context-cards');
     }
@@ -134,6 +143,20 @@ class PluginUI {
     this.showStatus('Generating AI-optimized outputs...', 'info');
     this.setButtonLoading('generateOutputsBtn', true);
 
+    // The Tailwind target and fluid type range are picked next to the outputs, so sync them before generating
+    const tailwindVersion = ((document.getElementById('tailwindVersion') as HTMLSelectElement) || {}).value || 'v3';
+    const fluidTypography = {
+      enabled: !!(document.getElementById('fluidTypography') as HTMLInputElement)?.checked,
+      minViewport: parseInt((document.getElementById('fluidMinViewport') as HTMLInputElement)?.value, 10) || 360,
+      maxViewport: parseInt((document.getElementById('fluidMaxViewport') as HTMLInputElement)?.value, 10) || 1280
+    };
+    (parent as any).postMessage({ 
+      pluginMessage: { 
+        type: 'update-config', 
+        config: { tailwindVersion, fluidTypography } 
+      } 
+    }, '*');
+
     (parent as any).postMessage({ 
       pluginMessage: { 
         type: 'generate-outputs', 
@@ -158,7 +181,7 @@ class PluginUI {
         break;
 
       case 'analyze-complete':
-        this.handleAnalysisComplete(data.tokens, data.components);
+        this.handleAnalysisComplete(data.tokens, data.components, data.namingConflicts || []);
         break;
 
       case 'generation-complete':
@@ -177,7 +200,7 @@ class PluginUI {
     }
   }
 
-  private handleAnalysisComplete(tokens: any[], components: any[]) {
+  private handleAnalysisComplete(tokens: any[], components: any[], namingConflicts: any[]) {
     this.setButtonLoading('startExtractionBtn', false);
     
     // Update statistics
@@ -191,7 +214,10 @@ class PluginUI {
     document.getElementById('spacingCount')!.textContent = spacingCount.toString();
     document.getElementById('componentCount')!.textContent = componentCount.toString();
 
-    this.showStatus(`Found ${tokens.length} design tokens and ${components.length} components!`, 'success');
+    const conflictNote = namingConflicts.length > 0
+      ? ` ${namingConflicts.length} Figma code syntax names override generated names (see the documentation).`
+      : '';
+    this.showStatus(`Found ${tokens.length} design tokens and ${components.length} components!${conflictNote}`, 'success');
     this.goToStep(2);
   }
 
@@ -205,6 +231,7 @@ class PluginUI {
   private renderOutputs(outputs: any[]) {
     const container = document.getElementById('outputsContainer')!;
     container.innerHTML = '';
+    this.renderedOutputs = outputs;
 
     for (let i = 0; i < outputs.length; i++) {
       const output = outputs[i];
@@ -221,6 +248,8 @@ class PluginUI {
       'css-utilities': '🎨 Utility CSS Classes',
       'tailwind-config': '🌊 Tailwind CSS Configuration',
       'react-components': '⚛️ React Component Library',
+      'design-tokens': '🎯 W3C Design Tokens (DTCG)',
+      'style-dictionary': '📚 Style Dictionary Source',
       'context-cards': '🧠 AI Context Documentation'
     };
 
@@ -233,9 +262,12 @@ class PluginUI {
             ${output.metadata.aiToolCompatibility.join(', ')}
           </div>
         </div>
-        <button class="copy-button" onclick="pluginUI.copyOutput('${output.format}', '${index}')">
-          📋 Copy
-        </button>
+        <div>
+          ${output.files ? `<button class="copy-button" onclick="pluginUI.downloadFiles('${index}')">⬇️ Download .zip (${Object.keys(output.files).length} files)</button>` : ''}
+          <button class="copy-button" onclick="pluginUI.copyOutput('${output.format}', '${index}')">
+            📋 Copy
+          </button>
+        </div>
       </div>
       <div class="output-content">
         <pre>${this.truncateContent(output.content, 2000)}</pre>
@@ -274,6 +306,24 @@ class PluginUI {
     }
   }
 
+  // Multi-file outputs download as one archive so paths like tokens/color/base.json survive
+  public downloadFiles(index: string) {
+    const output = this.renderedOutputs[parseInt(index, 10)];
+    if (!output || !output.files) return;
+
+    const url = URL.createObjectURL(new Blob([createZip(output.files)], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${output.format}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoking in the same tick can cancel a download the browser hasn't started yet
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    this.showStatus(`Downloaded ${output.format}.zip with ${Object.keys(output.files).length} files`, 'success');
+  }
+
   private async copyToClipboard(text: string) {
     try {
       await navigator.clipboard.writeText(text);
@@ -0,0 +1,83 @@
+import { ColorSample, ColorCluster, ColorClusterMember } from '../types';
+import { hexToLab, calculateLabCIEDE2000 } from './naming';
+
+// ΔE00 below ~1 is invisible; up to 3 reads as "the same color" in UI next to each other
+export const NEAR_DUPLICATE_THRESHOLD = 3;
+
+const SOURCE_PRIORITY: Record<ColorSample['source'], number> = { variable: 0, style: 1, fill: 2 };
+
+/**
+ * Colors that can be clustered: COLOR variables and single-color paint styles with a literal value.
+ * Aliases and paints bound to a variable reference another token rather than duplicating it.
+ */
+export function readColorSamples(variables: Variable[], collections: VariableCollection[], paintStyles: PaintStyle[]): ColorSample[] {
+  const samples: ColorSample[] = [];
+  const defaultModes = new Map<string, string>();
+  for (const collection of collections) defaultModes.set(collection.id, collection.defaultModeId);
+
+  for (const variable of variables) {
+    if (!variable || variable.resolvedType !== 'COLOR') continue;
+    const value = variable.valuesByMode[defaultModes.get(variable.variableCollectionId) || ''];
+    if (value && typeof value === 'object' && 'r' in value) {
+      samples.push({ name: variable.name, hex: toHex(value), source: 'variable', usage: 0 });
+    }
+  }
+
+  for (const style of paintStyles) {
+    const paints = style.paints.filter(paint => paint.visible !== false);
+    if (paints.length !== 1 || paints[0].type !== 'SOLID' || (paints[0].boundVariables && paints[0].boundVariables.color)) continue;
+    samples.push({ name: style.name, hex: toHex(paints[0].color), source: 'style', usage: 0 });
+  }
+
+  return samples;
+}
+
+/**
+ * Groups colors around a canonical one. Candidates are taken in canonical order (variables, then
+ * styles, then raw fills; most used first) and each claims every unclaimed color within the
+ * threshold of itself, so a cluster never chains across a whole palette ramp.
+ */
+export function findNearDuplicateColors(samples: ColorSample[], threshold: number = NEAR_DUPLICATE_THRESHOLD): ColorCluster[] {
+  const candidates = samples
+    .map(sample => ({ sample, lab: hexToLab(sample.hex) }))
+    .filter(candidate => candidate.lab !== null)
+    .sort((a, b) => compareCanonical(a.sample, b.sample));
+
+  const claimed = new Set<number>();
+  const clusters: ColorCluster[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (claimed.has(i)) continue;
+    const canonical: ColorClusterMember = Object.assign({}, candidates[i].sample, { distance: 0 });
+    const members: ColorClusterMember[] = [canonical];
+
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (claimed.has(j)) continue;
+      const distance = calculateLabCIEDE2000(candidates[i].lab!, candidates[j].lab!);
+      if (distance < threshold) {
+        members.push(Object.assign({}, candidates[j].sample, { distance: Math.round(distance * 100) / 100 }));
+        claimed.add(j);
+      }
+    }
+
+    if (members.length > 1) {
+      clusters.push({
+        canonical,
+        members,
+        maxDistance: Math.max(...members.map(member => member.distance)),
+        totalUsage: members.reduce((sum, member) => sum + member.usage, 0)
+      });
+    }
+  }
+
+  return clusters.sort((a, b) => b.members.length - a.members.length || b.totalUsage - a.totalUsage);
+}
+
+function compareCanonical(a: ColorSample, b: ColorSample): number {
+  return SOURCE_PRIORITY[a.source] - SOURCE_PRIORITY[b.source] || b.usage - a.usage || a.name.length - b.name.length;
+}
+
+function toHex(color: RGB | RGBA): string {
+  const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`.toUpperCase();
+}
@@ -0,0 +1,100 @@
+import { ComponentProp } from '../types';
+
+/**
+ * Maps `componentPropertyDefinitions` to props. Instance-swap defaults and preferred values are
+ * stored as node ids and component keys; `componentNamesByKey` turns keys back into names.
+ */
+export async function readComponentProperties(
+  node: ComponentSetNode | ComponentNode,
+  componentNamesByKey: Map<string, string> = new Map()
+): Promise<ComponentProp[]> {
+  let definitions: ComponentPropertyDefinitions;
+  try {
+    definitions = node.componentPropertyDefinitions;
+  } catch (error) {
+    // Variants inside a set throw; their properties live on the set
+    return [];
+  }
+
+  const props: ComponentProp[] = [];
+  for (const key of Object.keys(definitions)) {
+    const definition = definitions[key];
+    const figmaName = key.split('#')[0];
+    const prop: ComponentProp = {
+      name: toPropName(figmaName),
+      type: 'string',
+      required: false,
+      description: definition.description || '',
+      figmaType: definition.type,
+      figmaName
+    };
+
+    switch (definition.type) {
+      case 'VARIANT':
+        prop.type = 'enum';
+        prop.enumValues = (definition.variantOptions || []).map(option => option.toLowerCase());
+        prop.default = String(definition.defaultValue).toLowerCase();
+        prop.description = prop.description || `${figmaName} variant. Options: ${prop.enumValues.join(', ')}`;
+        break;
+      case 'BOOLEAN':
+        prop.type = 'boolean';
+        prop.default = definition.defaultValue === true;
+        prop.description = prop.description || `Shows or hides the ${figmaName} layer`;
+        break;
+      case 'TEXT':
+        prop.default = String(definition.defaultValue);
+        prop.description = prop.description || `Text content for ${figmaName}`;
+        break;
+      case 'INSTANCE_SWAP':
+      case 'SLOT':
+        prop.type = 'node';
+        prop.default = await getComponentNameById(String(definition.defaultValue));
+        prop.preferredValues = (definition.preferredValues || [])
+          .map(value => componentNamesByKey.get(value.key) || value.key);
+        prop.description = prop.description || `Swappable ${figmaName} slot` +
+          (prop.preferredValues.length > 0 ? `. Preferred: ${prop.preferredValues.join(', ')}` : '');
+        break;
+    }
+
+    props.push(prop);
+  }
+
+  return props;
+}
+
+// A variant default reads as 'Icon/Name=Check', the way the swap menu in Figma lists it
+async function getComponentNameById(id: string): Promise<string | undefined> {
+  if (!id) return undefined;
+  try {
+    const node = await figma.getNodeByIdAsync(id);
+    if (!node) return undefined;
+    return node.parent && node.parent.type === 'COMPONENT_SET' ? `${node.parent.name}/${node.name}` : node.name;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// 'Show Icon' -> 'showIcon', 'Size' -> 'size'
+export function toPropName(figmaName: string): string {
+  const words = figmaName.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(word => word.length > 0);
+  if (words.length === 0) return 'prop';
+
+  const name = words
+    .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `prop${name}` : name;
+}
+
+// Keys of every component and component set, for resolving instance-swap preferred values
+export function buildComponentNameIndex(nodes: Array<ComponentSetNode | ComponentNode>): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const node of nodes) {
+    names.set(node.key, node.name);
+    if (node.type === 'COMPONENT_SET') {
+      for (const child of node.children) {
+        if (child.type === 'COMPONENT') names.set(child.key, `${node.name}/${child.name}`);
+      }
+    }
+  }
+  return names;
+}
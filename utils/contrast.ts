@@ -0,0 +1,366 @@
+import { ContrastLevel, ContrastMatrix, ContrastPair, TextContrastCheck, AccessibilityInfo } from '../types';
+import { calculateContrastRatio, calculateAPCAContrast } from './naming';
+
+const MAX_ALIAS_DEPTH = 10;
+const DEFAULT_MODE = 'default';
+const MAX_TEXT_CHECKS = 40;
+const MAX_CHECK_TEXT_LENGTH = 40;
+const LARGE_TEXT_SIZE = 24;
+const LARGE_BOLD_TEXT_SIZE = 18.66;
+const WHITE: RGBA = { r: 1, g: 1, b: 1, a: 1 };
+
+const FOREGROUND_SEGMENT = /^(on[-_ ]|text|foreground|fg$|fg[-_ ]|icon|content|label|heading|link)/;
+const BACKGROUND_SEGMENT = /^(bg$|bg[-_ ]|background|surface|canvas|container|fill|layer|page|backdrop|base$)/;
+
+export type ContrastRole = 'foreground' | 'background';
+
+export interface ContrastColor {
+  name: string;
+  role: ContrastRole;
+  defaultValue: RGBA;
+  // Mode name -> value, only for tokens whose collection has more than one mode
+  values: Record<string, RGBA>;
+}
+
+/**
+ * Text/icon and surface colors from COLOR variables and single-color paint styles. Aliases are
+ * followed per mode: a target in another collection is read in the mode of the same name,
+ * or its default mode when it has none.
+ */
+export function readContrastColors(
+  variables: Variable[],
+  collections: VariableCollection[],
+  paintStyles: PaintStyle[] = []
+): ContrastColor[] {
+  const colors: ContrastColor[] = [];
+  const variablesById = new Map<string, Variable>();
+  const collectionsById = new Map<string, VariableCollection>();
+  for (const variable of variables) if (variable) variablesById.set(variable.id, variable);
+  for (const collection of collections) collectionsById.set(collection.id, collection);
+
+  const resolve = (variable: Variable, modeName: string | null, depth: number): RGBA | null => {
+    const collection = collectionsById.get(variable.variableCollectionId);
+    if (!collection || depth > MAX_ALIAS_DEPTH) return null;
+
+    const mode = modeName ? collection.modes.find(candidate => candidate.name === modeName) : undefined;
+    const value = variable.valuesByMode[mode ? mode.modeId : collection.defaultModeId];
+    if (value && typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+      const target = variablesById.get(value.id);
+      return target ? resolve(target, modeName, depth + 1) : null;
+    }
+    return value && typeof value === 'object' && 'r' in value ? { r: value.r, g: value.g, b: value.b, a: 'a' in value ? value.a : 1 } : null;
+  };
+
+  for (const variable of variablesById.values()) {
+    if (variable.resolvedType !== 'COLOR') continue;
+    const role = detectContrastRole(variable.name, variable.scopes);
+    const collection = collectionsById.get(variable.variableCollectionId);
+    const defaultValue = resolve(variable, null, 0);
+    if (!role || !collection || !defaultValue) continue;
+
+    const values: Record<string, RGBA> = {};
+    if (collection.modes.length > 1) {
+      for (const mode of collection.modes) {
+        const value = resolve(variable, mode.name, 0);
+        if (value) values[mode.name] = value;
+      }
+    }
+    colors.push({ name: variable.name, role, defaultValue, values });
+  }
+
+  for (const style of paintStyles) {
+    const paints = style.paints.filter(paint => paint.visible !== false);
+    const role = detectContrastRole(style.name);
+    if (!role || paints.length !== 1 || paints[0].type !== 'SOLID') continue;
+
+    const paint = paints[0];
+    const alpha = paint.opacity !== undefined ? paint.opacity : 1;
+    colors.push({ name: style.name, role, defaultValue: { r: paint.color.r, g: paint.color.g, b: paint.color.b, a: alpha }, values: {} });
+  }
+
+  return colors;
+}
+
+// The name decides first ('text/primary', 'surface/raised', 'on-primary'); single-purpose fill scopes are the fallback
+export function detectContrastRole(name: string, scopes: string[] = []): ContrastRole | null {
+  const segments = name.toLowerCase().split('/').map(segment => segment.trim());
+  if (segments.some(segment => FOREGROUND_SEGMENT.test(segment))) return 'foreground';
+  if (segments.some(segment => BACKGROUND_SEGMENT.test(segment))) return 'background';
+
+  const textFill = scopes.indexOf('TEXT_FILL') !== -1;
+  const surfaceFill = scopes.indexOf('FRAME_FILL') !== -1 || scopes.indexOf('SHAPE_FILL') !== -1;
+  if (textFill && !surfaceFill) return 'foreground';
+  if (surfaceFill && !textFill) return 'background';
+  return null;
+}
+
+/**
+ * Scores every foreground against every background in every mode. Translucent foregrounds are
+ * composited over the background first; translucent backgrounds are left out, since their
+ * effective color depends on whatever sits underneath.
+ */
+export function buildContrastMatrix(colors: ContrastColor[], includeAPCA: boolean = false): ContrastMatrix {
+  const foregrounds = colors.filter(color => color.role === 'foreground');
+  const backgrounds = colors.filter(color => color.role === 'background' && isOpaque(color));
+
+  const modeNames = new Set<string>();
+  for (const color of foregrounds.concat(backgrounds)) {
+    Object.keys(color.values).forEach(mode => modeNames.add(mode));
+  }
+  const modes = modeNames.size > 0 ? Array.from(modeNames) : [DEFAULT_MODE];
+
+  const byLevel: Record<ContrastLevel, number> = { 'AAA': 0, 'AA': 0, 'AA Large': 0, 'fail': 0 };
+  const pairs: ContrastPair[] = [];
+
+  for (const mode of modes) {
+    for (const foreground of foregrounds) {
+      for (const background of backgrounds) {
+        const backgroundValue = background.values[mode] || background.defaultValue;
+        const foregroundHex = toHex(composite(foreground.values[mode] || foreground.defaultValue, backgroundValue));
+        const backgroundHex = toHex(backgroundValue);
+        const pair = scoreContrast(foreground.name, background.name, mode, foregroundHex, backgroundHex);
+        if (includeAPCA) pair.apca = Math.round(calculateAPCAContrast(foregroundHex, backgroundHex) * 10) / 10;
+
+        byLevel[pair.level]++;
+        pairs.push(pair);
+      }
+    }
+  }
+
+  return {
+    modes,
+    foregrounds: foregrounds.map(color => color.name),
+    backgrounds: backgrounds.map(color => color.name),
+    pairs,
+    summary: { total: pairs.length, byLevel }
+  };
+}
+
+// WCAG 2.x: large text is 18pt, or 14pt bold, and above
+function scoreContrast(foreground: string, background: string, mode: string, foregroundHex: string, backgroundHex: string): ContrastPair {
+  const ratio = Math.round(calculateContrastRatio(foregroundHex, backgroundHex) * 100) / 100;
+  const pair: ContrastPair = {
+    foreground,
+    background,
+    mode,
+    foregroundHex,
+    backgroundHex,
+    ratio,
+    level: 'fail',
+    aaNormal: ratio >= 4.5,
+    aaLarge: ratio >= 3,
+    aaaNormal: ratio >= 7,
+    aaaLarge: ratio >= 4.5
+  };
+  pair.level = pair.aaaNormal ? 'AAA' : pair.aaNormal ? 'AA' : pair.aaLarge ? 'AA Large' : 'fail';
+  return pair;
+}
+
+interface TextRun {
+  fills: readonly Paint[];
+  fontSize: number;
+  fontWeight: number;
+}
+
+interface LayerColor {
+  color: RGBA;
+  estimated: boolean;
+}
+
+/**
+ * Measures each visible text layer of a variant against the color rendered behind it: the fills of
+ * its ancestors and of lower siblings that cover it, composited upward from the first opaque one
+ * with paint and layer opacity applied. Mixed-style text is checked once per distinct run.
+ */
+export function checkTextContrast(variant: SceneNode, variantName: string): TextContrastCheck[] {
+  if (!('findAll' in variant)) return [];
+
+  const textNodes = variant.findAll(node => node.type === 'TEXT' && isRendered(node, variant)) as TextNode[];
+  const checks: TextContrastCheck[] = [];
+
+  for (const node of textNodes.slice(0, MAX_TEXT_CHECKS)) {
+    const background = getEffectiveBackground(node);
+    const backgroundHex = toHex(background.color);
+    const seen = new Set<string>();
+
+    for (const run of readTextRuns(node)) {
+      const foreground = compositeLayers(readPaintLayers(run.fills, getOpacity(node)), background.color);
+      if (!foreground) continue;
+
+      const foregroundHex = toHex(foreground.color);
+      const key = `${foregroundHex}|${run.fontSize}|${run.fontWeight}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const ratio = Math.round(calculateContrastRatio(foregroundHex, backgroundHex) * 100) / 100;
+      const largeText = run.fontSize >= LARGE_TEXT_SIZE || (run.fontSize >= LARGE_BOLD_TEXT_SIZE && run.fontWeight >= 700);
+      const check: TextContrastCheck = {
+        variant: variantName,
+        nodeId: node.id,
+        nodeName: node.name,
+        text: truncate(node.characters),
+        foregroundHex,
+        backgroundHex,
+        ratio,
+        fontSize: run.fontSize,
+        fontWeight: run.fontWeight,
+        largeText,
+        level: ratio >= (largeText ? 4.5 : 7) ? 'AAA' : ratio >= (largeText ? 3 : 4.5) ? 'AA' : 'fail'
+      };
+      if (background.estimated || foreground.estimated) check.estimated = true;
+      checks.push(check);
+    }
+  }
+
+  return checks;
+}
+
+// Worst level across the checks, the rating a component can honestly claim
+export function summarizeTextContrast(checks: TextContrastCheck[]): AccessibilityInfo['colorContrast'] {
+  if (checks.length === 0) return 'n/a';
+  if (checks.some(check => check.level === 'fail')) return 'fail';
+  return checks.some(check => check.level === 'AA') ? 'AA' : 'AAA';
+}
+
+// e.g. 'fail: 2 of 9 text layers below AA (lowest 2.3:1)'
+export function describeTextContrast(accessibility: AccessibilityInfo): string {
+  const checks = accessibility.contrastChecks || [];
+  if (accessibility.colorContrast === 'n/a') return 'no visible text to check';
+  if (accessibility.colorContrast !== 'fail') return `${accessibility.colorContrast} compliant across ${checks.length} text layers`;
+
+  const failing = checks.filter(check => check.level === 'fail');
+  const lowest = Math.min(...failing.map(check => check.ratio));
+  return `fail: ${failing.length} of ${checks.length} text layers below AA (lowest ${lowest}:1)`;
+}
+
+function readTextRuns(node: TextNode): TextRun[] {
+  if (Array.isArray(node.fills) && typeof node.fontSize === 'number' && typeof node.fontWeight === 'number') {
+    return [{ fills: node.fills, fontSize: node.fontSize, fontWeight: node.fontWeight }];
+  }
+  return node.getStyledTextSegments(['fills', 'fontSize', 'fontWeight'])
+    .map(segment => ({ fills: segment.fills, fontSize: segment.fontSize, fontWeight: segment.fontWeight }));
+}
+
+function getEffectiveBackground(node: SceneNode): LayerColor {
+  const layers: LayerColor[] = []; // Top-most first
+  const box = node.absoluteBoundingBox;
+  let child: BaseNode = node;
+  let parent = node.parent;
+
+  while (parent && parent.type !== 'PAGE' && parent.type !== 'DOCUMENT') {
+    const siblings: readonly SceneNode[] = 'children' in parent ? parent.children : [];
+    for (let i = siblings.indexOf(child as SceneNode) - 1; i >= 0; i--) {
+      const sibling = siblings[i];
+      if (sibling.visible && covers(sibling, box) && 'fills' in sibling && Array.isArray(sibling.fills)) {
+        layers.push(...readPaintLayers(sibling.fills, getOpacity(sibling)).reverse());
+      }
+    }
+    if ('fills' in parent && Array.isArray(parent.fills)) {
+      layers.push(...readPaintLayers(parent.fills, getOpacity(parent as SceneNode)).reverse());
+    }
+    child = parent;
+    parent = parent.parent;
+  }
+
+  // Whatever is left shows the canvas color
+  let base = WHITE;
+  if (parent && parent.type === 'PAGE') {
+    const canvas = parent.backgrounds.find(paint => paint.type === 'SOLID' && paint.visible !== false) as SolidPaint | undefined;
+    if (canvas) base = { r: canvas.color.r, g: canvas.color.g, b: canvas.color.b, a: 1 };
+  }
+  return compositeLayers(layers.reverse(), base) || { color: base, estimated: false };
+}
+
+// Paint list bottom-to-top; gradients count as the average of their stops, images can't be read
+function readPaintLayers(paints: readonly Paint[], opacity: number): LayerColor[] {
+  const layers: LayerColor[] = [];
+  for (const paint of paints) {
+    if (paint.visible === false) continue;
+    const paintOpacity = (paint.opacity !== undefined ? paint.opacity : 1) * opacity;
+
+    if (paint.type === 'SOLID') {
+      layers.push({ color: { r: paint.color.r, g: paint.color.g, b: paint.color.b, a: paintOpacity }, estimated: false });
+    } else if (paint.type.indexOf('GRADIENT_') === 0) {
+      const stops = (paint as GradientPaint).gradientStops;
+      const average = (channel: 'r' | 'g' | 'b' | 'a') => stops.reduce((sum, stop) => sum + stop.color[channel], 0) / stops.length;
+      layers.push({ color: { r: average('r'), g: average('g'), b: average('b'), a: average('a') * paintOpacity }, estimated: true });
+    } else {
+      layers.push({ color: { r: 0, g: 0, b: 0, a: 0 }, estimated: true });
+    }
+  }
+  return layers;
+}
+
+// Layers bottom-to-top over a base; null when none of them paints anything
+function compositeLayers(layers: LayerColor[], base: RGBA): LayerColor | null {
+  const painted = layers.filter(layer => layer.color.a > 0 || layer.estimated);
+  if (painted.length === 0) return null;
+
+  let start = 0;
+  for (let i = painted.length - 1; i >= 0; i--) {
+    if (painted[i].color.a >= 1) {
+      start = i;
+      break;
+    }
+  }
+
+  let color = base;
+  let estimated = false;
+  for (let i = start; i < painted.length; i++) {
+    color = composite(painted[i].color, color);
+    estimated = estimated || painted[i].estimated;
+  }
+  return { color, estimated };
+}
+
+// Group opacity is applied to every layer inside the group, exact as long as those layers don't overlap
+function getOpacity(node: SceneNode): number {
+  let opacity = 1;
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+    if ('opacity' in current) opacity *= (current as SceneNode & BlendMixin).opacity;
+    current = current.parent;
+  }
+  return opacity;
+}
+
+function isRendered(node: SceneNode, root: SceneNode): boolean {
+  let current: BaseNode | null = node;
+  while (current && current !== root) {
+    const scene = current as SceneNode;
+    if (!scene.visible || ('opacity' in scene && (scene as SceneNode & BlendMixin).opacity === 0)) return false;
+    current = current.parent;
+  }
+  return true;
+}
+
+function covers(layer: SceneNode, box: Rect | null): boolean {
+  const bounds = layer.absoluteBoundingBox;
+  if (!bounds || !box) return false;
+  return bounds.x <= box.x + 0.5 && bounds.y <= box.y + 0.5 &&
+    bounds.x + bounds.width >= box.x + box.width - 0.5 && bounds.y + bounds.height >= box.y + box.height - 0.5;
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_CHECK_TEXT_LENGTH ? `${singleLine.slice(0, MAX_CHECK_TEXT_LENGTH - 1)}…` : singleLine;
+}
+
+function isOpaque(color: ContrastColor): boolean {
+  return color.defaultValue.a >= 1 && Object.keys(color.values).every(mode => color.values[mode].a >= 1);
+}
+
+function composite(foreground: RGBA, background: RGBA): RGBA {
+  const alpha = foreground.a;
+  return {
+    r: foreground.r * alpha + background.r * (1 - alpha),
+    g: foreground.g * alpha + background.g * (1 - alpha),
+    b: foreground.b * alpha + background.b * (1 - alpha),
+    a: 1
+  };
+}
+
+function toHex(color: RGB | RGBA): string {
+  const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
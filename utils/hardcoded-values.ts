@@ -0,0 +1,381 @@
+import { HardcodedValueFinding, HardcodedValueKind, HardcodedValueReport, NearestToken } from '../types';
+import { classifyVariable } from './variable-resolver';
+import { calculateDeltaE } from './naming';
+
+const MAX_AUDIT_NODES = 500;
+const MAX_AUDIT_FINDINGS = 1000;
+const MAX_ALIAS_DEPTH = 10;
+
+const RADIUS_FIELDS: Array<'topLeftRadius' | 'topRightRadius' | 'bottomRightRadius' | 'bottomLeftRadius'> = [
+  'topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'
+];
+const PADDING_FIELDS: Array<'paddingTop' | 'paddingRight' | 'paddingBottom' | 'paddingLeft'> = [
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'
+];
+const TEXT_FIELDS = ['fontSize', 'fontName', 'lineHeight', 'letterSpacing', 'textStyleId'];
+
+export interface AuditToken {
+  id: string;
+  name: string;
+  source: 'variable' | 'style';
+  value: string | number;
+  fontFamily?: string;
+  fontStyle?: string;
+}
+
+export type AuditTokenIndex = Record<HardcodedValueKind, AuditToken[]>;
+
+export interface HardcodedValueAudit {
+  tokens: AuditTokenIndex;
+  findings: HardcodedValueFinding[];
+  truncated: boolean;
+}
+
+interface AuditTarget {
+  page: string;
+  component?: string;
+  scope: HardcodedValueFinding['scope'];
+}
+
+/**
+ * Candidate replacements for raw values: COLOR variables and single-color paint styles, spacing
+ * and radius FLOAT variables, and text styles. Aliases resolve through the default mode.
+ */
+export function buildAuditTokenIndex(
+  variables: Variable[],
+  collections: VariableCollection[],
+  paintStyles: PaintStyle[],
+  textStyles: TextStyle[]
+): AuditTokenIndex {
+  const index: AuditTokenIndex = { color: [], spacing: [], radius: [], typography: [] };
+  const variablesById = new Map<string, Variable>();
+  const defaultModes = new Map<string, string>();
+  for (const variable of variables) if (variable) variablesById.set(variable.id, variable);
+  for (const collection of collections) defaultModes.set(collection.id, collection.defaultModeId);
+
+  const resolve = (variable: Variable, depth: number): VariableValue | null => {
+    const value = variable.valuesByMode[defaultModes.get(variable.variableCollectionId) || ''];
+    if (value && typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+      const target = variablesById.get(value.id);
+      return target && depth < MAX_ALIAS_DEPTH ? resolve(target, depth + 1) : null;
+    }
+    return value === undefined ? null : value;
+  };
+
+  for (const variable of variablesById.values()) {
+    const value = resolve(variable, 0);
+    if (value === null) continue;
+
+    if (variable.resolvedType === 'COLOR' && typeof value === 'object' && 'r' in value) {
+      index.color.push({ id: variable.id, name: variable.name, source: 'variable', value: toHex(value) });
+    } else if (variable.resolvedType === 'FLOAT' && typeof value === 'number') {
+      const category = classifyVariable(variable.resolvedType, variable.scopes, variable.name).category;
+      if (category === 'spacing' || category === 'radius') {
+        index[category].push({ id: variable.id, name: variable.name, source: 'variable', value });
+      }
+    }
+  }
+
+  for (const style of paintStyles) {
+    const solids = style.paints.filter(paint => paint.visible !== false);
+    if (solids.length === 1 && solids[0].type === 'SOLID') {
+      index.color.push({ id: style.id, name: style.name, source: 'style', value: toHex(solids[0].color) });
+    }
+  }
+
+  for (const style of textStyles) {
+    index.typography.push({
+      id: style.id,
+      name: style.name,
+      source: 'style',
+      value: style.fontSize,
+      fontFamily: style.fontName.family,
+      fontStyle: style.fontName.style
+    });
+  }
+
+  return index;
+}
+
+export function createHardcodedValueAudit(tokens: AuditTokenIndex): HardcodedValueAudit {
+  return { tokens, findings: [], truncated: false };
+}
+
+/**
+ * Flags raw values across a component's variants. Nested instances only answer for the fields
+ * they override; everything else they show is audited on their own component.
+ */
+export async function auditComponent(component: ComponentSetNode | ComponentNode, audit: HardcodedValueAudit): Promise<void> {
+  const target: AuditTarget = { page: getPageName(component), component: component.name, scope: 'component' };
+  const roots: SceneNode[] = component.type === 'COMPONENT_SET' ? component.children.slice() : [component];
+
+  for (const root of roots) {
+    await auditTree(root, target, audit);
+  }
+}
+
+// Selected layers are audited like component contents, attributed to the component they sit in if any
+export async function auditSelection(nodes: readonly SceneNode[], audit: HardcodedValueAudit): Promise<void> {
+  for (const node of nodes) {
+    const component = getContainingComponent(node);
+    await auditTree(node, { page: getPageName(node), component: component ? component.name : undefined, scope: 'selection' }, audit);
+  }
+}
+
+async function auditTree(root: SceneNode, target: AuditTarget, audit: HardcodedValueAudit): Promise<void> {
+  const queue: SceneNode[] = [root];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_AUDIT_NODES) {
+    const node = queue.shift()!;
+    visited++;
+    if (!node.visible) continue;
+
+    if (node.type === 'INSTANCE') {
+      await auditInstanceOverrides(node, target, audit);
+      continue;
+    }
+
+    auditNode(node, null, target, audit);
+    if ('children' in node) queue.push(...node.children);
+  }
+}
+
+/**
+ * Audits a placed instance. Only overridden fields can be raw values the instance introduced,
+ * so both the instance and its overridden sublayers are checked against their override lists.
+ */
+export async function auditInstance(instance: InstanceNode, audit: HardcodedValueAudit): Promise<void> {
+  const mainComponent = await instance.getMainComponentAsync();
+  const componentName = mainComponent && mainComponent.parent && mainComponent.parent.type === 'COMPONENT_SET'
+    ? mainComponent.parent.name
+    : mainComponent ? mainComponent.name : undefined;
+
+  await auditInstanceOverrides(instance, { page: getPageName(instance), component: componentName, scope: 'instance' }, audit);
+}
+
+async function auditInstanceOverrides(instance: InstanceNode, target: AuditTarget, audit: HardcodedValueAudit): Promise<void> {
+  for (const override of instance.overrides) {
+    const node = override.id === instance.id ? instance : await figma.getNodeByIdAsync(override.id);
+    if (!node || !('visible' in node) || !node.visible) continue;
+    auditNode(node as SceneNode, override.overriddenFields, target, audit);
+  }
+}
+
+// `fields` limits the check to overridden properties; null audits everything on the node
+function auditNode(node: SceneNode, fields: string[] | null, target: AuditTarget, audit: HardcodedValueAudit): void {
+  if (node.type === 'COMPONENT_SET') return; // The set's dashed purple frame is Figma chrome, not design
+
+  const has = (...names: string[]) => fields === null || names.some(name => fields.indexOf(name) !== -1);
+  const bound = ('boundVariables' in node && node.boundVariables ? node.boundVariables : {}) as Record<string, any>;
+
+  if (has('fills', 'fillStyleId') && 'fills' in node) {
+    auditPaints(node, 'fills', (node as any).fillStyleId, bound.fills, target, audit);
+  }
+  if (has('strokes', 'strokeStyleId') && 'strokes' in node) {
+    auditPaints(node, 'strokes', (node as any).strokeStyleId, bound.strokes, target, audit);
+  }
+
+  if (has('cornerRadius', ...RADIUS_FIELDS) && 'cornerRadius' in node) {
+    const radius = (node as any).cornerRadius;
+    if (typeof radius === 'number') {
+      if (radius > 0 && !RADIUS_FIELDS.some(field => bound[field])) {
+        addFinding(audit, node, target, 'cornerRadius', 'radius', radius);
+      }
+    } else {
+      // Mixed radii are reported per corner
+      for (const field of RADIUS_FIELDS) {
+        const value = (node as any)[field];
+        if (has(field, 'cornerRadius') && typeof value === 'number' && value > 0 && !bound[field]) {
+          addFinding(audit, node, target, field, 'radius', value);
+        }
+      }
+    }
+  }
+
+  if ('layoutMode' in node && node.layoutMode !== 'NONE') {
+    auditSpacing(node as FrameNode, has, bound, target, audit);
+  }
+
+  if (node.type === 'TEXT' && has(...TEXT_FIELDS)) {
+    auditTypography(node, bound, target, audit);
+  }
+}
+
+function auditPaints(
+  node: SceneNode,
+  property: 'fills' | 'strokes',
+  styleId: unknown,
+  bindings: Array<VariableAlias | undefined> | undefined,
+  target: AuditTarget,
+  audit: HardcodedValueAudit
+): void {
+  const paints = (node as any)[property];
+  // A style covers the whole paint list; mixed text fills are left to the per-range styles
+  if ((typeof styleId === 'string' && styleId !== '') || !Array.isArray(paints)) return;
+
+  paints.forEach((paint: Paint, index: number) => {
+    if (paint.type !== 'SOLID' || paint.visible === false) return;
+    if (bindings && bindings[index]) return;
+    addFinding(audit, node, target, paints.length > 1 ? `${property}[${index}]` : property, 'color', toHex(paint.color));
+  });
+}
+
+function auditSpacing(
+  node: FrameNode,
+  has: (...names: string[]) => boolean,
+  bound: Record<string, any>,
+  target: AuditTarget,
+  audit: HardcodedValueAudit
+): void {
+  if (node.layoutMode === 'GRID') {
+    for (const field of ['gridRowGap', 'gridColumnGap'] as const) {
+      if (has(field) && node[field] > 0 && !bound[field]) addFinding(audit, node, target, field, 'spacing', node[field]);
+    }
+  } else {
+    // Space-between gaps are computed, not set
+    const isDistributed = node.primaryAxisAlignItems === 'SPACE_BETWEEN' ||
+      (node.primaryAxisAlignItems as string) === 'SPACE_EVENLY' || (node.primaryAxisAlignItems as string) === 'SPACE_AROUND';
+    if (has('itemSpacing') && !isDistributed && node.itemSpacing > 0 && !bound.itemSpacing) {
+      addFinding(audit, node, target, 'itemSpacing', 'spacing', node.itemSpacing);
+    }
+    const counterAxisSpacing = node.counterAxisSpacing || 0;
+    if (has('counterAxisSpacing') && node.layoutWrap === 'WRAP' && counterAxisSpacing > 0 && !bound.counterAxisSpacing) {
+      addFinding(audit, node, target, 'counterAxisSpacing', 'spacing', counterAxisSpacing);
+    }
+  }
+
+  const unbound = PADDING_FIELDS.filter(field => has(field) && node[field] > 0 && !bound[field]);
+  const uniform = unbound.length === PADDING_FIELDS.length && unbound.every(field => node[field] === node.paddingTop);
+  if (uniform) {
+    addFinding(audit, node, target, 'padding', 'spacing', node.paddingTop);
+  } else {
+    for (const field of unbound) addFinding(audit, node, target, field, 'spacing', node[field]);
+  }
+}
+
+// Text with no text style and an unbound font size; mixed-style text is skipped rather than guessed at
+function auditTypography(node: TextNode, bound: Record<string, any>, target: AuditTarget, audit: HardcodedValueAudit): void {
+  if (typeof node.textStyleId !== 'string' || node.textStyleId !== '') return;
+  if (typeof node.fontSize !== 'number' || typeof node.fontName === 'symbol' || bound.fontSize) return;
+
+  const value = `${node.fontName.family} ${node.fontName.style} ${node.fontSize}px`;
+  const nearest = findNearestTextStyle(audit.tokens.typography, node.fontSize, node.fontName);
+  addFinding(audit, node, target, 'textStyle', 'typography', value, nearest);
+}
+
+function addFinding(
+  audit: HardcodedValueAudit,
+  node: SceneNode,
+  target: AuditTarget,
+  property: string,
+  kind: HardcodedValueKind,
+  value: string | number,
+  nearest?: NearestToken
+): void {
+  if (audit.findings.length >= MAX_AUDIT_FINDINGS) {
+    audit.truncated = true;
+    return;
+  }
+
+  const finding: HardcodedValueFinding = {
+    nodeId: node.id,
+    nodeName: node.name,
+    nodeType: node.type,
+    path: getNodePath(node),
+    page: target.page,
+    scope: target.scope,
+    property,
+    kind,
+    value
+  };
+  if (target.component) finding.component = target.component;
+
+  const nearestToken = nearest || findNearestToken(audit.tokens[kind], kind, value);
+  if (nearestToken) finding.nearestToken = nearestToken;
+  audit.findings.push(finding);
+}
+
+// Colors are compared by ΔE, spacing and radii by absolute pixel difference
+export function findNearestToken(tokens: AuditToken[], kind: HardcodedValueKind, value: string | number): NearestToken | undefined {
+  let nearest: NearestToken | undefined;
+  for (const token of tokens) {
+    const distance = kind === 'color'
+      ? calculateDeltaE(String(value), String(token.value))
+      : Math.abs(Number(value) - Number(token.value));
+    if (!isFinite(distance)) continue;
+    if (!nearest || distance < nearest.distance) {
+      nearest = { tokenId: token.id, name: token.name, source: token.source, value: token.value, distance: roundDistance(distance) };
+    }
+  }
+  return nearest;
+}
+
+// Size difference in px, plus 1 for a different family and 0.5 for a different style
+function findNearestTextStyle(tokens: AuditToken[], fontSize: number, fontName: FontName): NearestToken | undefined {
+  let nearest: NearestToken | undefined;
+  for (const token of tokens) {
+    const distance = Math.abs(fontSize - Number(token.value)) +
+      (token.fontFamily === fontName.family ? 0 : 1) +
+      (token.fontStyle === fontName.style ? 0 : 0.5);
+    if (!nearest || distance < nearest.distance) {
+      const value = `${token.fontFamily} ${token.fontStyle} ${token.value}px`;
+      nearest = { tokenId: token.id, name: token.name, source: token.source, value, distance: roundDistance(distance) };
+    }
+  }
+  return nearest;
+}
+
+export function getHardcodedValueReport(audit: HardcodedValueAudit): HardcodedValueReport {
+  const byKind: Record<HardcodedValueKind, number> = { color: 0, spacing: 0, radius: 0, typography: 0 };
+  const byComponent: Record<string, number> = {};
+  for (const finding of audit.findings) {
+    byKind[finding.kind]++;
+    const component = finding.component || 'Unlinked';
+    byComponent[component] = (byComponent[component] || 0) + 1;
+  }
+
+  return {
+    total: audit.findings.length,
+    truncated: audit.truncated,
+    byKind,
+    byComponent,
+    findings: audit.findings
+  };
+}
+
+// 'Button / Content / Label', from the page's top-level frame down
+export function getNodePath(node: BaseNode): string {
+  const names: string[] = [];
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+    names.unshift(current.name);
+    current = current.parent;
+  }
+  return names.join(' / ');
+}
+
+export function getContainingComponent(node: BaseNode): ComponentSetNode | ComponentNode | null {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') {
+    if (current.type === 'COMPONENT_SET') return current;
+    if (current.type === 'COMPONENT' && (!current.parent || current.parent.type !== 'COMPONENT_SET')) return current;
+    current = current.parent;
+  }
+  return null;
+}
+
+export function getPageName(node: BaseNode): string {
+  let current: BaseNode | null = node;
+  while (current && current.type !== 'PAGE') current = current.parent;
+  return current ? current.name : '';
+}
+
+function toHex(color: RGB | RGBA): string {
+  const channel = (value: number) => Math.round(value * 255).toString(16).padStart(2, '0');
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+}
+
+function roundDistance(distance: number): number {
+  return Math.round(distance * 100) / 100;
+}
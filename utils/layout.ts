@@ -0,0 +1,396 @@
+import { LayoutNode, LayoutRule, LayoutSizing } from '../types';
+
+const MAX_LAYOUT_DEPTH = 4;
+
+// Layout reading functions
+
+/**
+ * Snapshots the auto layout tree under a node. Hidden layers are dropped and nesting stops
+ * at MAX_LAYOUT_DEPTH so large components stay readable in the generated CSS.
+ */
+export function readLayoutTree(node: SceneNode, parentMode: LayoutNode['layoutMode'] = 'NONE', depth: number = 0): LayoutNode {
+  const layout = readLayoutNode(node, depth > 0 ? parentMode : undefined);
+
+  if ('children' in node && node.type !== 'INSTANCE' && depth < MAX_LAYOUT_DEPTH) {
+    layout.children = node.children
+      .filter(child => child.visible !== false)
+      .map(child => readLayoutTree(child, layout.layoutMode, depth + 1));
+  }
+
+  return layout;
+}
+
+// A single node's layout without its children; parentMode is omitted for the root
+export function readLayoutNode(node: SceneNode, parentMode?: LayoutNode['layoutMode']): LayoutNode {
+  const frame = 'layoutMode' in node ? node as FrameNode : null;
+  const layoutMode = frame ? frame.layoutMode : 'NONE';
+
+  const layout: LayoutNode = {
+    name: node.name,
+    nodeType: node.type,
+    layoutMode,
+    wrap: frame ? frame.layoutWrap === 'WRAP' : false,
+    itemSpacing: frame ? frame.itemSpacing || 0 : 0,
+    counterAxisSpacing: frame ? frame.counterAxisSpacing || 0 : 0,
+    padding: {
+      top: frame ? frame.paddingTop || 0 : 0,
+      right: frame ? frame.paddingRight || 0 : 0,
+      bottom: frame ? frame.paddingBottom || 0 : 0,
+      left: frame ? frame.paddingLeft || 0 : 0
+    },
+    primaryAxisAlignItems: frame ? frame.primaryAxisAlignItems : 'MIN',
+    counterAxisAlignItems: frame ? frame.counterAxisAlignItems : 'MIN',
+    counterAxisAlignContent: frame && frame.counterAxisAlignContent ? frame.counterAxisAlignContent : 'AUTO',
+    sizing: {
+      horizontal: readSizing(node, 'layoutSizingHorizontal'),
+      vertical: readSizing(node, 'layoutSizingVertical')
+    },
+    width: round(node.width),
+    height: round(node.height),
+    children: []
+  };
+
+  if ('minWidth' in node) {
+    if (node.minWidth !== null) layout.minWidth = round(node.minWidth);
+    if (node.maxWidth !== null) layout.maxWidth = round(node.maxWidth);
+    if (node.minHeight !== null) layout.minHeight = round(node.minHeight);
+    if (node.maxHeight !== null) layout.maxHeight = round(node.maxHeight);
+  }
+
+  // Without auto layout on the parent every child keeps its canvas position
+  const isAbsolute = 'layoutPositioning' in node && node.layoutPositioning === 'ABSOLUTE';
+  if (parentMode && (parentMode === 'NONE' || isAbsolute)) {
+    layout.absolute = { x: round(node.x), y: round(node.y) };
+  }
+
+  if (frame && layoutMode === 'GRID') {
+    layout.grid = {
+      columns: frame.gridColumnSizes.map(toGridTrack),
+      rows: frame.gridRowSizes.map(toGridTrack),
+      rowGap: frame.gridRowGap || 0,
+      columnGap: frame.gridColumnGap || 0
+    };
+  }
+
+  return layout;
+}
+
+function readSizing(node: SceneNode, property: 'layoutSizingHorizontal' | 'layoutSizingVertical'): LayoutSizing {
+  return property in node ? (node as FrameNode)[property] : 'FIXED';
+}
+
+function toGridTrack(track: GridTrackSize): string {
+  if (track.type === 'FIXED') return `${round(track.value || 0)}px`;
+  if (track.type === 'HUG') return 'auto';
+  return `${track.value || 1}fr`;
+}
+
+// CSS translation functions
+
+const JUSTIFY_CONTENT: Record<LayoutNode['primaryAxisAlignItems'], string> = {
+  'MIN': 'flex-start',
+  'CENTER': 'center',
+  'MAX': 'flex-end',
+  'SPACE_BETWEEN': 'space-between',
+  'SPACE_EVENLY': 'space-evenly',
+  'SPACE_AROUND': 'space-around'
+};
+
+// CSS defaults to stretch, so even MIN has to be written out
+const ALIGN_ITEMS: Record<LayoutNode['counterAxisAlignItems'], string> = {
+  'MIN': 'flex-start',
+  'CENTER': 'center',
+  'MAX': 'flex-end',
+  'BASELINE': 'baseline'
+};
+
+/**
+ * Translates one layout node into CSS declarations. The parent decides how FILL sizing is
+ * expressed: flex-grow along its main axis, stretch across it.
+ */
+export function toLayoutDeclarations(node: LayoutNode, parent?: LayoutNode): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  const isRoot = !parent;
+  // A nested instance brings its own component styles; only its placement belongs to this tree
+  const isNestedInstance = !!parent && node.nodeType === 'INSTANCE';
+
+  if (isNestedInstance) {
+    // Sizing and positioning below still apply
+  } else if (node.layoutMode === 'GRID' && node.grid) {
+    declarations['display'] = 'grid';
+    declarations['grid-template-columns'] = formatTracks(node.grid.columns);
+    declarations['grid-template-rows'] = formatTracks(node.grid.rows);
+    addGap(declarations, node.grid.rowGap, node.grid.columnGap);
+  } else if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+    const gridColumn = getWrapGridColumn(node);
+
+    if (gridColumn) {
+      // Wrapping rows of equal fixed-width items behave like an auto-fill grid
+      declarations['display'] = 'grid';
+      declarations['grid-template-columns'] = `repeat(auto-fill, minmax(${gridColumn}px, 1fr))`;
+      addGap(declarations, node.counterAxisSpacing, node.itemSpacing);
+    } else {
+      declarations['display'] = isRoot && node.sizing.horizontal === 'HUG' ? 'inline-flex' : 'flex';
+      declarations['flex-direction'] = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
+      if (node.wrap) {
+        declarations['flex-wrap'] = 'wrap';
+      }
+
+      // Distributed alignments spread the free space themselves, so Figma ignores item spacing
+      const mainGap = isDistributed(node) ? 0 : node.itemSpacing;
+      const crossGap = node.wrap ? node.counterAxisSpacing : mainGap;
+      if (node.layoutMode === 'HORIZONTAL') {
+        addGap(declarations, crossGap, mainGap);
+      } else {
+        addGap(declarations, mainGap, crossGap);
+      }
+
+      if (node.primaryAxisAlignItems !== 'MIN') {
+        declarations['justify-content'] = JUSTIFY_CONTENT[node.primaryAxisAlignItems];
+      }
+      declarations['align-items'] = ALIGN_ITEMS[node.counterAxisAlignItems];
+      if (node.wrap && node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+        declarations['align-content'] = 'space-between';
+      }
+    }
+  }
+
+  const padding = isNestedInstance ? null : formatPadding(node.padding);
+  if (padding) {
+    declarations['padding'] = padding;
+  }
+
+  if (node.children.some(child => child.absolute)) {
+    declarations['position'] = 'relative';
+  }
+
+  if (node.absolute) {
+    declarations['position'] = 'absolute';
+    declarations['left'] = `${node.absolute.x}px`;
+    declarations['top'] = `${node.absolute.y}px`;
+  }
+
+  addSizing(declarations, node, parent, 'horizontal');
+  addSizing(declarations, node, parent, 'vertical');
+
+  // Figma sizes include padding
+  if (padding && (declarations['width'] || declarations['height'])) {
+    declarations['box-sizing'] = 'border-box';
+  }
+
+  return declarations;
+}
+
+function addSizing(declarations: Record<string, string>, node: LayoutNode, parent: LayoutNode | undefined, axis: 'horizontal' | 'vertical'): void {
+  const isHorizontal = axis === 'horizontal';
+  const size = isHorizontal ? 'width' : 'height';
+  const sizing = node.sizing[axis];
+  const inFlow = parent && !node.absolute && (parent.layoutMode === 'HORIZONTAL' || parent.layoutMode === 'VERTICAL');
+  const isMainAxis = inFlow && (parent!.layoutMode === 'HORIZONTAL') === isHorizontal;
+
+  // Items of a wrap grid take their width from the column track
+  if (isHorizontal && parent && !node.absolute && getWrapGridColumn(parent)) {
+    return;
+  }
+
+  if (sizing === 'FIXED') {
+    declarations[size] = `${isHorizontal ? node.width : node.height}px`;
+    if (isMainAxis) {
+      declarations['flex-shrink'] = '0';
+    }
+  } else if (sizing === 'FILL') {
+    if (isMainAxis) {
+      declarations['flex'] = '1 1 0';
+      declarations[`min-${size}`] = '0';
+    } else if (inFlow) {
+      declarations['align-self'] = 'stretch';
+    } else if (!parent || node.absolute) {
+      declarations[size] = '100%';
+    }
+  }
+
+  const min = isHorizontal ? node.minWidth : node.minHeight;
+  const max = isHorizontal ? node.maxWidth : node.maxHeight;
+  if (min !== undefined) declarations[`min-${size}`] = `${min}px`;
+  if (max !== undefined) declarations[`max-${size}`] = `${max}px`;
+}
+
+function isDistributed(node: LayoutNode): boolean {
+  return node.primaryAxisAlignItems.startsWith('SPACE_');
+}
+
+function addGap(declarations: Record<string, string>, rowGap: number, columnGap: number): void {
+  if (rowGap === columnGap) {
+    if (rowGap > 0) declarations['gap'] = `${rowGap}px`;
+    return;
+  }
+  if (rowGap > 0) declarations['row-gap'] = `${rowGap}px`;
+  if (columnGap > 0) declarations['column-gap'] = `${columnGap}px`;
+}
+
+function getWrapGridColumn(node: LayoutNode): number | null {
+  if (node.layoutMode !== 'HORIZONTAL' || !node.wrap) return null;
+
+  const items = node.children.filter(child => !child.absolute);
+  if (items.length < 2 || items.some(child => child.sizing.horizontal !== 'FIXED')) return null;
+
+  return items.every(child => child.width === items[0].width) ? items[0].width : null;
+}
+
+function formatTracks(tracks: string[]): string {
+  if (tracks.length > 1 && tracks.every(track => track === tracks[0])) {
+    return `repeat(${tracks.length}, ${tracks[0]})`;
+  }
+  return tracks.join(' ') || 'none';
+}
+
+// Shortest CSS shorthand for the four sides, or null when there is no padding
+function formatPadding(padding: LayoutNode['padding']): string | null {
+  const { top, right, bottom, left } = padding;
+  if (top === 0 && right === 0 && bottom === 0 && left === 0) return null;
+  if (top === bottom && right === left) {
+    return top === right ? `${top}px` : `${top}px ${right}px`;
+  }
+  return `${top}px ${right}px ${bottom}px ${left}px`;
+}
+
+/**
+ * Flattens a layout tree into BEM-style rules: `.button` for the root and `.button__label`
+ * for each layer. Repeated layers with the same name and layout share one class; a suffix
+ * is only added when same-named layers need different CSS.
+ */
+export function toLayoutRules(root: LayoutNode, className: string): LayoutRule[] {
+  const rules: LayoutRule[] = [];
+  const variantsByClass = new Map<string, string[]>();
+
+  const visit = (node: LayoutNode, parent?: LayoutNode) => {
+    const declarations = toLayoutDeclarations(node, parent);
+
+    if (!parent) {
+      rules.push({ selector: `.${className}`, declarations });
+    } else {
+      const base = `${className}__${toClassSegment(node.name)}`;
+      const seen = variantsByClass.get(base) || [];
+      const key = JSON.stringify(declarations);
+
+      if (seen.indexOf(key) === -1) {
+        seen.push(key);
+        variantsByClass.set(base, seen);
+        if (Object.keys(declarations).length > 0) {
+          rules.push({ selector: `.${base}${seen.length > 1 ? `-${seen.length}` : ''}`, declarations });
+        }
+      }
+    }
+
+    node.children.forEach(child => visit(child, node));
+  };
+
+  visit(root);
+  return rules.filter(rule => Object.keys(rule.declarations).length > 0);
+}
+
+export function formatLayoutCSS(rules: LayoutRule[]): string {
+  return rules.map(rule => {
+    const body = Object.entries(rule.declarations)
+      .map(([property, value]) => `  ${property}: ${value};`)
+      .join('\n');
+    return `${rule.selector} {\n${body}\n}`;
+  }).join('\n\n');
+}
+
+// e.g. 'inline-flex items-center gap-[8px] px-[16px] py-[10px]'
+export function toTailwindLayoutClasses(node: LayoutNode, parent?: LayoutNode): string[] {
+  const declarations = toLayoutDeclarations(node, parent);
+  const classes: string[] = [];
+
+  for (const [property, value] of Object.entries(declarations)) {
+    if (property === 'padding') {
+      classes.push(...toTailwindPadding(node.padding));
+      continue;
+    }
+    const mapped = toTailwindClass(property, value);
+    if (mapped) {
+      classes.push(mapped);
+    }
+  }
+
+  return classes;
+}
+
+function toTailwindClass(property: string, value: string): string | null {
+  const keywords: Record<string, Record<string, string>> = {
+    'display': { 'flex': 'flex', 'inline-flex': 'inline-flex', 'grid': 'grid' },
+    'flex-direction': { 'row': 'flex-row', 'column': 'flex-col' },
+    'flex-wrap': { 'wrap': 'flex-wrap' },
+    'justify-content': { 'flex-start': 'justify-start', 'center': 'justify-center', 'flex-end': 'justify-end', 'space-between': 'justify-between', 'space-evenly': 'justify-evenly', 'space-around': 'justify-around' },
+    'align-items': { 'flex-start': 'items-start', 'center': 'items-center', 'flex-end': 'items-end', 'baseline': 'items-baseline' },
+    'align-content': { 'space-between': 'content-between' },
+    'align-self': { 'stretch': 'self-stretch' },
+    'position': { 'relative': 'relative', 'absolute': 'absolute' },
+    'flex': { '1 1 0': 'flex-1' },
+    'flex-shrink': { '0': 'shrink-0' },
+    'box-sizing': { 'border-box': 'box-border' }
+  };
+  const prefixes: Record<string, string> = {
+    'gap': 'gap', 'row-gap': 'gap-y', 'column-gap': 'gap-x',
+    'width': 'w', 'height': 'h',
+    'min-width': 'min-w', 'max-width': 'max-w', 'min-height': 'min-h', 'max-height': 'max-h',
+    'left': 'left', 'top': 'top',
+    'grid-template-columns': 'grid-cols', 'grid-template-rows': 'grid-rows'
+  };
+
+  if (keywords[property]) {
+    return keywords[property][value] || null;
+  }
+  if (prefixes[property]) {
+    if (value === '0') return `${prefixes[property]}-0`;
+    if (value === '100%') return `${prefixes[property]}-full`;
+    // Arbitrary values can't contain spaces
+    return `${prefixes[property]}-[${value.replace(/\s+/g, '_')}]`;
+  }
+  return null;
+}
+
+function toTailwindPadding(padding: LayoutNode['padding']): string[] {
+  const { top, right, bottom, left } = padding;
+  if (top === right && right === bottom && bottom === left) return [`p-[${top}px]`];
+  if (top === bottom && right === left) return [`px-[${right}px]`, `py-[${top}px]`];
+  return [`pt-[${top}px]`, `pr-[${right}px]`, `pb-[${bottom}px]`, `pl-[${left}px]`]
+    .filter(value => !value.includes('[0px]'));
+}
+
+// One-line summary for documentation, e.g. 'Horizontal flex, 8px gap, 10px 16px padding, hug width'
+export function describeLayout(node: LayoutNode): string {
+  const parts: string[] = [];
+
+  if (node.layoutMode === 'GRID' && node.grid) {
+    parts.push(`Grid ${node.grid.columns.length}×${node.grid.rows.length}`);
+  } else if (node.layoutMode === 'NONE') {
+    parts.push(node.children.length > 0 ? 'Absolute positioning' : 'No auto layout');
+  } else {
+    parts.push(`${node.layoutMode === 'HORIZONTAL' ? 'Horizontal' : 'Vertical'} ${getWrapGridColumn(node) ? 'auto-fill grid' : 'flex'}`);
+    if (node.wrap) parts.push('wraps');
+    if (isDistributed(node)) {
+      parts.push(JUSTIFY_CONTENT[node.primaryAxisAlignItems]);
+    } else if (node.itemSpacing > 0) {
+      parts.push(`${node.itemSpacing}px gap`);
+    }
+  }
+
+  const padding = formatPadding(node.padding);
+  if (padding) parts.push(`${padding} padding`);
+
+  parts.push(`${node.sizing.horizontal.toLowerCase()} width`, `${node.sizing.vertical.toLowerCase()} height`);
+
+  return parts.join(', ');
+}
+
+export function toClassSegment(name: string): string {
+  return name.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'layer';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,6 +1,12 @@
-import { NamingStrategy, SemanticMapping } from '../types';
+import { NamingStrategy, SemanticMapping, ShadowLayer, GradientStop, GradientToken, CodeSyntax, TypographyToken, FluidTypographyOptions, FluidFontSize } from '../types';
 
-export function generateSemanticName(originalName: string, strategy: NamingStrategy): string {
+export function generateSemanticName(originalName: string, strategy: NamingStrategy, codeSyntax?: CodeSyntax): string {
+  // A code syntax set in Figma is the name engineers already use, so it is never rewritten
+  const codeSyntaxName = codeSyntaxToName(codeSyntax);
+  if (codeSyntaxName) {
+    return codeSyntaxName;
+  }
+  
   let name = originalName;
   
   // Clean the name
@@ -87,6 +93,16 @@ function applyNamingConvention(name: string, convention: NamingStrategy['convent
   }
 }
 
+// WEB code syntax is usually written as `var(--brand-primary)` or `--brand-primary`; outputs want the bare name
+export function codeSyntaxToName(codeSyntax?: CodeSyntax): string | null {
+  const web = codeSyntax && codeSyntax.WEB ? codeSyntax.WEB.trim() : '';
+  const name = web
+    .replace(/^var\(\s*/, '')
+    .replace(/\s*\)$/, '')
+    .replace(/^(--|\$)/, '');
+  return name.length > 0 ? name : null;
+}
+
 // Color utility functions
 export function rgbToHex(r: number, g: number, b: number): string {
   return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
@@ -157,6 +173,111 @@ function getRelativeLuminance(r: number, g: number, b: number): number {
   return 0.2126 * rs + 0.7152 * gs + 0.0722 * bs;
 }
 
+// APCA-W3 0.0.98G lightness contrast (Lc). Signed: positive for dark text on light, negative for light on dark
+export function calculateAPCAContrast(textColor: string, backgroundColor: string): number {
+  const text = hexToRgb(textColor);
+  const background = hexToRgb(backgroundColor);
+  if (!text || !background) return 0;
+
+  const toY = (rgb: { r: number; g: number; b: number }) => {
+    const y = 0.2126729 * Math.pow(rgb.r / 255, 2.4) + 0.7151522 * Math.pow(rgb.g / 255, 2.4) + 0.0721750 * Math.pow(rgb.b / 255, 2.4);
+    return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+  };
+  const textY = toY(text);
+  const backgroundY = toY(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, 0.56) - Math.pow(textY, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(backgroundY, 0.65) - Math.pow(textY, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+// sRGB -> CIE L*a*b* under D65, the space color distances are measured in
+export function hexToLab(hex: string): { l: number; a: number; b: number } | null {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return null;
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(c => {
+    c = c / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  const x = (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047;
+  const y = r * 0.2126 + g * 0.7152 + b * 0.0722;
+  const z = (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883;
+  const [fx, fy, fz] = [x, y, z].map(t => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+// CIE76 ΔE: below ~2 two colors are hard to tell apart side by side
+export function calculateDeltaE(color1: string, color2: string): number {
+  const lab1 = hexToLab(color1);
+  const lab2 = hexToLab(color2);
+  if (!lab1 || !lab2) return Infinity;
+
+  return Math.sqrt(Math.pow(lab1.l - lab2.l, 2) + Math.pow(lab1.a - lab2.a, 2) + Math.pow(lab1.b - lab2.b, 2));
+}
+
+export function calculateCIEDE2000(color1: string, color2: string): number {
+  const lab1 = hexToLab(color1);
+  const lab2 = hexToLab(color2);
+  return lab1 && lab2 ? calculateLabCIEDE2000(lab1, lab2) : Infinity;
+}
+
+// CIEDE2000 (Sharma et al. 2005). Corrects CIE76 in blues and near-neutrals, where it over- or under-reports
+export function calculateLabCIEDE2000(lab1: { l: number; a: number; b: number }, lab2: { l: number; a: number; b: number }): number {
+  const rad = Math.PI / 180;
+  const pow7 = (value: number) => Math.pow(value, 7);
+
+  const meanChroma = (Math.hypot(lab1.a, lab1.b) + Math.hypot(lab2.a, lab2.b)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(pow7(meanChroma) / (pow7(meanChroma) + pow7(25))));
+  const a1 = (1 + g) * lab1.a;
+  const a2 = (1 + g) * lab2.a;
+  const c1 = Math.hypot(a1, lab1.b);
+  const c2 = Math.hypot(a2, lab2.b);
+  const hue = (a: number, b: number) => {
+    if (a === 0 && b === 0) return 0;
+    const degrees = Math.atan2(b, a) / rad;
+    return degrees < 0 ? degrees + 360 : degrees;
+  };
+  const h1 = hue(a1, lab1.b);
+  const h2 = hue(a2, lab2.b);
+
+  let hueDifference = 0;
+  if (c1 * c2 !== 0) {
+    hueDifference = h2 - h1;
+    if (hueDifference > 180) hueDifference -= 360;
+    else if (hueDifference < -180) hueDifference += 360;
+  }
+  const deltaL = lab2.l - lab1.l;
+  const deltaC = c2 - c1;
+  const deltaH = 2 * Math.sqrt(c1 * c2) * Math.sin((hueDifference / 2) * rad);
+
+  const meanL = (lab1.l + lab2.l) / 2;
+  const meanC = (c1 + c2) / 2;
+  let meanH = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) > 180) meanH += meanH < 360 ? 360 : -360;
+    meanH /= 2;
+  }
+
+  const t = 1 - 0.17 * Math.cos((meanH - 30) * rad) + 0.24 * Math.cos(2 * meanH * rad) +
+    0.32 * Math.cos((3 * meanH + 6) * rad) - 0.2 * Math.cos((4 * meanH - 63) * rad);
+  const deltaTheta = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(pow7(meanC) / (pow7(meanC) + pow7(25)));
+  const sl = 1 + (0.015 * Math.pow(meanL - 50, 2)) / Math.sqrt(20 + Math.pow(meanL - 50, 2));
+  const sc = 1 + 0.045 * meanC;
+  const sh = 1 + 0.015 * meanC * t;
+  const rt = -Math.sin(2 * deltaTheta * rad) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaL / sl, 2) + Math.pow(deltaC / sc, 2) + Math.pow(deltaH / sh, 2) + rt * (deltaC / sc) * (deltaH / sh)
+  );
+}
+
 // Typography utility functions
 export function pxToRem(px: number, baseFontSize: number = 16): number {
   return px / baseFontSize;
@@ -170,6 +291,69 @@ export function generateTypescaleRatio(steps: number[], ratio: number = 1.25): n
   return steps.map(step => Math.pow(ratio, step));
 }
 
+// The base is the size closest to 16px; the ratio is the median step between neighbouring sizes
+export function detectTypeScale(sizes: number[]): { base: number; ratio: number } {
+  const unique = sizes
+    .filter(size => size > 0)
+    .sort((a, b) => a - b)
+    .filter((size, index, sorted) => index === 0 || size - sorted[index - 1] >= 0.5);
+  if (unique.length === 0) return { base: 16, ratio: 1.25 };
+
+  const base = unique.reduce((closest, size) => Math.abs(size - 16) < Math.abs(closest - 16) ? size : closest, unique[0]);
+  const ratios = unique.slice(1)
+    .map((size, index) => size / unique[index])
+    .filter(ratio => ratio >= 1.05)
+    .sort((a, b) => a - b);
+  const ratio = ratios.length > 0 ? ratios[Math.floor(ratios.length / 2)] : 1.25;
+
+  return { base, ratio: Math.round(ratio * 1000) / 1000 };
+}
+
+// Linear interpolation between the two sizes across the viewport range, in rem so user zoom still applies
+export function toFluidClamp(minSize: number, maxSize: number, minViewport: number, maxViewport: number): string {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  if (minSize === maxSize || maxViewport <= minViewport) {
+    return `${round(pxToRem(maxSize))}rem`;
+  }
+
+  const slope = (maxSize - minSize) / (maxViewport - minViewport);
+  const intercept = minSize - slope * minViewport;
+  return `clamp(${round(pxToRem(minSize))}rem, ${round(pxToRem(intercept))}rem + ${round(slope * 100)}vw, ${round(pxToRem(maxSize))}rem)`;
+}
+
+/**
+ * Maps every text style to a min/max font size pair. Styles with per-mode sizes use their
+ * smallest and largest mode; the rest sit on the detected scale, replayed with the flatter
+ * `minRatio` at the small viewport so headings shrink more than body copy.
+ */
+export function buildFluidTypeScale(typography: TypographyToken[], options: FluidTypographyOptions): Record<string, FluidFontSize> {
+  const scale = detectTypeScale(typography.map(typo => typo.fontSize));
+  const minRatio = options.minRatio || 1 + (scale.ratio - 1) * 0.75;
+  const sizes: Record<string, FluidFontSize> = {};
+
+  for (const typo of typography) {
+    const modeSizes = Object.values(typo.modes || {}).map(mode => mode.fontSize);
+    let minSize = typo.fontSize;
+    let maxSize = typo.fontSize;
+
+    if (modeSizes.length > 1) {
+      minSize = Math.min(...modeSizes);
+      maxSize = Math.max(...modeSizes);
+    } else if (typo.fontSize > scale.base) {
+      const step = Math.log(typo.fontSize / scale.base) / Math.log(scale.ratio);
+      minSize = Math.round(scale.base * generateTypescaleRatio([step], minRatio)[0] * 100) / 100;
+    }
+
+    sizes[typo.name] = {
+      minSize,
+      maxSize,
+      value: toFluidClamp(minSize, maxSize, options.minViewport, options.maxViewport)
+    };
+  }
+
+  return sizes;
+}
+
 // Spacing utility functions
 export function pxToSpacingUnit(px: number, baseUnit: number = 8): number {
   return px / baseUnit;
@@ -179,6 +363,173 @@ export function spacingUnitToPx(units: number, baseUnit: number = 8): number {
   return units * baseUnit;
 }
 
+// CSS custom property functions
+export function toCSSVariableName(path: string): string {
+  const name = path.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return `--${name}`;
+}
+
+// e.g. 'brand.primary.500' -> 'var(--brand-primary-500)'
+export function referenceToCSSVariable(reference: string): string {
+  return `var(${toCSSVariableName(reference)})`;
+}
+
+// Effect utility functions
+
+// Accepts raw Figma effects (0-1 channels) as well as the extract-basic shape ({ hex, rgb } colors)
+export function toShadowLayers(effects: readonly any[]): ShadowLayer[] {
+  return effects
+    .filter(effect => effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'))
+    .map(effect => ({
+      inset: effect.type === 'INNER_SHADOW',
+      offsetX: effect.offset ? effect.offset.x : 0,
+      offsetY: effect.offset ? effect.offset.y : 0,
+      blur: effect.radius || 0,
+      spread: effect.spread || 0,
+      color: toRGBAColor(effect.color),
+      blendMode: effect.blendMode || 'NORMAL'
+    }));
+}
+
+function toRGBAColor(color: any): { hex: string; rgb: { r: number; g: number; b: number; a: number } } {
+  if (!color) {
+    return { hex: '#000000', rgb: { r: 0, g: 0, b: 0, a: 1 } };
+  }
+  if (color.hex && color.rgb) {
+    const alpha = color.rgb.a !== undefined ? color.rgb.a : 1;
+    return { hex: color.hex, rgb: { r: color.rgb.r, g: color.rgb.g, b: color.rgb.b, a: alpha } };
+  }
+
+  const r = Math.round(color.r * 255);
+  const g = Math.round(color.g * 255);
+  const b = Math.round(color.b * 255);
+  return { hex: rgbToHex(r, g, b), rgb: { r, g, b, a: color.a !== undefined ? color.a : 1 } };
+}
+
+// e.g. '0px 1px 2px 0px rgba(0, 0, 0, 0.06), 0px 4px 8px -2px rgba(0, 0, 0, 0.1)'
+export function formatBoxShadow(layers: ShadowLayer[]): string {
+  return layers
+    .map(layer => {
+      const { r, g, b, a } = layer.color.rgb;
+      const color = a < 1 ? `rgba(${r}, ${g}, ${b}, ${Math.round(a * 100) / 100})` : layer.color.hex;
+      const inset = layer.inset ? 'inset ' : '';
+      return `${inset}${layer.offsetX}px ${layer.offsetY}px ${layer.blur}px ${layer.spread}px ${color}`;
+    })
+    .join(', ');
+}
+
+// Gradient utility functions
+
+type GradientTransformMatrix = ReadonlyArray<ReadonlyArray<number>>;
+
+// Stop colors may be raw Figma channels (0-1) or the extract-basic { hex, rgb } shape; paint opacity is folded into alpha
+export function toGradientStops(stops: readonly any[], opacity: number = 1): GradientStop[] {
+  return stops.map(stop => {
+    const color = toRGBAColor(stop.color);
+    return {
+      position: stop.position,
+      color: { hex: color.hex, rgb: Object.assign({}, color.rgb, { a: color.rgb.a * opacity }) }
+    };
+  });
+}
+
+export function getGradientType(paintType: string): GradientToken['gradientType'] {
+  switch (paintType) {
+    case 'GRADIENT_RADIAL': return 'radial';
+    case 'GRADIENT_ANGULAR': return 'angular';
+    case 'GRADIENT_DIAMOND': return 'diamond';
+    default: return 'linear';
+  }
+}
+
+/**
+ * Builds a CSS gradient from a Figma gradient paint. `gradientTransform` maps the node's unit box
+ * into gradient space, so its inverse gives the handle positions the CSS geometry is derived from.
+ * The node is treated as square; diamond gradients have no CSS equivalent and fall back to radial.
+ */
+export function formatCSSGradient(
+  gradientType: GradientToken['gradientType'],
+  stops: GradientStop[],
+  transform?: GradientTransformMatrix
+): { css: string; angle?: number } {
+  const toBox = invertGradientTransform(transform || [[1, 0, 0], [0, 1, 0]]);
+
+  if (gradientType === 'linear') {
+    const start = toBox(0, 0.5);
+    const end = toBox(1, 0.5);
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const handleLength = Math.sqrt(dx * dx + dy * dy) || 1;
+    const angle = normalizeAngle(Math.atan2(dx, -dy) * 180 / Math.PI);
+
+    // CSS runs the gradient line through the box centre, long enough to reach both far corners
+    const ux = dx / handleLength;
+    const uy = dy / handleLength;
+    const lineLength = Math.abs(ux) + Math.abs(uy);
+    const lineStartX = 0.5 - ux * lineLength / 2;
+    const lineStartY = 0.5 - uy * lineLength / 2;
+    const offset = ((start.x - lineStartX) * ux + (start.y - lineStartY) * uy) / lineLength;
+    const scale = handleLength / lineLength;
+
+    const cssStops = stops.map(stop => formatGradientStop(stop, offset + stop.position * scale));
+    return { css: `linear-gradient(${round(angle)}deg, ${cssStops.join(', ')})`, angle: round(angle) };
+  }
+
+  const center = toBox(0.5, 0.5);
+  const at = `at ${percent(center.x)} ${percent(center.y)}`;
+
+  if (gradientType === 'angular') {
+    const handle = toBox(1, 0.5);
+    const angle = normalizeAngle(Math.atan2(handle.x - center.x, -(handle.y - center.y)) * 180 / Math.PI);
+    const cssStops = stops.map(stop => formatGradientStop(stop, stop.position));
+    return { css: `conic-gradient(from ${round(angle)}deg ${at}, ${cssStops.join(', ')})`, angle: round(angle) };
+  }
+
+  const radiusX = distance(center, toBox(1, 0.5));
+  const radiusY = distance(center, toBox(0.5, 1));
+  const cssStops = stops.map(stop => formatGradientStop(stop, stop.position));
+  return { css: `radial-gradient(ellipse ${percent(radiusX)} ${percent(radiusY)} ${at}, ${cssStops.join(', ')})` };
+}
+
+function invertGradientTransform(transform: GradientTransformMatrix): (x: number, y: number) => { x: number; y: number } {
+  const [[a, b, c], [d, e, f]] = transform;
+  const determinant = a * e - b * d || 1;
+
+  return (x: number, y: number) => {
+    const tx = x - c;
+    const ty = y - f;
+    return {
+      x: (e * tx - b * ty) / determinant,
+      y: (a * ty - d * tx) / determinant
+    };
+  };
+}
+
+function formatGradientStop(stop: GradientStop, position: number): string {
+  const { r, g, b, a } = stop.color.rgb;
+  const color = a < 1 ? `rgba(${r}, ${g}, ${b}, ${round(a)})` : stop.color.hex;
+  return `${color} ${percent(position)}`;
+}
+
+function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function distance(from: { x: number; y: number }, to: { x: number; y: number }): number {
+  return Math.sqrt(Math.pow(to.x - from.x, 2) + Math.pow(to.y - from.y, 2));
+}
+
+function percent(value: number): string {
+  return `${round(value * 100)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
 // AI-friendly naming functions
 export function generateAIFriendlyName(originalName: string, type: 'color' | 'typography' | 'spacing'): string {
   const cleanName = originalName.toLowerCase()
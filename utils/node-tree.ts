@@ -0,0 +1,159 @@
+import { NodeSnapshot, LayerRole } from '../types';
+import { readLayoutNode, describeLayout } from './layout';
+
+const MAX_TREE_DEPTH = 6;
+const MAX_TREE_NODES = 60;
+const MAX_TEXT_LENGTH = 80;
+const ICON_MAX_SIZE = 48;
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON'];
+const ICON_PART_TYPES = VECTOR_TYPES.concat(['ELLIPSE', 'LINE', 'GROUP', 'FRAME']);
+
+interface SnapshotContext {
+  remaining: number;
+  variableNames: Map<string, string>;
+}
+
+/**
+ * Serializes the layer tree under a node, bounded to MAX_TREE_DEPTH levels and MAX_TREE_NODES
+ * layers. Instances stop the walk: their insides belong to their own component's snapshot.
+ */
+export async function snapshotNodeTree(node: SceneNode): Promise<NodeSnapshot> {
+  return snapshotNode(node, 0, { remaining: MAX_TREE_NODES, variableNames: new Map() });
+}
+
+async function snapshotNode(node: SceneNode, depth: number, context: SnapshotContext): Promise<NodeSnapshot> {
+  context.remaining--;
+
+  let componentName: string | undefined;
+  if (node.type === 'INSTANCE') {
+    const mainComponent = await node.getMainComponentAsync();
+    if (mainComponent) {
+      componentName = mainComponent.parent && mainComponent.parent.type === 'COMPONENT_SET'
+        ? mainComponent.parent.name
+        : mainComponent.name;
+    }
+  }
+
+  const snapshot: NodeSnapshot = {
+    name: node.name,
+    type: node.type,
+    role: detectLayerRole(node, componentName)
+  };
+
+  if (!node.visible) snapshot.hidden = true;
+  if (node.type === 'TEXT') snapshot.text = truncateText(node.characters);
+  if (componentName) snapshot.component = componentName;
+  if ('layoutMode' in node && node.layoutMode !== 'NONE') {
+    snapshot.layout = describeLayout(readLayoutNode(node));
+  }
+
+  const boundVariables = await readBoundVariables(node, context.variableNames);
+  if (boundVariables) snapshot.boundVariables = boundVariables;
+
+  if ('children' in node && node.type !== 'INSTANCE' && node.children.length > 0) {
+    const children: NodeSnapshot[] = [];
+    if (depth < MAX_TREE_DEPTH) {
+      for (const child of node.children) {
+        if (context.remaining <= 0) break;
+        children.push(await snapshotNode(child, depth + 1, context));
+      }
+    }
+
+    if (children.length > 0) snapshot.children = children;
+    if (children.length < node.children.length) snapshot.omitted = node.children.length - children.length;
+  }
+
+  return snapshot;
+}
+
+// Structural role from node type, paints and size; the layer name is only trusted for icons
+export function detectLayerRole(node: SceneNode, componentName?: string): LayerRole {
+  if (node.type === 'TEXT') return 'text';
+
+  const isSmall = node.width <= ICON_MAX_SIZE && node.height <= ICON_MAX_SIZE;
+
+  if (node.type === 'INSTANCE') {
+    const isIconName = /icon|glyph|symbol/i.test(componentName || node.name);
+    return isIconName || (isSmall && Math.abs(node.width - node.height) <= 2) ? 'icon' : 'instance';
+  }
+
+  if ('fills' in node && Array.isArray(node.fills) && node.fills.some((fill: Paint) => fill.type === 'IMAGE' && fill.visible !== false)) {
+    return 'image';
+  }
+
+  const thinSide = Math.min(node.width, node.height);
+  const longSide = Math.max(node.width, node.height);
+  if (node.type === 'LINE' || ((node.type === 'RECTANGLE' || node.type === 'FRAME') && thinSide <= 2 && longSide > 8 && !hasChildren(node))) {
+    return 'divider';
+  }
+
+  if (VECTOR_TYPES.indexOf(node.type) !== -1) return 'icon';
+
+  if (hasChildren(node)) {
+    // Small frames and groups made only of vectors are exported icons
+    const descendants = isSmall && 'findAll' in node ? node.findAll(() => true) : [];
+    const isVectorGroup = descendants.some(child => VECTOR_TYPES.indexOf(child.type) !== -1) &&
+      descendants.every(child => ICON_PART_TYPES.indexOf(child.type) !== -1);
+    return isVectorGroup ? 'icon' : 'container';
+  }
+
+  return 'shape';
+}
+
+function hasChildren(node: SceneNode): boolean {
+  return 'children' in node && node.children.length > 0;
+}
+
+// Paint arrays are flattened to `fills`, `fills[1]`, ... so every binding keeps its own key
+async function readBoundVariables(node: SceneNode, variableNames: Map<string, string>): Promise<Record<string, string> | null> {
+  if (!('boundVariables' in node) || !node.boundVariables) return null;
+
+  const result: Record<string, string> = {};
+  for (const [property, binding] of Object.entries(node.boundVariables as Record<string, any>)) {
+    const aliases: VariableAlias[] = Array.isArray(binding) ? binding : [binding];
+    for (let i = 0; i < aliases.length; i++) {
+      if (!aliases[i] || aliases[i].type !== 'VARIABLE_ALIAS') continue;
+      result[i === 0 ? property : `${property}[${i}]`] = await getVariableName(aliases[i].id, variableNames);
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+export async function getVariableName(id: string, variableNames: Map<string, string>): Promise<string> {
+  if (!variableNames.has(id)) {
+    let name = id;
+    try {
+      const variable = await figma.variables.getVariableByIdAsync(id);
+      if (variable) name = variable.name;
+    } catch (error) {
+      // Remote variables from unloaded libraries keep their id
+    }
+    variableNames.set(id, name);
+  }
+  return variableNames.get(id)!;
+}
+
+function truncateText(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_TEXT_LENGTH ? `${singleLine.slice(0, MAX_TEXT_LENGTH - 1)}…` : singleLine;
+}
+
+// e.g. 'Image (image) + Content [Title, Body] + Actions [Button, Button]'
+export function outlineNodeTree(snapshot: NodeSnapshot): string {
+  const visible = (nodes?: NodeSnapshot[]) => (nodes || []).filter(node => !node.hidden);
+  const children = visible(snapshot.children);
+  if (children.length === 0) return `${snapshot.name} (${snapshot.role})`;
+
+  return children.map(child => {
+    const nested = visible(child.children);
+    if (nested.length > 0) return `${child.name} [${nested.map(node => node.name).join(', ')}]`;
+    return `${child.name} (${child.component && child.role === 'instance' ? child.component : child.role})`;
+  }).join(' + ');
+}
+
+// One compact JSON line per variant inside a single object, so the block stays valid JSON
+export function formatNodeTrees(trees: Record<string, NodeSnapshot>): string {
+  const lines = Object.keys(trees).map(name => `  ${JSON.stringify(name)}: ${JSON.stringify(trees[name])}`);
+  return `{\n${lines.join(',\n')}\n}`;
+}
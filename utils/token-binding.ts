@@ -0,0 +1,129 @@
+import { BindingThreshold, HardcodedValueFinding, TokenBinding, TokenBindingResult } from '../types';
+
+export const BINDING_THRESHOLDS: Record<string, BindingThreshold> = {
+  exact: { label: 'Exact match', color: 0, size: 0 },
+  close: { label: 'ΔE < 2, ±1px', color: 2, size: 1 },
+  loose: { label: 'ΔE < 5, ±2px', color: 5, size: 2 }
+};
+
+const GROUPED_FIELDS: Record<string, VariableBindableNodeField[]> = {
+  padding: ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'],
+  cornerRadius: ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius']
+};
+
+/**
+ * Audit findings that can be rebound automatically. Typography is left out: a text style carries
+ * more than the font size the distance is measured on, so that swap stays a design decision.
+ */
+export function selectTokenBindings(findings: HardcodedValueFinding[], threshold: BindingThreshold): TokenBinding[] {
+  const bindings: TokenBinding[] = [];
+
+  for (const finding of findings) {
+    const token = finding.nearestToken;
+    if (!token || finding.kind === 'typography') continue;
+
+    const limit = finding.kind === 'color' ? threshold.color : threshold.size;
+    const withinThreshold = token.distance === 0 || (finding.kind === 'color' ? token.distance < limit : token.distance <= limit);
+    if (!withinThreshold) continue;
+
+    // A paint style replaces the whole paint list, so it can only stand in for a single paint
+    if (token.source === 'style' && /\[\d+\]$/.test(finding.property)) continue;
+
+    bindings.push({
+      nodeId: finding.nodeId,
+      nodeName: finding.nodeName,
+      path: finding.path,
+      property: finding.property,
+      kind: finding.kind,
+      value: finding.value,
+      token
+    });
+  }
+
+  return bindings;
+}
+
+// Each binding is applied on its own; one missing node or token doesn't stop the rest
+export async function applyTokenBindings(bindings: TokenBinding[]): Promise<TokenBindingResult> {
+  const result: TokenBindingResult = { applied: 0, skipped: [] };
+  const variables = new Map<string, Variable | null>();
+
+  for (const binding of bindings) {
+    const skip = (reason: string) => result.skipped.push({ nodeId: binding.nodeId, property: binding.property, reason });
+
+    const node = await figma.getNodeByIdAsync(binding.nodeId);
+    if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+      skip('Layer no longer exists');
+      continue;
+    }
+
+    let variable: Variable | null = null;
+    if (binding.token.source === 'variable') {
+      if (!variables.has(binding.token.tokenId)) {
+        variables.set(binding.token.tokenId, await figma.variables.getVariableByIdAsync(binding.token.tokenId));
+      }
+      variable = variables.get(binding.token.tokenId)!;
+      if (!variable) {
+        skip(`Variable ${binding.token.name} no longer exists`);
+        continue;
+      }
+    }
+
+    try {
+      const reason = binding.kind === 'color'
+        ? await bindPaint(node as SceneNode, binding, variable)
+        : bindField(node as SceneNode, binding, variable);
+      if (reason) {
+        skip(reason);
+      } else {
+        result.applied++;
+      }
+    } catch (error) {
+      skip(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return result;
+}
+
+// Returns why the paint could not be bound, or null once it is
+async function bindPaint(node: SceneNode, binding: TokenBinding, variable: Variable | null): Promise<string | null> {
+  const match = /^(fills|strokes)(?:\[(\d+)\])?$/.exec(binding.property);
+  if (!match || !(match[1] in node)) return `${binding.property} can't be bound on ${node.type}`;
+
+  const property = match[1] as 'fills' | 'strokes';
+  const target = node as SceneNode & MinimalFillsMixin & MinimalStrokesMixin;
+
+  if (!variable) {
+    if (property === 'fills') {
+      await target.setFillStyleIdAsync(binding.token.tokenId);
+    } else {
+      await target.setStrokeStyleIdAsync(binding.token.tokenId);
+    }
+    return null;
+  }
+
+  const paints = target[property];
+  const index = match[2] ? Number(match[2]) : 0;
+  if (!Array.isArray(paints) || !paints[index] || paints[index].type !== 'SOLID') return `${binding.property} is no longer a solid paint`;
+
+  const updated = paints.slice();
+  updated[index] = figma.variables.setBoundVariableForPaint(paints[index] as SolidPaint, 'color', variable);
+  if (property === 'fills') {
+    target.fills = updated;
+  } else {
+    target.strokes = updated;
+  }
+  return null;
+}
+
+function bindField(node: SceneNode, binding: TokenBinding, variable: Variable | null): string | null {
+  if (!variable) return `${binding.token.name} is a style; ${binding.property} only takes variables`;
+  if (!('setBoundVariable' in node)) return `${binding.property} can't be bound on this layer`;
+
+  const fields = GROUPED_FIELDS[binding.property] || [binding.property as VariableBindableNodeField];
+  for (const field of fields) {
+    node.setBoundVariable(field, variable);
+  }
+  return null;
+}
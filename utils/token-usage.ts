@@ -0,0 +1,121 @@
+import { TokenUsage, TokenUsageKind, TokenComponentReference } from '../types';
+import { getVariableName } from './node-tree';
+
+const MAX_USAGE_NODES = 500;
+
+const STYLE_FIELDS: Array<{ field: 'fillStyleId' | 'strokeStyleId' | 'textStyleId' | 'effectStyleId'; property: string; kind: TokenUsageKind }> = [
+  { field: 'fillStyleId', property: 'fills', kind: 'color' },
+  { field: 'strokeStyleId', property: 'strokes', kind: 'color' },
+  { field: 'textStyleId', property: 'text', kind: 'typography' },
+  { field: 'effectStyleId', property: 'effects', kind: 'effect' }
+];
+
+export interface TokenUsageCollector {
+  usage: Map<string, TokenUsage>;
+  variableNames: Map<string, string>;
+  styleNames: Map<string, string>;
+}
+
+export function createTokenUsageCollector(): TokenUsageCollector {
+  return { usage: new Map(), variableNames: new Map(), styleNames: new Map() };
+}
+
+/**
+ * Records every variable binding and shared style under a variant. Nested instances only count
+ * their own overrides; whatever their component binds internally is reported on that component.
+ */
+export async function collectTokenUsage(root: SceneNode, variantName: string, collector: TokenUsageCollector): Promise<void> {
+  const queue: SceneNode[] = [root];
+  let visited = 0;
+
+  while (queue.length > 0 && visited < MAX_USAGE_NODES) {
+    const node = queue.shift()!;
+    visited++;
+
+    if ('boundVariables' in node && node.boundVariables) {
+      for (const [property, binding] of Object.entries(node.boundVariables as Record<string, any>)) {
+        const aliases: VariableAlias[] = Array.isArray(binding) ? binding : [binding];
+        for (const alias of aliases) {
+          if (!alias || alias.type !== 'VARIABLE_ALIAS') continue;
+          const name = await getVariableName(alias.id, collector.variableNames);
+          recordUsage(collector, name, 'variable', getPropertyKind(property), property, variantName);
+        }
+      }
+    }
+
+    for (const { field, property, kind } of STYLE_FIELDS) {
+      const styleId = field in node ? (node as any)[field] : null;
+      // Mixed text ranges report figma.mixed; only whole-node styles are attributed
+      if (typeof styleId !== 'string' || styleId === '') continue;
+      const name = await getStyleName(styleId, collector.styleNames);
+      recordUsage(collector, name, 'style', kind, property, variantName);
+    }
+
+    if ('children' in node && (node === root || node.type !== 'INSTANCE')) {
+      queue.push(...node.children);
+    }
+  }
+}
+
+export function getTokenUsage(collector: TokenUsageCollector): TokenUsage[] {
+  return Array.from(collector.usage.values()).sort((a, b) => a.kind.localeCompare(b.kind) || a.token.localeCompare(b.token));
+}
+
+function recordUsage(collector: TokenUsageCollector, token: string, source: TokenUsage['source'], kind: TokenUsageKind, property: string, variantName: string): void {
+  const key = `${source}:${token}`;
+  let entry = collector.usage.get(key);
+  if (!entry) {
+    entry = { token, source, kind, properties: [], variants: [] };
+    collector.usage.set(key, entry);
+  }
+  if (entry.properties.indexOf(property) === -1) entry.properties.push(property);
+  if (entry.variants.indexOf(variantName) === -1) entry.variants.push(variantName);
+}
+
+async function getStyleName(id: string, styleNames: Map<string, string>): Promise<string> {
+  if (!styleNames.has(id)) {
+    let name = id;
+    try {
+      const style = await figma.getStyleByIdAsync(id);
+      if (style) name = style.name;
+    } catch (error) {
+      // Styles from unloaded libraries keep their id
+    }
+    styleNames.set(id, name);
+  }
+  return styleNames.get(id)!;
+}
+
+export function getPropertyKind(property: string): TokenUsageKind {
+  if (/^(fills|strokes|textRangeFills|color)$/.test(property)) return 'color';
+  if (/^(itemSpacing|counterAxisSpacing|padding(Top|Right|Bottom|Left)|grid(Row|Column)Gap)$/.test(property)) return 'spacing';
+  if (/radius/i.test(property)) return 'radius';
+  if (/^(font|lineHeight|letterSpacing|paragraph)/.test(property)) return 'typography';
+  if (/^(width|height|minWidth|maxWidth|minHeight|maxHeight)$/.test(property)) return 'sizing';
+  if (property === 'effects') return 'effect';
+  return 'other';
+}
+
+/**
+ * Inverts per-component usage into token -> components, the lookup needed when a token changes.
+ * Components are listed once per token however many properties or variants use it.
+ */
+export function buildTokenComponentIndex(components: Array<{ name: string; tokenUsage?: TokenUsage[] }>): TokenComponentReference[] {
+  const index = new Map<string, TokenComponentReference>();
+
+  for (const component of components) {
+    for (const usage of component.tokenUsage || []) {
+      const key = `${usage.source}:${usage.token}`;
+      const entry = index.get(key) || { token: usage.token, source: usage.source, kind: usage.kind, components: [] };
+      if (entry.components.indexOf(component.name) === -1) entry.components.push(component.name);
+      index.set(key, entry);
+    }
+  }
+
+  return Array.from(index.values()).sort((a, b) => b.components.length - a.components.length || a.token.localeCompare(b.token));
+}
+
+// Variables read as alias references ('semantic/action/primary' -> 'semantic.action.primary'); style names stay as written
+export function formatTokenReference(usage: { token: string; source: TokenUsage['source'] }): string {
+  return usage.source === 'variable' ? usage.token.split('/').join('.') : usage.token;
+}
@@ -1,10 +1,77 @@
-import { FigmaVariable, VariableValue, ResolvedVariable, VariableResolutionResult } from '../types';
+import { FigmaVariable, VariableValue, ResolvedVariable, VariableResolutionResult, AliasReference, VariableClassification } from '../types';
+
+export function isAliasReference(value: any): value is AliasReference {
+  return !!value && typeof value === 'object' && typeof value.reference === 'string' && 'value' in value;
+}
+
+// Figma scopes checked in order; the first match decides how a FLOAT variable is emitted
+const FLOAT_SCOPE_CLASSIFICATIONS: Array<{ scope: string; classification: VariableClassification }> = [
+  { scope: 'GAP', classification: { category: 'spacing', unit: 'px' } },
+  { scope: 'WIDTH_HEIGHT', classification: { category: 'sizing', unit: 'px' } },
+  { scope: 'CORNER_RADIUS', classification: { category: 'radius', unit: 'px' } },
+  { scope: 'STROKE_FLOAT', classification: { category: 'border-width', unit: 'px' } },
+  { scope: 'OPACITY', classification: { category: 'opacity' } },
+  { scope: 'FONT_SIZE', classification: { category: 'typography', typographyProperty: 'fontSize', unit: 'px' } },
+  { scope: 'LINE_HEIGHT', classification: { category: 'typography', typographyProperty: 'lineHeight', unit: 'px' } },
+  { scope: 'LETTER_SPACING', classification: { category: 'typography', typographyProperty: 'letterSpacing', unit: 'px' } },
+  { scope: 'FONT_WEIGHT', classification: { category: 'typography', typographyProperty: 'fontWeight' } },
+  { scope: 'PARAGRAPH_SPACING', classification: { category: 'typography', typographyProperty: 'paragraphSpacing', unit: 'px' } }
+];
+
+// Variables left on ALL_SCOPES carry no scope hint, so their name decides instead
+const FLOAT_NAME_CLASSIFICATIONS: Array<{ pattern: RegExp; classification: VariableClassification }> = [
+  { pattern: /radius|corner|rounded/, classification: { category: 'radius', unit: 'px' } },
+  { pattern: /spacing|space|gap|padding|margin|gutter|inset/, classification: { category: 'spacing', unit: 'px' } },
+  { pattern: /border|stroke/, classification: { category: 'border-width', unit: 'px' } },
+  { pattern: /opacity|alpha/, classification: { category: 'opacity' } },
+  { pattern: /font-?size|text-?size/, classification: { category: 'typography', typographyProperty: 'fontSize', unit: 'px' } },
+  { pattern: /line-?height|leading/, classification: { category: 'typography', typographyProperty: 'lineHeight', unit: 'px' } },
+  { pattern: /letter-?spacing|tracking/, classification: { category: 'typography', typographyProperty: 'letterSpacing', unit: 'px' } },
+  { pattern: /font-?weight|weight/, classification: { category: 'typography', typographyProperty: 'fontWeight' } },
+  { pattern: /size|width|height|breakpoint|container/, classification: { category: 'sizing', unit: 'px' } }
+];
+
+/**
+ * Classifies a FLOAT / STRING / BOOLEAN variable into the token category generators emit it as.
+ * Explicit scopes win over the variable name; BOOLEAN variables are always feature flags.
+ */
+export function classifyVariable(resolvedType: string, scopes: string[] = [], name: string = ''): VariableClassification {
+  const scoped = scopes.filter(scope => scope !== 'ALL_SCOPES');
+  const lowerName = name.toLowerCase();
+
+  if (resolvedType === 'BOOLEAN') {
+    return { category: 'flag' };
+  }
+
+  if (resolvedType === 'STRING') {
+    if (scoped.indexOf('FONT_FAMILY') !== -1 || (scoped.length === 0 && /font-?family|typeface/.test(lowerName))) {
+      return { category: 'typography', typographyProperty: 'fontFamily' };
+    }
+    if (scoped.indexOf('FONT_STYLE') !== -1) {
+      return { category: 'typography', typographyProperty: 'fontStyle' };
+    }
+    return { category: 'string' };
+  }
+
+  for (const mapping of FLOAT_SCOPE_CLASSIFICATIONS) {
+    if (scoped.indexOf(mapping.scope) !== -1) return mapping.classification;
+  }
+  if (scoped.length === 0) {
+    for (const mapping of FLOAT_NAME_CLASSIFICATIONS) {
+      if (mapping.pattern.test(lowerName)) return mapping.classification;
+    }
+  }
+  return { category: 'number' };
+}
 
 export class EnhancedVariableAliasResolver {
   private variableMap: Map<string, FigmaVariable> = new Map();
   private primitiveValues: Map<string, any> = new Map();
   private resolvedCache: Map<string, any> = new Map();
+  private modeNames: Map<string, string> = new Map();
+  private defaultModeIds: Set<string> = new Set();
   private debugMode: boolean = true;
+  private preserveAliases: boolean = false;
   private resolutionStats = {
     totalVariables: 0,
     resolvedAliases: 0,
@@ -12,14 +79,20 @@ export class EnhancedVariableAliasResolver {
     primitiveValues: 0
   };
 
-  constructor(debugMode: boolean = true) {
+  /**
+   * @param preserveAliases keep `{ reference, value }` pairs instead of flattening aliases,
+   * so generators can emit references (e.g. `var(--brand-primary-500)`) rather than copies
+   */
+  constructor(debugMode: boolean = true, preserveAliases: boolean = false) {
     this.debugMode = debugMode;
+    this.preserveAliases = preserveAliases;
   }
 
   public resolveVariables(data: any): VariableResolutionResult {
     this.log('Starting variable resolution process...');
     this.resetStats();
     
+    this.buildModeNames(data);
     this.buildVariableMaps(data);
     this.identifyPrimitives();
     const resolved = this.resolveAllAliases(data);
@@ -38,6 +111,8 @@ export class EnhancedVariableAliasResolver {
     this.variableMap.clear();
     this.primitiveValues.clear();
     this.resolvedCache.clear();
+    this.modeNames.clear();
+    this.defaultModeIds.clear();
     this.resolutionStats = {
       totalVariables: 0,
       resolvedAliases: 0,
@@ -215,7 +290,7 @@ export class EnhancedVariableAliasResolver {
       const currentPath = path ? `${path}.${key}` : key;
       
       if (this.isAlias(value)) {
-        resolved[key] = this.resolveAlias(value, currentPath);
+        resolved[key] = this.resolveAliasValue(value, currentPath);
       } else if (key === 'modes' && typeof value === 'object') {
         resolved[key] = this.resolveModes(value, currentPath);
       } else if (typeof value === 'object') {
@@ -238,9 +313,9 @@ export class EnhancedVariableAliasResolver {
   private resolveModes(modes: any, path: string): any {
     const resolved: any = {};
     
-    for (const [modeId, value] of Object.entries(modes)) {
+    for (const [modeId, value] of this.orderModes(modes)) {
       if (this.isAlias(value)) {
-        resolved[this.getModeName(modeId)] = this.resolveAlias(value, `${path}.${modeId}`);
+        resolved[this.getModeName(modeId)] = this.resolveAliasValue(value, `${path}.${modeId}`, this.getModeName(modeId));
       } else if (this.isPrimitiveValue(value)) {
         resolved[this.getModeName(modeId)] = this.extractPrimitiveValue(value);
       } else {
@@ -248,21 +323,110 @@ export class EnhancedVariableAliasResolver {
       }
     }
     
+    return this.withDefaultMode(resolved, modes);
+  }
+
+  /**
+   * Multi-mode maps name their collection's default mode under `defaultMode`, after the modes
+   * themselves. The default is also listed first, so readers that take the first mode agree.
+   */
+  private withDefaultMode(resolved: any, modes: any): any {
+    const defaultModeId = this.findDefaultModeId(modes);
+    if (defaultModeId && Object.keys(resolved).length > 1) {
+      resolved.defaultMode = this.getModeName(defaultModeId);
+    }
     return resolved;
   }
 
+  private orderModes(modes: any): Array<[string, any]> {
+    const entries = Object.entries(modes);
+    const defaultModeId = this.findDefaultModeId(modes);
+    return defaultModeId
+      ? entries.filter(([modeId]) => modeId === defaultModeId).concat(entries.filter(([modeId]) => modeId !== defaultModeId))
+      : entries;
+  }
+
+  private findDefaultModeId(modes: any): string | undefined {
+    return Object.keys(modes).find(modeId => this.defaultModeIds.has(modeId));
+  }
+
   private getModeName(modeId: string): string {
-    const modeMap: Record<string, string> = {
-      '40000015:1': 'light',
-      '40000015:2': 'dark',
-      '111:3': 'default',
-      '594:0': 'default',
-      '89:0': 'default',
-      '20:0': 'light',
-      '20:1': 'dark'
+    return this.modeNames.get(modeId) || modeId;
+  }
+
+  private buildModeNames(data: any): void {
+    // Extracted collection info carries modeNames; raw Figma collections carry a modes array
+    let collections: any[] = [];
+    if (data.collections) {
+      collections = Object.keys(data.collections).map(id => data.collections[id]);
+    } else if (Array.isArray(data.variableCollections)) {
+      collections = data.variableCollections;
+    }
+
+    for (const collection of collections) {
+      if (collection.defaultModeId) {
+        this.defaultModeIds.add(collection.defaultModeId);
+      }
+      if (collection.modeNames) {
+        for (const modeId of Object.keys(collection.modeNames)) {
+          this.modeNames.set(modeId, collection.modeNames[modeId]);
+        }
+      } else if (Array.isArray(collection.modes)) {
+        for (const mode of collection.modes) {
+          this.modeNames.set(mode.modeId, mode.name);
+        }
+      }
+    }
+
+    this.log(`Found ${this.modeNames.size} named modes`);
+  }
+
+  private resolveAliasValue(alias: any, path: string, modeName?: string): any {
+    // Whole variable objects also pass isAlias(); only true VARIABLE_ALIAS values keep a reference
+    if (!this.preserveAliases || alias.type !== 'VARIABLE_ALIAS') {
+      return this.resolveAlias(alias, path);
+    }
+
+    const aliasId = alias.id || alias;
+    const target = this.findVariable(aliasId);
+    const reference: AliasReference = {
+      reference: target ? this.getReferencePath(target) : aliasId,
+      value: this.pickModeValue(this.resolveAlias(alias, path), modeName)
     };
-    
-    return modeMap[modeId] || modeId;
+    return reference;
+  }
+
+  private findVariable(aliasId: string): FigmaVariable | undefined {
+    const idFormats = [
+      aliasId,
+      aliasId.replace('VariableID:', ''),
+      aliasId.split(':').pop() || aliasId
+    ];
+
+    for (const id of idFormats) {
+      const variable = this.variableMap.get(id);
+      if (variable) return variable;
+    }
+    return undefined;
+  }
+
+  private getReferencePath(variable: FigmaVariable): string {
+    return (variable.name || variable.id)
+      .split('/')
+      .map(part => part.trim())
+      .join('.');
+  }
+
+  private pickModeValue(resolved: any, modeName?: string): any {
+    if (isAliasReference(resolved)) return resolved.value;
+    if (!resolved || typeof resolved !== 'object' || this.isAlias(resolved) || this.isPrimitiveValue(resolved)) {
+      return resolved;
+    }
+
+    // Multi-mode targets: follow the same mode when both sides share it
+    const fallbackMode = resolved.defaultMode !== undefined ? resolved.defaultMode : Object.keys(resolved)[0];
+    const value = modeName && modeName in resolved ? resolved[modeName] : resolved[fallbackMode];
+    return isAliasReference(value) ? value.value : value;
   }
 
   private resolveAlias(alias: any, path: string): any {
@@ -310,11 +474,11 @@ export class EnhancedVariableAliasResolver {
     const modes = variable.modes || {};
     const resolved: any = {};
     
-    for (const [modeId, value] of Object.entries(modes)) {
+    for (const [modeId, value] of this.orderModes(modes)) {
       const modeName = this.getModeName(modeId);
       
       if (this.isAlias(value)) {
-        resolved[modeName] = this.resolveAlias(value, `${variable.name}.${modeId}`);
+        resolved[modeName] = this.resolveAliasValue(value, `${variable.name}.${modeId}`, modeName);
       } else if (this.isPrimitiveValue(value)) {
         resolved[modeName] = this.extractPrimitiveValue(value);
       } else {
@@ -322,12 +486,13 @@ export class EnhancedVariableAliasResolver {
       }
     }
     
+    // Single-mode collections collapse to their only value
     const modeKeys = Object.keys(resolved);
-    if (modeKeys.length === 1 && modeKeys[0] === 'default') {
-      return resolved.default;
+    if (modeKeys.length === 1) {
+      return resolved[modeKeys[0]];
     }
     
-    return resolved;
+    return this.withDefaultMode(resolved, modes);
   }
 
   private log(message: string, level: 'log' | 'warn' | 'error' = 'log'): void {
@@ -0,0 +1,85 @@
+// Store-only ZIP writer: multi-file outputs download as one archive that keeps their folder layout
+
+const CRC_TABLE = buildCrcTable();
+
+// Entries are uncompressed and dated 1980-01-01; paths use forward slashes and are flagged as UTF-8
+export function createZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const path of Object.keys(files)) {
+    const name = encoder.encode(path);
+    const data = encoder.encode(files[path]);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    writeEntryFields(local, 4, crc, data.length, name.length);
+    localParts.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    writeEntryFields(central, 6, crc, data.length, name.length);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concat(localParts.concat(centralParts, [new Uint8Array(end.buffer)])).buffer as ArrayBuffer;
+}
+
+// Shared by the local and central headers from "version needed" through the extra field length
+function writeEntryFields(view: DataView, start: number, crc: number, size: number, nameLength: number): void {
+  view.setUint16(start, 20, true);
+  view.setUint16(start + 2, 0x0800, true);
+  view.setUint16(start + 4, 0, true);
+  view.setUint16(start + 6, 0, true);
+  view.setUint16(start + 8, 0x21, true);
+  view.setUint32(start + 10, crc, true);
+  view.setUint32(start + 14, size, true);
+  view.setUint32(start + 18, size, true);
+  view.setUint16(start + 22, nameLength, true);
+  view.setUint16(start + 24, 0, true);
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): number[] {
+  const table: number[] = [];
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+  return table;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}